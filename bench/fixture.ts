@@ -0,0 +1,183 @@
+/**
+ * Synthetic TypeDoc JSON fixture for parser benchmarks
+ * 
+ * @packageDocumentation
+ * @module bench/fixture
+ * 
+ * @remarks
+ * Generates a project shaped like real TypeDoc output: modules containing
+ * classes with overloaded methods and properties, interfaces that reference
+ * those classes, and functions. The default size produces over 50,000
+ * indexed reflections.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Reflection, ReflectionKind, Signature, TypeDocJSON } from '../src/types/typedoc.js';
+
+/**
+ * Size of the generated project
+ */
+export interface FixtureOptions {
+  /** Number of modules */
+  modules: number;
+  /** Classes per module */
+  classes: number;
+  /** Interfaces per module */
+  interfaces: number;
+  /** Functions per module */
+  functions: number;
+  /** Properties and methods (each) per class or interface */
+  members: number;
+}
+
+/**
+ * Default size: 60 modules of roughly 950 reflections each
+ */
+export const DEFAULT_FIXTURE: FixtureOptions = {
+  modules: 60,
+  classes: 20,
+  interfaces: 10,
+  functions: 10,
+  members: 10,
+};
+
+/**
+ * Builds a synthetic TypeDoc project
+ * 
+ * @param options - Size of the generated project
+ * @returns The project and the number of indexed reflections it contains
+ */
+export function createFixture(options: FixtureOptions = DEFAULT_FIXTURE): { doc: TypeDocJSON; reflections: number } {
+  let nextId = 0;
+  let reflections = 0;
+  const id = () => {
+    reflections++;
+    return nextId++;
+  };
+
+  const comment = (text: string) => ({ summary: [{ kind: 'text', text }] });
+
+  const signature = (name: string, kind: ReflectionKind, params: number): Signature => ({
+    id: id(),
+    name,
+    variant: 'signature',
+    kind,
+    comment: comment(`Calls ${name} with ${params} arguments`),
+    sources: [{ fileName: 'src/generated.ts', line: nextId, character: 2 }],
+    parameters: Array.from({ length: params }, (_, i) => ({
+      id: nextId++,
+      name: `arg${i}`,
+      variant: 'param',
+      kind: ReflectionKind.Parameter,
+      type: { type: 'intrinsic', name: 'string' },
+    })),
+    type: { type: 'intrinsic', name: 'void' },
+  });
+
+  const members = (prefix: string): Reflection[] => {
+    const result: Reflection[] = [];
+    for (let i = 0; i < options.members; i++) {
+      result.push({
+        id: id(),
+        name: `${prefix}Property${i}`,
+        kind: ReflectionKind.Property,
+        comment: comment(`Property ${i} of ${prefix}`),
+        type: { type: 'intrinsic', name: 'number' },
+      });
+      const methodId = id();
+      const name = `${prefix}Method${i}`;
+      result.push({
+        id: methodId,
+        name,
+        kind: ReflectionKind.Method,
+        signatures: [
+          signature(name, ReflectionKind.CallSignature, 1),
+          signature(name, ReflectionKind.CallSignature, 2),
+        ],
+      });
+    }
+    return result;
+  };
+
+  const modules: Reflection[] = [];
+  for (let m = 0; m < options.modules; m++) {
+    const children: Reflection[] = [];
+    const fileName = `src/module${m}/index.ts`;
+    const moduleId = id();
+
+    const classIds: number[] = [];
+    for (let c = 0; c < options.classes; c++) {
+      const classId = id();
+      classIds.push(classId);
+      children.push({
+        id: classId,
+        name: `Service${c}`,
+        kind: ReflectionKind.Class,
+        comment: comment(`Service ${c} in module ${m}`),
+        sources: [{ fileName, line: c * 100 + 1, character: 0 }],
+        children: members(`service${c}`),
+      });
+    }
+
+    for (let i = 0; i < options.interfaces; i++) {
+      children.push({
+        id: id(),
+        name: `Options${i}`,
+        kind: ReflectionKind.Interface,
+        comment: comment(`Options for service ${i}`),
+        sources: [{ fileName, line: 5000 + i * 50, character: 0 }],
+        children: members(`options${i}`).map(child => ({
+          ...child,
+          type: child.type && {
+            type: 'reference',
+            target: classIds[i % classIds.length],
+            name: `Service${i % classIds.length}`,
+          },
+        })),
+      });
+    }
+
+    for (let f = 0; f < options.functions; f++) {
+      children.push({
+        id: id(),
+        name: `helper${f}`,
+        kind: ReflectionKind.Function,
+        sources: [{ fileName, line: 9000 + f * 10, character: 0 }],
+        signatures: [signature(`helper${f}`, ReflectionKind.CallSignature, 1)],
+      });
+    }
+
+    modules.push({
+      id: moduleId,
+      name: `module${m}`,
+      kind: ReflectionKind.Module,
+      sources: [{ fileName, line: 1, character: 0 }],
+      children,
+    });
+  }
+
+  const doc: TypeDocJSON = {
+    id: id(),
+    name: 'bench-fixture',
+    kind: ReflectionKind.Project,
+    children: modules,
+  };
+
+  return { doc, reflections };
+}
+
+/**
+ * Writes a synthetic TypeDoc project to a temporary file
+ * 
+ * @param options - Size of the generated project
+ * @returns Path to the JSON file and the number of indexed reflections
+ */
+export async function writeFixture(options: FixtureOptions = DEFAULT_FIXTURE): Promise<{ file: string; reflections: number }> {
+  const { doc, reflections } = createFixture(options);
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsdoc-mcp-bench-'));
+  const file = path.join(dir, 'typedoc.json');
+  await fs.writeFile(file, JSON.stringify(doc), 'utf-8');
+  return { file, reflections };
+}
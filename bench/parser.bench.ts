@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, bench, describe } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TypeDocParser } from '../src/parser/index.js';
+import { writeFixture } from './fixture.js';
+
+let file = '';
+let parser: TypeDocParser;
+
+beforeAll(async () => {
+  const fixture = await writeFixture();
+  file = fixture.file;
+  console.log(`Fixture: ${fixture.reflections} reflections`);
+
+  parser = new TypeDocParser(file);
+  await parser.parse();
+});
+
+afterAll(async () => {
+  await fs.rm(path.dirname(file), { recursive: true, force: true });
+});
+
+describe('TypeDocParser', () => {
+  bench('parse', async () => {
+    await new TypeDocParser(file).parse();
+  }, { iterations: 5 });
+
+  bench('findByName (partial match)', () => {
+    parser.findByName('method1', false);
+  });
+
+  bench('findByName (exact match)', () => {
+    parser.findByName('Service7');
+  });
+
+  bench('findByPath', () => {
+    parser.findByPath('bench-fixture.module42.Service7.service7Method3#signature-2');
+  });
+
+  bench('findByKey', () => {
+    parser.findByKey('class:module42.Service7');
+  });
+});
@@ -17,23 +17,38 @@
  * @see {@link https://typedoc.org | TypeDoc}
  */
 
-import { promises as fs } from 'fs';
-import path from 'path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { TypeDocParser } from './parser/index.js';
+import { getDefaultCacheDir } from './parser/index-cache.js';
+import { formatDiagnostic } from './parser/validation.js';
 import { getProjectOverview } from './resources/overview.js';
+import { getGenerationStatus } from './resources/generation.js';
+import { getModuleDeclarations } from './resources/declarations.js';
+import { DocProject, ProjectConfig } from './projects/doc-project.js';
+import { resolveProjects, ProjectArgs } from './projects/config.js';
+import { federate, FederatedMatch, mergeLists, mergeLookups } from './projects/federation.js';
 import {
   findSymbol,
   getDocumentation,
   getMembers,
+  getTypeDefinition,
+  getAllowedValues,
+  getExamples,
+  emitDeclarations,
   searchByTag,
+  getInheritance,
+  findReferences,
+  searchDocs,
+  getSymbolsInFile,
+  getSymbolAtLocation,
 } from './tools/index.js';
 import { checkTypeDocSetupTool } from './tools/check-setup.js';
 import { generateTypeDocConfigTool } from './tools/generate-config.js';
@@ -45,12 +60,16 @@ import { runTypeDocGenerationTool } from './tools/run-generation.js';
  * @interface ServerConfig
  */
 interface ServerConfig {
-  /** Path to the TypeDoc JSON output file */
-  docPath?: string;
-  /** Path to the TypeScript project (alternative to docPath) */
-  projectPath?: string;
+  /** Documentation projects to serve */
+  projects: ProjectConfig[];
   /** Optional custom name for the server */
   serverName?: string;
+  /** Directory for the on-disk index cache (default: see {@link getDefaultCacheDir}) */
+  cacheDir?: string;
+  /** Disables the on-disk index cache */
+  noCache?: boolean;
+  /** Directory emitDeclarations writes into (default: each project's path, or the working directory) */
+  outputDir?: string;
 }
 
 /**
@@ -61,13 +80,18 @@ interface ServerConfig {
  * handles incoming requests, and manages the TypeDoc parser instance.
  * 
  * The server provides the following capabilities:
- * - **Tools**: findSymbol, getDocumentation, getMembers, searchByTag
- * - **Resources**: Project overview with statistics
+ * - **Tools**: findSymbol, searchDocs, getDocumentation, getMembers, getTypeDefinition, getAllowedValues, getExamples,
+ *   searchByTag, getInheritance, findReferences, getSymbolsInFile, getSymbolAtLocation, emitDeclarations
+ * - **Resources**: Project overview with statistics, and module declaration files
+ * 
+ * Each project has its own parser. Query tools take an optional `project`
+ * argument; without it, a server with several projects queries all of them
+ * and tags each result with its project.
  * 
  * @example
  * ```typescript
  * const config: ServerConfig = {
- *   docPath: './docs/typedoc.json',
+ *   projects: [{ name: 'default', docPath: './docs/typedoc.json' }],
  *   serverName: 'My Project Docs'
  * };
  * 
@@ -78,10 +102,10 @@ interface ServerConfig {
 class TypeDocMCPServer {
   /** MCP server instance */
   private server: Server;
-  /** TypeDoc parser for processing documentation */
-  private parser: TypeDocParser;
-  /** Server configuration */
-  private config: ServerConfig;
+  /** Documentation projects by name */
+  private projects = new Map<string, DocProject>();
+  /** Directory emitDeclarations writes into, when configured */
+  private outputDir?: string;
 
   /**
    * Creates a new TypeDoc MCP server instance
@@ -89,9 +113,11 @@ class TypeDocMCPServer {
    * @param config - Server configuration options
    */
   constructor(config: ServerConfig) {
-    this.config = config;
-    // Parser will be initialized in start() after we determine the doc path
-    this.parser = null as any;
+    const cacheDir = config.noCache ? undefined : config.cacheDir || getDefaultCacheDir();
+    this.outputDir = config.outputDir;
+    for (const project of config.projects) {
+      this.projects.set(project.name, new DocProject(project, cacheDir));
+    }
     
     this.server = new Server(
       {
@@ -122,6 +148,14 @@ class TypeDocMCPServer {
    * @internal
    */
   private setupHandlers() {
+    // Every query tool can be pointed at one project
+    const projectNames = [...this.projects.keys()];
+    const project = {
+      type: 'string',
+      ...(projectNames.length > 0 ? { enum: projectNames } : {}),
+      description: 'Project to query (default: all projects, with results tagged by project)',
+    };
+
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
@@ -142,10 +176,28 @@ class TypeDocMCPServer {
                 default: true,
                 description: 'Use exact match (true) or partial match (false)' 
               },
+              project,
             },
             required: ['name'],
           },
         },
+        {
+          name: 'searchDocs',
+          description: 'Ranked full-text search over symbol names, summaries and tag content. Use when you know what a symbol does but not what it is called',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: { type: 'string', description: 'Free-text query (e.g., "parse json file")' },
+              limit: { 
+                type: 'number',
+                default: 20,
+                description: 'Maximum number of results' 
+              },
+              project,
+            },
+            required: ['query'],
+          },
+        },
         {
           name: 'getDocumentation',
           description: 'Get complete documentation for a symbol',
@@ -153,7 +205,26 @@ class TypeDocMCPServer {
             type: 'object',
             properties: {
               symbolId: { type: 'number', description: 'TypeDoc ID of the symbol' },
-              symbolPath: { type: 'string', description: 'Full path to the symbol (e.g., "MyClass.myMethod")' },
+              symbolPath: { type: 'string', description: 'Full path to the symbol (e.g., "MyClass.myMethod", or "MyClass.myMethod#signature-2" for an overload)' },
+              symbolKey: { type: 'string', description: 'Stable symbol key from findSymbol (e.g., "method:MyClass.myMethod"); unlike IDs, keys survive regeneration' },
+              type: { type: 'string', description: 'Instantiation of a generic type to document, instead of a symbol (e.g., "Repository<User>")' },
+              typeArguments: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Type arguments to substitute for the type parameters of the symbol, or of the class declaring it (e.g., ["string", "User"])',
+              },
+              expandDepth: {
+                type: 'number',
+                default: 2,
+                description: 'Levels of nested properties to list for options-object parameters (0 to disable)',
+              },
+              format: {
+                type: 'string',
+                enum: ['markdown', 'plain'],
+                default: 'markdown',
+                description: 'Format of descriptions: Markdown with {@link} tags as links to symbol paths, or plain text',
+              },
+              project,
             },
           },
         },
@@ -164,19 +235,125 @@ class TypeDocMCPServer {
             type: 'object',
             properties: {
               symbolId: { type: 'number', description: 'TypeDoc ID of the class or interface' },
+              type: { type: 'string', description: 'Instantiation of a generic class or interface, instead of symbolId (e.g., "Repository<User>")' },
+              typeArguments: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Type arguments to substitute through member types and signatures (e.g., ["string", "User"])',
+              },
               memberType: { 
                 type: 'string',
-                enum: ['property', 'method', 'all'],
+                enum: ['property', 'method', 'accessor', 'constructor', 'all'],
                 default: 'all',
                 description: 'Filter by member type' 
               },
+              access: {
+                type: 'string',
+                enum: ['public', 'protected', 'private'],
+                description: 'Filter by access modifier',
+              },
+              static: {
+                type: 'boolean',
+                description: 'Only static members (true) or only instance members (false)',
+              },
               includeInherited: { 
                 type: 'boolean',
                 default: false,
                 description: 'Include inherited members' 
               },
+              sort: {
+                type: 'string',
+                enum: ['source', 'name'],
+                description: 'Order by declaration in the source, or by name (default: as TypeDoc lists them)',
+              },
+              project,
             },
-            required: ['symbolId'],
+          },
+        },
+        {
+          name: 'getTypeDefinition',
+          description: 'Get the declaration source of a symbol as it would appear in a .d.ts file, with generics, modifiers, overloads and TSDoc comments',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              symbolId: { type: 'number', description: 'TypeDoc ID of the symbol' },
+              symbolPath: { type: 'string', description: 'Full path to the symbol (e.g., "MyNamespace.MyClass")' },
+              symbolKey: { type: 'string', description: 'Stable symbol key from findSymbol (e.g., "class:MyNamespace.MyClass")' },
+              expanded: {
+                type: 'boolean',
+                default: false,
+                description: 'Inline referenced type aliases instead of naming them',
+              },
+              includeComments: {
+                type: 'boolean',
+                default: true,
+                description: 'Include TSDoc comments',
+              },
+              project,
+            },
+          },
+        },
+        {
+          name: 'getAllowedValues',
+          description: 'List the values an enum, literal union, keyof type or discriminated union allows, following aliases; also for properties and variables of such types',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              symbolId: { type: 'number', description: 'TypeDoc ID of the symbol' },
+              symbolPath: { type: 'string', description: 'Full path to the enum, type alias, property or variable (e.g., "models.Status")' },
+              symbolKey: { type: 'string', description: 'Stable symbol key from findSymbol (e.g., "enum:models.Status")' },
+              project,
+            },
+          },
+        },
+        {
+          name: 'getExamples',
+          description: 'Get the @example blocks of a symbol as code with language and caption, including those of its signatures and of the members it overrides or implements, or every example in the project that uses the symbol',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              symbolId: { type: 'number', description: 'TypeDoc ID of the symbol' },
+              symbolPath: { type: 'string', description: 'Full path to the symbol (e.g., "MyClass.myMethod")' },
+              symbolKey: { type: 'string', description: 'Stable symbol key from findSymbol (e.g., "method:MyClass.myMethod")' },
+              includeInherited: {
+                type: 'boolean',
+                default: true,
+                description: 'Include examples of overridden base members, implemented interface members and base types',
+              },
+              scope: {
+                type: 'string',
+                enum: ['symbol', 'project'],
+                default: 'symbol',
+                description: 'Examples of the symbol itself, or every example in the project whose code uses the symbol',
+              },
+              project,
+            },
+          },
+        },
+        {
+          name: 'emitDeclarations',
+          description: 'Write the declaration file (.d.ts) of a module or of the whole project, with TSDoc comments, to disk',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              outputPath: {
+                type: 'string',
+                description: 'Path of the .d.ts file to write, relative to the output directory (the project directory unless the server sets --output-dir); paths outside it are refused',
+              },
+              module: { type: 'string', description: 'Module to emit (e.g., "tools/find-symbol"); the whole project if omitted' },
+              includeComments: {
+                type: 'boolean',
+                default: true,
+                description: 'Include TSDoc comments',
+              },
+              overwrite: {
+                type: 'boolean',
+                default: false,
+                description: 'Replace the file if it already exists',
+              },
+              project: { ...project, description: 'Project to emit; required when several projects are served' },
+            },
+            required: ['outputPath'],
           },
         },
         {
@@ -187,10 +364,81 @@ class TypeDocMCPServer {
             properties: {
               tag: { type: 'string', description: 'JSDoc tag to search for (without @ prefix, e.g., "deprecated", "beta", "internal")' },
               value: { type: 'string', description: 'Optional tag value to match' },
+              project,
             },
             required: ['tag'],
           },
         },
+        {
+          name: 'getInheritance',
+          description: 'Get the inheritance hierarchy of a class or interface (parents, children, implemented interfaces and implementors)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              symbolId: { type: 'number', description: 'TypeDoc ID of the class or interface' },
+              symbolPath: { type: 'string', description: 'Full path to the class or interface (e.g., "MyNamespace.MyClass")' },
+              direction: { 
+                type: 'string',
+                enum: ['up', 'down', 'both'],
+                default: 'both',
+                description: 'Walk parents (up), children (down), or both' 
+              },
+              includeHierarchy: { 
+                type: 'boolean',
+                default: false,
+                description: 'Include the full transitive hierarchy' 
+              },
+              maxDepth: { 
+                type: 'number',
+                default: 10,
+                description: 'Maximum number of levels to walk for the full hierarchy' 
+              },
+              project,
+            },
+          },
+        },
+        {
+          name: 'findReferences',
+          description: 'Find where a type is used: properties, parameters, return types, type aliases, type arguments and heritage clauses that mention it',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              symbolId: { type: 'number', description: 'TypeDoc ID of the referenced symbol' },
+              symbolPath: { type: 'string', description: 'Full path to the referenced symbol (e.g., "MyNamespace.MyInterface")' },
+              usage: { 
+                type: 'string',
+                enum: ['property', 'variable', 'parameter', 'returnType', 'typeAlias', 'typeArgument', 'typeParameter', 'extends', 'implements'],
+                description: 'Only return references with this usage kind' 
+              },
+              project,
+            },
+          },
+        },
+        {
+          name: 'getSymbolsInFile',
+          description: 'List the symbols declared in a source file, in line order',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file: { type: 'string', description: 'File path or glob (e.g., "src/tools/*.ts")' },
+              project,
+            },
+            required: ['file'],
+          },
+        },
+        {
+          name: 'getSymbolAtLocation',
+          description: 'Find the innermost symbol declared at a file and line',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file: { type: 'string', description: 'File path (absolute or relative to the project root)' },
+              line: { type: 'number', description: 'Line number (1-based)' },
+              project,
+            },
+            required: ['file', 'line'],
+          },
+        },
         {
           name: 'checkTypeDocSetup',
           description: 'Check if TypeDoc is properly installed and configured in a TypeScript project',
@@ -244,25 +492,27 @@ class TypeDocMCPServer {
       const { name, arguments: args } = request.params;
 
       try {
-        // Check if tool requires parser
-        const parserRequiredTools = ['findSymbol', 'getDocumentation', 'getMembers', 'searchByTag'];
-        if (parserRequiredTools.includes(name)) {
-          const loaded = await this.ensureParserLoaded();
-          if (!loaded) {
+        switch (name) {
+          case 'findSymbol': {
+            const result = await this.query(args, parser => findSymbol(parser, args as any),
+              matches => mergeLists(matches, 'symbols'));
             return {
               content: [
                 {
                   type: 'text',
-                  text: 'Error: Documentation not available. Use --doc-path to specify a TypeDoc JSON file, or use the setup tools to generate documentation.',
+                  text: JSON.stringify(result, null, 2),
                 },
               ],
             };
           }
-        }
 
-        switch (name) {
-          case 'findSymbol': {
-            const result = await findSymbol(this.parser, args as any);
+          case 'searchDocs': {
+            // Interleave by score; each project scores against its own term statistics, so the order is approximate
+            const result = await this.query(args, parser => searchDocs(parser, args as any),
+              matches => mergeLists(matches, 'results', {
+                compare: (a, b) => b.score - a.score,
+                limit: (args as any)?.limit ?? 20,
+              }));
             return {
               content: [
                 {
@@ -274,7 +524,7 @@ class TypeDocMCPServer {
           }
 
           case 'getDocumentation': {
-            const result = await getDocumentation(this.parser, args as any);
+            const result = await this.query(args, parser => getDocumentation(parser, args as any), mergeLookups);
             return {
               content: [
                 {
@@ -286,7 +536,60 @@ class TypeDocMCPServer {
           }
 
           case 'getMembers': {
-            const result = await getMembers(this.parser, args as any);
+            const result = await this.query(args, parser => getMembers(parser, args as any), mergeLookups);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'getTypeDefinition': {
+            const result = await this.query(args, parser => getTypeDefinition(parser, args as any), mergeLookups);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'getAllowedValues': {
+            const result = await this.query(args, parser => getAllowedValues(parser, args as any), mergeLookups);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'getExamples': {
+            const result = await this.query(args, parser => getExamples(parser, args as any), mergeLookups);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'emitDeclarations': {
+            if ((args as { project?: string } | undefined)?.project === undefined && this.projects.size > 1) {
+              throw new Error(`Specify the project to emit. Available projects: ${[...this.projects.keys()].join(', ')}`);
+            }
+            const project = this.getProject((args as { project?: string } | undefined)?.project);
+            const outputDir = this.outputDir ?? project.projectPath ?? process.cwd();
+            const result = await this.query(args, parser => emitDeclarations(parser, args as any, outputDir), mergeLookups);
             return {
               content: [
                 {
@@ -298,7 +601,57 @@ class TypeDocMCPServer {
           }
 
           case 'searchByTag': {
-            const result = await searchByTag(this.parser, args as any);
+            const result = await this.query(args, parser => searchByTag(parser, args as any),
+              matches => mergeLists(matches, 'symbols'));
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'getInheritance': {
+            const result = await this.query(args, parser => getInheritance(parser, args as any), mergeLookups);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'findReferences': {
+            const result = await this.query(args, parser => findReferences(parser, args as any), mergeLookups);
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'getSymbolsInFile': {
+            const result = await this.query(args, parser => getSymbolsInFile(parser, args as any),
+              matches => mergeLists(matches, 'files'));
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'getSymbolAtLocation': {
+            const result = await this.query(args, parser => getSymbolAtLocation(parser, args as any), mergeLookups);
             return {
               content: [
                 {
@@ -337,42 +690,143 @@ class TypeDocMCPServer {
     });
 
     // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: [
-        {
-          uri: 'typedoc://overview',
-          name: 'Project Overview',
-          description: 'Overview of the TypeScript project documentation',
-          mimeType: 'application/json',
-        },
-      ],
-    }));
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const projects = [...this.projects.values()];
+      const multiple = projects.length > 1;
+      const watched = projects.filter(p => p.watching);
+
+      return {
+        resources: [
+          {
+            uri: 'typedoc://overview',
+            name: 'Project Overview',
+            description: multiple
+              ? 'Overview of every documented project'
+              : 'Overview of the TypeScript project documentation',
+            mimeType: 'application/json',
+          },
+          ...(multiple ? projects.map(p => ({
+            uri: `typedoc://overview/${p.name}`,
+            name: `Project Overview: ${p.name}`,
+            description: `Overview of the ${p.name} project documentation`,
+            mimeType: 'application/json',
+          })) : []),
+          ...(watched.length > 0 ? [{
+            uri: 'typedoc://generation',
+            name: 'Documentation Generation Status',
+            description: 'Whether documentation regenerated in watch mode is current, with the last run\'s result',
+            mimeType: 'application/json',
+          }] : []),
+        ],
+      };
+    });
+
+    // List resource templates
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      const multiple = this.projects.size > 1;
+
+      return {
+        resourceTemplates: [
+          {
+            uriTemplate: multiple ? 'typedoc://module/{project}/{name}.d.ts' : 'typedoc://module/{name}.d.ts',
+            name: 'Module Declarations',
+            description: 'Declaration file of a module, with TSDoc comments; use the project name as module name for the whole project',
+            mimeType: 'text/plain',
+          },
+        ],
+      };
+    });
 
     // Read resource content
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
-      if (uri === 'typedoc://overview') {
-        const loaded = await this.ensureParserLoaded();
-        if (!loaded) {
+      const overviewMatch = /^typedoc:\/\/overview(?:\/(.+))?$/.exec(uri);
+      if (overviewMatch) {
+        const projectName = overviewMatch[1];
+        if (projectName !== undefined || this.projects.size === 1) {
+          const project = this.getProject(projectName);
+          const loaded = await project.ensureLoaded();
+          if (!loaded) {
+            return this.unavailable(uri, project);
+          }
+          
+          const overview = await getProjectOverview(project.parser!, project.getReloadStatus());
           return {
             contents: [
               {
-                uri: 'typedoc://overview',
-                mimeType: 'text/plain',
-                text: 'Error: Documentation not available. Use setup tools to generate documentation first.',
+                uri,
+                mimeType: overview.mimeType,
+                text: JSON.stringify(overview.content, null, 2),
               },
             ],
           };
         }
-        
-        const overview = await getProjectOverview(this.parser);
+
+        // Several projects: one overview per project
+        const projects = [];
+        for (const project of this.projects.values()) {
+          if (await project.ensureLoaded()) {
+            const overview = await getProjectOverview(project.parser!, project.getReloadStatus());
+            projects.push({ project: project.name, ...overview.content });
+          } else {
+            const diagnostic = project.getLoadDiagnostic() || undefined;
+            projects.push({ project: project.name, error: 'Documentation not available', diagnostic });
+          }
+        }
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify({ projects }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const moduleMatch = /^typedoc:\/\/module\/(.+)\.d\.ts$/.exec(uri);
+      if (moduleMatch) {
+        let moduleName = moduleMatch[1];
+        let projectName: string | undefined;
+        if (this.projects.size > 1) {
+          const slash = moduleName.indexOf('/');
+          projectName = slash < 0 ? moduleName : moduleName.slice(0, slash);
+          moduleName = slash < 0 ? projectName : moduleName.slice(slash + 1);
+        }
+
+        const project = this.getProject(projectName);
+        if (!await project.ensureLoaded()) {
+          return this.unavailable(uri, project);
+        }
+
+        const declarations = await getModuleDeclarations(project.parser!, moduleName);
         return {
           contents: [
             {
-              uri: overview.uri,
-              mimeType: overview.mimeType,
-              text: JSON.stringify(overview.content, null, 2),
+              uri,
+              mimeType: declarations.mimeType,
+              text: declarations.content,
+            },
+          ],
+        };
+      }
+
+      const watched = [...this.projects.values()].filter(p => p.watching);
+      if (uri === 'typedoc://generation' && watched.length > 0) {
+        const statuses = await Promise.all(watched.map(async project => {
+          const { status, upToDate } = project.getGenerationStatus();
+          return { project: project.name, resource: await getGenerationStatus(status, upToDate) };
+        }));
+        const content = this.projects.size === 1
+          ? statuses[0].resource.content
+          : { projects: statuses.map(({ project, resource }) => ({ project, ...resource.content })) };
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(content, null, 2),
             },
           ],
         };
@@ -383,76 +837,106 @@ class TypeDocMCPServer {
   }
 
   /**
-   * Ensures the parser is initialized and documentation is loaded
+   * Reads a resource of a project whose documentation is not available
+   * 
+   * @param uri - The resource URI
+   * @param project - The project that failed to load
+   * @returns Resource contents explaining why the documentation is missing
    * 
    * @internal
    */
-  private async ensureParserLoaded(): Promise<boolean> {
-    // If parser not initialized, try to find docs
-    if (!this.parser) {
-      // If we have a project path, check for generated docs
-      if (this.config.projectPath) {
-        const possiblePaths = [
-          path.join(this.config.projectPath, 'docs', 'typedoc.json'),
-          path.join(this.config.projectPath, 'documentation', 'typedoc.json'),
-          path.join(this.config.projectPath, 'typedoc.json'),
-        ];
-        
-        for (const docPath of possiblePaths) {
-          try {
-            await fs.access(docPath);
-            console.error(`Found documentation at ${docPath}`);
-            this.parser = new TypeDocParser(docPath);
-            this.config.docPath = docPath; // Update config
-            break;
-          } catch {
-            // Continue checking
-          }
-        }
-      }
-      
-      if (!this.parser) {
-        return false;
+  private unavailable(uri: string, project: DocProject) {
+    const diagnostic = project.getLoadDiagnostic();
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/plain',
+          text: diagnostic
+            ? `Error: Documentation not available. ${formatDiagnostic(diagnostic)}`
+            : 'Error: Documentation not available. Use setup tools to generate documentation first.',
+        },
+      ],
+    };
+  }
+
+  /**
+   * Gets a project by name
+   * 
+   * @param name - Project name; may be omitted when only one project is configured
+   * @returns The project
+   * 
+   * @throws Error if the project does not exist, or no name was given on a multi-project server
+   * 
+   * @internal
+   */
+  private getProject(name?: string): DocProject {
+    if (name === undefined) {
+      if (this.projects.size === 1) {
+        return this.projects.values().next().value!;
       }
+      throw new Error('Documentation not available. Use --doc-path to specify a TypeDoc JSON file, or use the setup tools to generate documentation.');
     }
 
-    // Check if already parsed by looking at the stats
-    const stats = this.parser.getStats();
-    if (stats.total > 0) {
-      // Already parsed
-      return true;
+    const project = this.projects.get(name);
+    if (!project) {
+      throw new Error(`Unknown project: ${name}. Available projects: ${[...this.projects.keys()].join(', ') || 'none'}`);
     }
-    
-    // Not parsed yet, parse now
-    try {
-      console.error(`Loading TypeDoc documentation from ${this.config.docPath}...`);
-      await this.parser.parse();
-      console.error('Documentation loaded successfully!');
-      return true;
-    } catch (error) {
-      console.error(`Failed to load documentation: ${error}`);
-      return false;
+    return project;
+  }
+
+  /**
+   * Runs a query tool against one project or all of them
+   * 
+   * @param args - Tool arguments, including the optional `project`
+   * @param run - Runs the tool against a parser
+   * @param merge - Combines per-project results of a federated query
+   * @returns The tool result; federated results are tagged by project
+   * 
+   * @remarks
+   * With a `project` argument, or only one project, the tool runs against
+   * that project and its result is returned unchanged.
+   * 
+   * @internal
+   */
+  private async query<T>(
+    args: unknown,
+    run: (parser: TypeDocParser) => Promise<T>,
+    merge: (matches: FederatedMatch<T>[]) => unknown
+  ): Promise<unknown> {
+    const projectName = (args as { project?: string } | undefined)?.project;
+
+    if (projectName === undefined && this.projects.size > 1) {
+      return merge(await federate([...this.projects.values()], run));
+    }
+
+    const project = this.getProject(projectName);
+    const loaded = await project.ensureLoaded();
+    if (!loaded) {
+      const diagnostic = project.getLoadDiagnostic();
+      throw new Error(diagnostic
+        ? `Documentation not available. ${formatDiagnostic(diagnostic)}`
+        : 'Documentation not available. Use --doc-path to specify a TypeDoc JSON file, or use the setup tools to generate documentation.');
     }
+    return run(project.parser!);
   }
 
   /**
    * Starts the MCP server
    * 
    * @remarks
-   * This method only starts the server transport.
+   * This method prepares each project (including source watching in watch
+   * mode) and starts the server transport.
    * Documentation loading happens on-demand through tool calls.
    */
   async start() {
-    // Initialize parser if doc-path was provided
-    if (this.config.docPath) {
-      this.parser = new TypeDocParser(this.config.docPath);
-      // Note: We do NOT parse the file here - that happens on first tool use
-    }
-
-    // Store project path for setup tools
-    if (this.config.projectPath) {
-      // Project path is available for setup tools to use
-      console.error(`Project path configured: ${this.config.projectPath}`);
+    // Parsers are created here, but documentation is only parsed on first tool use
+    for (const project of this.projects.values()) {
+      if (project.projectPath) {
+        // Project path is available for setup tools to use
+        console.error(`Project path configured for ${project.name}: ${project.projectPath}`);
+      }
+      await project.start();
     }
 
     // Start server
@@ -460,7 +944,7 @@ class TypeDocMCPServer {
     await this.server.connect(transport);
     console.error('TypeDoc MCP Server started');
     
-    if (!this.config.docPath && !this.config.projectPath) {
+    if (this.projects.size === 0) {
       console.error('No --doc-path or --project-path specified.');
       console.error('Use setup tools to configure TypeDoc for a project.');
     }
@@ -475,26 +959,48 @@ class TypeDocMCPServer {
  * 
  * @internal
  */
-function parseArgs(args: string[]): ServerConfig & { help: boolean } {
-  let docPath: string | undefined;
-  let projectPath: string | undefined;
+function parseArgs(args: string[]): Omit<ServerConfig, 'projects'> & ProjectArgs & { help: boolean } {
+  const docPaths: string[] = [];
+  const projectPaths: string[] = [];
+  let configFile: string | undefined;
   let serverName: string | undefined;
+  let cacheDir: string | undefined;
+  let outputDir: string | undefined;
+  let noCache = false;
+  let watch = false;
   let help = false;
 
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
       case '--doc-path':
       case '-d':
-        docPath = args[++i];
+        docPaths.push(args[++i]);
         break;
       case '--project-path':
       case '-p':
-        projectPath = args[++i];
+        projectPaths.push(args[++i]);
+        break;
+      case '--config':
+      case '-c':
+        configFile = args[++i];
         break;
       case '--name':
       case '-n':
         serverName = args[++i];
         break;
+      case '--cache-dir':
+        cacheDir = args[++i];
+        break;
+      case '--no-cache':
+        noCache = true;
+        break;
+      case '--output-dir':
+        outputDir = args[++i];
+        break;
+      case '--watch':
+      case '-w':
+        watch = true;
+        break;
       case '--help':
       case '-h':
         help = true;
@@ -502,7 +1008,7 @@ function parseArgs(args: string[]): ServerConfig & { help: boolean } {
     }
   }
 
-  return { docPath, projectPath, serverName, help };
+  return { docPaths, projectPaths, configFile, serverName, cacheDir, outputDir, noCache, watch, help };
 }
 
 /**
@@ -518,10 +1024,15 @@ Usage:
   typedoc-mcp-server [options]
 
 Options:
-  --doc-path, -d <path>      Path to TypeDoc JSON output
-  --project-path, -p <path>  Path to TypeScript project (alternative to --doc-path)
-  --name, -n <name>          Server name (optional)
-  --help, -h                 Show this help message
+  --doc-path, -d [name=]<path>      Path to TypeDoc JSON output (repeatable)
+  --project-path, -p [name=]<path>  Path to TypeScript project (alternative to --doc-path, repeatable)
+  --config, -c <path>               JSON file listing several projects
+  --name, -n <name>                 Server name (optional)
+  --cache-dir <path>                Index cache directory (default: ~/.cache/tsdoc-mcp-server)
+  --no-cache                        Rebuild indices on every start instead of caching them
+  --output-dir <path>               Directory emitDeclarations may write into (default: project path, or working directory)
+  --watch, -w                       Regenerate docs when sources change (requires --project-path)
+  --help, -h                        Show this help message
 
 Examples:
   # Use existing TypeDoc JSON
@@ -530,6 +1041,12 @@ Examples:
   # Point to a project (setup tools will be available)
   typedoc-mcp-server --project-path /path/to/project
 
+  # Keep docs in sync with the project's sources
+  typedoc-mcp-server --project-path /path/to/project --watch
+
+  # Serve several packages of a monorepo
+  typedoc-mcp-server --doc-path core=packages/core/docs/typedoc.json --doc-path ui=packages/ui/docs/typedoc.json
+
   # Start without any path (use setup tools via AI)
   typedoc-mcp-server
   `);
@@ -557,9 +1074,21 @@ async function main() {
 
   // No required arguments anymore - server can start without doc-path
   // and use setup tools to configure
+  let projects: ProjectConfig[];
+  try {
+    projects = await resolveProjects(config);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  if (config.watch && !projects.some(project => project.projectPath)) {
+    console.error('--watch requires --project-path');
+    process.exit(1);
+  }
 
   try {
-    const server = new TypeDocMCPServer(config);
+    const server = new TypeDocMCPServer({ ...config, projects });
     await server.start();
   } catch (error) {
     console.error('Failed to start server:', error);
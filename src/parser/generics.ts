@@ -0,0 +1,313 @@
+/**
+ * Generic type instantiation
+ * 
+ * @packageDocumentation
+ * @module parser/generics
+ * 
+ * @remarks
+ * Substitutes type arguments for type parameters in types, signatures and
+ * reflections, so a generic class or interface can be viewed as a given
+ * instantiation (`Repository<User>` rather than `Repository<T>`).
+ * Substitution copies; the reflections held by the parser are never
+ * modified.
+ */
+
+import { ParsedSymbol, TypeDocParser } from './index.js';
+import { parseTypeExpression } from './type-expression.js';
+import { Reflection, ReflectionKind, Type, TypeParameter } from '../types/typedoc.js';
+
+/**
+ * Type arguments by the name of the type parameter they are bound to
+ */
+export type TypeBindings = Map<string, Type>;
+
+/**
+ * Kinds a type name in a type expression may refer to
+ * 
+ * @internal
+ */
+const TYPE_KINDS = ReflectionKind.Class | ReflectionKind.Interface | ReflectionKind.TypeAlias | ReflectionKind.Enum;
+
+/**
+ * Fields holding documentation or locations, which are never substituted
+ * 
+ * @internal
+ */
+const OPAQUE_FIELDS = new Set(['comment', 'sources', 'groups', 'categories', 'inheritedFrom', 'overwrites', 'implementationOf']);
+
+/**
+ * Binds type arguments to type parameters by position
+ * 
+ * @param typeParameters - The type parameters
+ * @param typeArguments - The type arguments; missing ones fall back to the
+ * parameter's default, or stay unbound
+ * @param outer - Bindings the arguments and defaults are written in, such as
+ * those of the class whose heritage clause passes them
+ * @returns The bindings
+ * 
+ * @example
+ * ```typescript
+ * // class UserRepository extends BaseRepository<User>
+ * const bindings = bindTypeParameters(base.typeParameters, repository.extendedTypes[0].typeArguments);
+ * bindings.get('T'); // { type: 'reference', name: 'User', target: 7 }
+ * ```
+ */
+export function bindTypeParameters(
+  typeParameters: TypeParameter[] | undefined,
+  typeArguments: Type[] | undefined,
+  outer: TypeBindings = new Map()
+): TypeBindings {
+  const bindings: TypeBindings = new Map();
+
+  for (const [i, parameter] of (typeParameters || []).entries()) {
+    const argument = typeArguments?.[i];
+    if (argument) {
+      bindings.set(parameter.name, substituteType(argument, outer));
+    } else if (parameter.default) {
+      // Defaults may mention earlier parameters (`<T, U = T[]>`)
+      bindings.set(parameter.name, substituteType(parameter.default, new Map([...outer, ...bindings])));
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Substitutes bound type parameters in a type
+ * 
+ * @param type - The type
+ * @param bindings - Type arguments by type parameter name
+ * @returns A copy of the type with every reference to a bound type
+ * parameter replaced, or the type itself if there is nothing to bind
+ */
+export function substituteType(type: Type, bindings: TypeBindings): Type;
+export function substituteType(type: Type | undefined, bindings: TypeBindings): Type | undefined;
+export function substituteType(type: Type | undefined, bindings: TypeBindings): Type | undefined {
+  if (!type || bindings.size === 0) return type;
+  return substitute(type, bindings);
+}
+
+/**
+ * Substitutes bound type parameters in a reflection or signature
+ * 
+ * @param reflection - A reflection or signature declaring the bound type
+ * parameters, or a member of one
+ * @param bindings - Type arguments by type parameter name
+ * @returns A copy with every member type, parameter, return type and
+ * inline type substituted, and the bound type parameters removed from
+ * its own `typeParameters`
+ * 
+ * @remarks
+ * Generic methods and functions nested in the reflection that declare a
+ * type parameter of the same name shadow the binding, as in TypeScript.
+ * Constructor signatures are the exception: TypeDoc copies the type
+ * parameters of a class onto them, so they are instantiated with it.
+ */
+export function substituteReflection<T extends { typeParameters?: TypeParameter[] }>(reflection: T, bindings: TypeBindings): T {
+  if (bindings.size === 0) return reflection;
+
+  const copy: any = {};
+  for (const [key, value] of Object.entries(reflection)) {
+    copy[key] = OPAQUE_FIELDS.has(key) ? value : substitute(value, bindings);
+  }
+  copy.typeParameters = unbound(copy.typeParameters, bindings);
+  return copy;
+}
+
+/**
+ * Views a symbol as an instantiation with the given type arguments
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param reflection - A generic class, interface, type alias or function,
+ * or a member of a generic class or interface
+ * @param typeArguments - The type arguments, in the order of the type
+ * parameters
+ * @returns A copy of the reflection with the arguments substituted, the
+ * symbol whose type parameters were bound (the reflection or its owner),
+ * and the bindings used (empty for functions, whose overloads are bound
+ * one by one)
+ * 
+ * @throws Error if neither the symbol nor the class or interface declaring
+ * it has type parameters, or if more type arguments than type parameters
+ * are given
+ * 
+ * @remarks
+ * The arguments bind the symbol's own type parameters; for a function or
+ * method, those of each of its signatures. A member without type
+ * parameters of its own takes the type parameters of its owner, so
+ * `Repository.find` with `[User]` reads as `Repository<User>.find`.
+ */
+export function instantiate(parser: TypeDocParser, reflection: Reflection, typeArguments: Type[]) {
+  const check = (count: number, name: string) => {
+    if (typeArguments.length > count) {
+      throw new Error(`${name} has ${count} type parameter${count === 1 ? '' : 's'}, but ${typeArguments.length} type arguments were given`);
+    }
+  };
+
+  if (reflection.typeParameters?.length) {
+    check(reflection.typeParameters.length, reflection.name);
+    const bindings = bindTypeParameters(reflection.typeParameters, typeArguments);
+    return { reflection: substituteReflection(reflection, bindings), generic: reflection, bindings };
+  }
+
+  const genericSignatures = (reflection.signatures || []).filter(signature => signature.typeParameters?.length);
+  if (genericSignatures.length) {
+    check(Math.max(...genericSignatures.map(signature => signature.typeParameters!.length)), reflection.name);
+    const signatures = reflection.signatures!.map(signature =>
+      substituteReflection(signature, bindTypeParameters(signature.typeParameters, typeArguments))
+    );
+    return { reflection: { ...reflection, signatures }, generic: reflection, bindings: new Map() as TypeBindings };
+  }
+
+  const owner = findOwner(parser, reflection);
+  if (owner?.typeParameters?.length) {
+    check(owner.typeParameters.length, owner.name);
+    const bindings = bindTypeParameters(owner.typeParameters, typeArguments);
+    return { reflection: substituteReflection(reflection, bindings), generic: owner, bindings };
+  }
+
+  throw new Error(`${reflection.name} has no type parameters`);
+}
+
+/**
+ * Parses type arguments written as type expressions
+ * 
+ * @param parser - The TypeDoc parser instance, to resolve type names with
+ * @param typeArguments - The type arguments (e.g., `["string", "User[]"]`)
+ * @returns The parsed types
+ * 
+ * @throws Error if an argument cannot be parsed
+ */
+export function parseTypeArguments(parser: TypeDocParser, typeArguments: string[]): Type[] {
+  return typeArguments.map(argument => parseTypeExpression(argument, name => findTypeSymbol(parser, name)?.id));
+}
+
+/**
+ * Parses an instantiation such as `Repository<User>`
+ * 
+ * @param parser - The TypeDoc parser instance, to resolve type names with
+ * @param expression - A documented type name with type arguments
+ * @returns The named symbol and the parsed type arguments
+ * 
+ * @throws Error if the expression cannot be parsed, is not a type
+ * reference, or names a type outside the documentation
+ * 
+ * @example
+ * ```typescript
+ * const { symbol, typeArguments } = parseInstantiation(parser, 'Repository<User>');
+ * const { reflection } = instantiate(parser, symbol.reflection, typeArguments);
+ * ```
+ */
+export function parseInstantiation(parser: TypeDocParser, expression: string): { symbol: ParsedSymbol; typeArguments: Type[] } {
+  const type = parseTypeExpression(expression, name => findTypeSymbol(parser, name)?.id);
+  if (type.type !== 'reference') {
+    throw new Error(`Not a type reference: ${expression}`);
+  }
+
+  const symbol = typeof type.target === 'number' ? parser.findById(type.target) : null;
+  if (!symbol) {
+    throw new Error(`Unknown type: ${type.name}`);
+  }
+
+  return { symbol, typeArguments: type.typeArguments || [] };
+}
+
+/**
+ * Finds the documented type a name in a type expression refers to
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param name - A type name or dotted path (e.g., "models.User")
+ * @returns The class, interface, type alias or enum, or null
+ * 
+ * @internal
+ */
+function findTypeSymbol(parser: TypeDocParser, name: string): ParsedSymbol | null {
+  const byPath = parser.findByPath(name);
+  if (byPath && byPath.reflectionKind & TYPE_KINDS) return byPath;
+
+  const last = name.split('.').pop()!;
+  const candidates = parser.findByName(last).filter(symbol => symbol.reflectionKind & TYPE_KINDS);
+  return candidates.find(symbol => symbol.path === name || symbol.path.endsWith(`.${name}`)) || candidates[0] || null;
+}
+
+/**
+ * Finds the class or interface declaring a member
+ * 
+ * @internal
+ */
+function findOwner(parser: TypeDocParser, reflection: Reflection): Reflection | null {
+  const path = parser.findById(reflection.id)?.path;
+  const dot = path?.lastIndexOf('.') ?? -1;
+  if (!path || dot < 0) return null;
+
+  const owner = parser.findByPath(path.slice(0, dot))?.reflection;
+  return owner && owner.kind & (ReflectionKind.Class | ReflectionKind.Interface) ? owner : null;
+}
+
+/**
+ * Copies a JSON value, substituting references to bound type parameters
+ * 
+ * @internal
+ */
+function substitute(value: any, bindings: TypeBindings): any {
+  if (Array.isArray(value)) return value.map(item => substitute(item, bindings));
+  if (!value || typeof value !== 'object') return value;
+
+  if (value.type === 'reference' && bindings.has(value.name) && isTypeParameterReference(value)) {
+    return bindings.get(value.name);
+  }
+
+  // Nested generics and mapped types declare names of their own
+  let scope = bindings;
+  if (Array.isArray(value.typeParameters) && value.kind !== ReflectionKind.ConstructorSignature) {
+    scope = without(bindings, value.typeParameters.map((parameter: TypeParameter) => parameter.name));
+  } else if (value.type === 'mapped' && typeof value.parameter === 'string') {
+    scope = without(bindings, [value.parameter]);
+  }
+  if (scope.size === 0) return value;
+
+  const copy: any = {};
+  for (const [key, field] of Object.entries(value)) {
+    copy[key] = OPAQUE_FIELDS.has(key) ? field : substitute(field, scope);
+  }
+  if (value.kind === ReflectionKind.ConstructorSignature) {
+    copy.typeParameters = unbound(copy.typeParameters, bindings);
+  }
+  return copy;
+}
+
+/**
+ * Whether a reference type names a type parameter
+ * 
+ * @remarks
+ * TypeDoc 0.23 does not set `refersToTypeParameter`; its type parameter
+ * references are the ones without a target.
+ * 
+ * @internal
+ */
+function isTypeParameterReference(type: Type): boolean {
+  return type.refersToTypeParameter ?? (type.target === undefined && type.package === undefined);
+}
+
+/**
+ * Removes shadowed names from bindings
+ * 
+ * @internal
+ */
+function without(bindings: TypeBindings, names: string[]): TypeBindings {
+  if (!names.some(name => bindings.has(name))) return bindings;
+
+  const scope = new Map(bindings);
+  for (const name of names) scope.delete(name);
+  return scope;
+}
+
+/**
+ * Drops the type parameters that were bound
+ * 
+ * @internal
+ */
+function unbound(typeParameters: TypeParameter[] | undefined, bindings: TypeBindings): TypeParameter[] | undefined {
+  const remaining = typeParameters?.filter(parameter => !bindings.has(parameter.name));
+  return remaining?.length ? remaining : undefined;
+}
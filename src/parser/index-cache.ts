@@ -0,0 +1,231 @@
+/**
+ * On-disk cache for parser indices
+ * 
+ * @packageDocumentation
+ * @module parser/index-cache
+ * 
+ * @remarks
+ * Building indices is the slowest part of loading documentation. This module
+ * stores the built indices in a cache directory, keyed by a hash of the
+ * TypeDoc JSON file and the cache format version, so that the next server
+ * start can reload them instead of rebuilding.
+ * 
+ * Each cache file starts with a one-line JSON header holding the format
+ * version and a checksum of the rest of the file. Entries that fail either
+ * check, or do not have the expected shape, are reported as corrupt so the
+ * parser rebuilds and overwrites them.
+ */
+
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { Reflection, TypeDocJSON } from '../types/typedoc.js';
+import { SearchIndexData } from './search-index.js';
+import { TypeReference } from './index.js';
+import { openReadStream } from './json-stream.js';
+
+/**
+ * Version of the cached index format
+ * 
+ * @remarks
+ * Bump this whenever the contents of {@link IndexSnapshot} or the way any
+ * index is built changes, so that stale caches are ignored.
+ */
+export const INDEX_CACHE_VERSION = 5;
+
+/**
+ * Outcome of looking up the index cache
+ * 
+ * - `disabled`: no cache directory was configured
+ * - `hit`: indices were reloaded from the cache
+ * - `miss`: no cache entry existed, so indices were built and stored
+ * - `corrupt`: the cache entry was unreadable, so indices were rebuilt
+ */
+export type CacheStatus = 'disabled' | 'hit' | 'miss' | 'corrupt';
+
+/**
+ * Serialized parser indices
+ * 
+ * @remarks
+ * Maps are stored as entry arrays. Streaming parsers additionally store
+ * their compact records, byte ranges and the childless project root, since
+ * they cannot rebuild those without reading the whole file.
+ */
+export interface IndexSnapshot {
+  /** Path of the project root */
+  rootPath: string;
+  /** Name index entries */
+  names: Array<[string, number[]]>;
+  /** Path index entries */
+  paths: Array<[string, number]>;
+  /** Stable key index entries */
+  keys: Array<[string, number]>;
+  /** Kind index entries */
+  kinds: Array<[number, number[]]>;
+  /** Reference index entries */
+  references: Array<[number, TypeReference[]]>;
+  /** File index entries */
+  files: Array<[string, number[]]>;
+  /** Tag index entries */
+  tags: Array<[string, number[]]>;
+  /** Parent IDs by ID */
+  parents: Array<[number, number]>;
+  /** Child and signature IDs by ID */
+  children: Array<[number, number[]]>;
+  /** Signature positions by ID */
+  signatures: Array<[number, number]>;
+  /** Full-text index */
+  search: SearchIndexData;
+  /** Compact records (streaming only) */
+  records?: Reflection[];
+  /** Byte ranges as `[id, start, end]` (streaming only) */
+  ranges?: Array<[number, number, number]>;
+  /** Project root without children (streaming only) */
+  doc?: TypeDocJSON;
+}
+
+/**
+ * Result of reading a cache entry
+ */
+export interface CacheReadResult {
+  /** Whether the entry was found, missing or corrupt */
+  status: 'hit' | 'miss' | 'corrupt';
+  /** The cached indices, for hits */
+  snapshot?: IndexSnapshot;
+}
+
+/**
+ * Gets the default cache directory
+ * 
+ * @returns `$XDG_CACHE_HOME/tsdoc-mcp-server`, or `~/.cache/tsdoc-mcp-server`
+ */
+export function getDefaultCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, 'tsdoc-mcp-server');
+}
+
+/**
+ * Computes the SHA-256 hash of a file without loading it whole
+ * 
+ * @param filePath - Path to the file, or an open descriptor of it
+ * @returns Hex-encoded hash
+ */
+export async function hashFile(filePath: string | number): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of openReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Gets the cache file for a documentation file
+ * 
+ * @param cacheDir - Cache directory
+ * @param contentHash - Hash from {@link hashFile}
+ * @param mode - Parser load mode, since streaming caches hold extra data
+ * @returns Path of the cache file
+ */
+export function getCacheFile(cacheDir: string, contentHash: string, mode: 'full' | 'streaming'): string {
+  return path.join(cacheDir, `${contentHash}.v${INDEX_CACHE_VERSION}.${mode}.json`);
+}
+
+/**
+ * Reads and verifies a cache entry
+ * 
+ * @param cacheFile - Path from {@link getCacheFile}
+ * @param mode - Parser load mode the entry must have been written in
+ * @returns The cached indices, or why there are none
+ * 
+ * @remarks
+ * Corrupt entries are deleted so that a failed rebuild does not leave
+ * them behind.
+ * 
+ * @example
+ * ```typescript
+ * const cached = await readIndexCache(getCacheFile(dir, await hashFile(docPath), 'full'), 'full');
+ * if (cached.snapshot) {
+ *   // restore indices
+ * }
+ * ```
+ */
+export async function readIndexCache(cacheFile: string, mode: 'full' | 'streaming'): Promise<CacheReadResult> {
+  let content: string;
+  try {
+    content = await fs.readFile(cacheFile, 'utf-8');
+  } catch {
+    return { status: 'miss' };
+  }
+
+  try {
+    const newline = content.indexOf('\n');
+    if (newline === -1) throw new Error('Missing cache header');
+
+    const header = JSON.parse(content.slice(0, newline));
+    const payload = content.slice(newline + 1);
+    if (header.version !== INDEX_CACHE_VERSION || header.checksum !== checksum(payload)) {
+      throw new Error('Cache header does not match its contents');
+    }
+
+    const snapshot = JSON.parse(payload);
+    if (!isSnapshot(snapshot, mode)) throw new Error('Unexpected cache contents');
+
+    return { status: 'hit', snapshot };
+  } catch {
+    await fs.rm(cacheFile, { force: true }).catch(() => undefined);
+    return { status: 'corrupt' };
+  }
+}
+
+/**
+ * Writes a cache entry
+ * 
+ * @param cacheFile - Path from {@link getCacheFile}
+ * @param snapshot - Indices to store
+ * 
+ * @remarks
+ * The entry is written to a temporary file and renamed into place, so
+ * concurrent readers never see a partial entry.
+ */
+export async function writeIndexCache(cacheFile: string, snapshot: IndexSnapshot): Promise<void> {
+  const payload = JSON.stringify(snapshot);
+  const header = JSON.stringify({ version: INDEX_CACHE_VERSION, checksum: checksum(payload) });
+  const tempFile = `${cacheFile}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+  try {
+    await fs.writeFile(tempFile, `${header}\n${payload}`);
+    await fs.rename(tempFile, cacheFile);
+  } catch (error) {
+    await fs.rm(tempFile, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Computes the checksum stored in cache headers
+ * 
+ * @internal
+ */
+function checksum(payload: string): string {
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Checks that parsed cache contents have the shape of a snapshot
+ * 
+ * @internal
+ */
+function isSnapshot(value: any, mode: 'full' | 'streaming'): value is IndexSnapshot {
+  if (!value || typeof value !== 'object' || typeof value.rootPath !== 'string') return false;
+
+  const entryFields = ['names', 'paths', 'keys', 'kinds', 'references', 'files', 'tags', 'parents', 'children', 'signatures'];
+  if (!entryFields.every(field => Array.isArray(value[field]))) return false;
+  if (!value.search || !Array.isArray(value.search.postings) || !Array.isArray(value.search.symbols)) return false;
+
+  if (mode === 'streaming') {
+    return Array.isArray(value.records) && Array.isArray(value.ranges) && !!value.doc;
+  }
+  return true;
+}
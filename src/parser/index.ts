@@ -10,7 +10,34 @@
  */
 
 import { promises as fs } from 'fs';
-import { TypeDocJSON, Reflection, ReflectionKind } from '../types/typedoc.js';
+import { TypeDocJSON, Reflection, ReflectionKind, Signature, Source, Type } from '../types/typedoc.js';
+import { SearchIndex, SearchHit } from './search-index.js';
+import {
+  ByteRange,
+  PinnedFile,
+  isPinnedFileChanged,
+  pinFile,
+  readJsonRange,
+  releasePinnedFile,
+  streamReflections,
+} from './json-stream.js';
+import { SchemaAdapter, detectSchema, getKindName, readSchemaHead } from './schema.js';
+import {
+  DocumentationDiagnostic,
+  StructureCheck,
+  describeSyntaxError,
+  formatDiagnostic,
+  inspectHead,
+} from './validation.js';
+import { globToRegExpSource, isGlob } from '../utils/glob.js';
+import {
+  CacheStatus,
+  IndexSnapshot,
+  getCacheFile,
+  hashFile,
+  readIndexCache,
+  writeIndexCache,
+} from './index-cache.js';
 
 /**
  * Parsed symbol with metadata
@@ -26,12 +53,112 @@ export interface ParsedSymbol {
   name: string;
   /** Human-readable kind (e.g., "Class", "Interface") */
   kind: string;
+  /** Numeric kind, for filtering without reading {@link ParsedSymbol.reflection} */
+  reflectionKind: ReflectionKind;
   /** Full dot-separated path (e.g., "MyNamespace.MyClass.myMethod") */
   path: string;
-  /** Original reflection data */
+  /** Stable key that survives regeneration (e.g., "method:MyNamespace.MyClass.myMethod") */
+  key: string;
+  /** Every path the symbol is available under: its own path, then each re-export */
+  exportPaths: string[];
+  /** Source locations, without their URLs when streaming */
+  sources?: Source[];
+  /** Summary of the symbol's own comment as plain text, empty without one */
+  summary: string;
+  /** Original reflection data (read from disk on first access when streaming) */
   reflection: Reflection;
 }
 
+/**
+ * Options for loading TypeDoc JSON
+ */
+export interface ParserOptions {
+  /**
+   * Whether to stream the file and keep only compact records in memory
+   * (default: only for files of {@link STREAMING_THRESHOLD_BYTES} or more)
+   */
+  streaming?: boolean;
+  /**
+   * Directory for the on-disk index cache (default: no caching)
+   * 
+   * @remarks
+   * Indices are stored under a hash of the TypeDoc JSON file, so a cache
+   * entry is reused only while the file is unchanged.
+   */
+  cacheDir?: string;
+}
+
+/**
+ * File size from which documentation is streamed by default (64 MB)
+ */
+export const STREAMING_THRESHOLD_BYTES = 64 * 1024 * 1024;
+
+/**
+ * How the documentation was loaded and what it cost
+ */
+export interface LoadStats {
+  /** `full` when the whole document is in memory, `streaming` for compact records */
+  mode: 'full' | 'streaming';
+  /** Whether indices came from the on-disk cache */
+  cache: CacheStatus;
+  /** TypeDoc releases whose JSON format the file was read as (e.g., "0.24-0.25") */
+  schema: string;
+  /** Size of the TypeDoc JSON file */
+  fileSizeBytes: number;
+  /** Time from the start of loading until queries could be answered */
+  timeToFirstAnswerMs: number;
+  /** V8 heap in use once loading finished */
+  heapUsedBytes: number;
+  /** Resident set size once loading finished */
+  rssBytes: number;
+}
+
+/**
+ * How a type reference is used by the symbol that mentions it
+ */
+export type ReferenceUsage =
+  | 'property'
+  | 'variable'
+  | 'parameter'
+  | 'returnType'
+  | 'typeAlias'
+  | 'typeArgument'
+  | 'typeParameter'
+  | 'extends'
+  | 'implements';
+
+/**
+ * A single mention of one reflection in another reflection's type
+ * 
+ * @remarks
+ * Parameters and inline object types are not indexed reflections, so
+ * their mentions are attributed to the enclosing signature or declaration.
+ */
+export interface TypeReference {
+  /** ID of the reflection whose type mentions the target */
+  fromId: number;
+  /** How the target is used */
+  usage: ReferenceUsage;
+  /** Parameter name for parameter usages */
+  parameter?: string;
+}
+
+/**
+ * Number of full reflection bodies kept in memory when streaming
+ * 
+ * @internal
+ */
+const BODY_CACHE_SIZE = 256;
+
+/**
+ * Closes the pinned files of parsers that were dropped without
+ * {@link TypeDocParser.close}, such as the parser a reload replaced while
+ * requests may still have been using it
+ * 
+ * @internal
+ */
+const pinnedFiles = new FinalizationRegistry<PinnedFile>(releasePinnedFile);
+
 /**
  * TypeDoc JSON parser with multi-index support
  * 
@@ -39,8 +166,21 @@ export interface ParsedSymbol {
  * The parser creates multiple indices for efficient symbol lookup:
  * - ID index for direct access
  * - Name index for searching by symbol name
- * - Path index for hierarchical navigation
+ * - Path index for hierarchical navigation, with canonical paths that are
+ *   unique even for overloads and merged declarations
  * - Kind index for filtering by symbol type
+ * - Reference index for finding where a type is used
+ * - Full-text index for ranked search over names and comments
+ * - File index for browsing symbols by source file
+ * - Tag index for finding symbols by block tag
+ * 
+ * Re-exports (`export { X } from` and barrel files) appear in TypeDoc JSON
+ * as {@link ReflectionKind.Reference} reflections. Lookups follow them to
+ * the symbol they re-export, and report the re-exported paths in
+ * {@link ParsedSymbol.exportPaths}.
+ * 
+ * Very large files are streamed instead of loaded whole; see
+ * {@link TypeDocParser.parse}.
  * 
  * @example
  * ```typescript
@@ -64,17 +204,58 @@ export class TypeDocParser {
   private nameIndex = new Map<string, number[]>();
   /** Index mapping full paths to IDs (paths are unique) */
   private pathIndex = new Map<string, number>();
+  /** Index mapping IDs to their canonical paths */
+  private idPathIndex = new Map<number, string>();
+  /** Index mapping stable symbol keys to IDs */
+  private keyIndex = new Map<string, number>();
+  /** Path of the project root, omitted from stable keys */
+  private rootPath = '';
   /** Index mapping reflection kinds to arrays of IDs */
   private kindIndex = new Map<number, number[]>();
-  /** Parsed TypeDoc JSON document */
+  /** Index mapping referenced IDs to the places that mention them */
+  private referenceIndex = new Map<number, TypeReference[]>();
+  /** Full-text index over names, summaries and tag content */
+  private searchIndex = new SearchIndex();
+  /** Index mapping source file names to the IDs declared in them */
+  private fileIndex = new Map<string, number[]>();
+  /** Index mapping IDs to the ID of their parent reflection */
+  private parentIndex = new Map<number, number>();
+  /** Index mapping IDs to their children and then signatures, in document order */
+  private childIndex = new Map<number, number[]>();
+  /** Index mapping signature IDs to their position among their parent's signatures */
+  private signaturePositions = new Map<number, number>();
+  /** Index mapping block tags (e.g., "@deprecated") to the IDs whose comments use them */
+  private tagIndex = new Map<string, number[]>();
+  /** Index mapping Reference reflection IDs to the IDs of the symbols they re-export */
+  private reexportTargets = new Map<number, number>();
+  /** Index mapping symbol IDs to the paths of the references that re-export them */
+  private reexportPaths = new Map<number, string[]>();
+  /** Byte ranges of reflections in the file, recorded when streaming */
+  private rangeIndex = new Map<number, ByteRange>();
+  /** Open descriptor of the file the byte ranges point into, when streaming */
+  private pinned: PinnedFile | null = null;
+  /** Recently read reflection bodies, least recently used first */
+  private bodyCache = new Map<number, Reflection>();
+  /** Shared file name strings for compact records */
+  private fileNames = new Map<string, string>();
+  /** Whether the index holds compact records instead of full reflections */
+  private streaming = false;
+  /** Load time and memory, once parsed */
+  private loadStats: LoadStats | null = null;
+  /** Parsed TypeDoc JSON document (without children when streaming) */
   private doc: TypeDocJSON | null = null;
+  /** Adapter for the TypeDoc release that wrote the file, once parsing started */
+  private schema: SchemaAdapter | null = null;
+  /** Outcome of validating the file, once parsing started */
+  private diagnostic: DocumentationDiagnostic | null = null;
 
   /**
    * Creates a new TypeDoc parser
    * 
    * @param docPath - Path to TypeDoc JSON file
+   * @param options - Loading options
    */
-  constructor(private docPath: string) {}
+  constructor(private docPath: string, private options: ParserOptions = {}) {}
 
   /**
    * Parses the TypeDoc JSON file and builds indices
@@ -84,7 +265,29 @@ export class TypeDocParser {
    * indices for efficient symbol lookup. Must be called before using
    * any search methods.
    * 
-   * @throws Error if the file cannot be read or parsed
+   * With {@link ParserOptions.cacheDir} set, indices are reloaded from the
+   * on-disk cache when the file is unchanged, and stored there otherwise.
+   * 
+   * Files of {@link STREAMING_THRESHOLD_BYTES} or more are streamed unless
+   * {@link ParserOptions.streaming} says otherwise: only a compact record of
+   * each reflection is kept, and full bodies are re-read from the file on
+   * demand by {@link TypeDocParser.getById}. The file stays open until
+   * {@link TypeDocParser.close}, so a file replaced by renaming a new one
+   * over it keeps being served as parsed. A file rewritten in place is
+   * detected by its size and modification time, and its bodies are
+   * refused until the documentation is reloaded.
+   * 
+   * Every reflection is normalized by the adapter for the TypeDoc release
+   * that wrote the file (see {@link detectSchema}), so the rest of the
+   * parser sees one model whatever release produced it.
+   * 
+   * The file is validated first: files that are not TypeDoc JSON output
+   * (such as a TypeDoc configuration file), invalid JSON and broken project
+   * structure are refused with a message that says what was found and what
+   * to do. {@link TypeDocParser.getDiagnostic} has the details.
+   * 
+   * @throws Error if the file cannot be read or parsed, is not valid TypeDoc
+   * JSON output, or was written by an unsupported TypeDoc release
    * 
    * @example
    * ```typescript
@@ -98,59 +301,674 @@ export class TypeDocParser {
    * ```
    */
   async parse(): Promise<void> {
+    const startedAt = performance.now();
+    const { size } = await fs.stat(this.docPath);
+    this.streaming = this.options.streaming ?? size >= STREAMING_THRESHOLD_BYTES;
+    const mode = this.streaming ? 'streaming' : 'full';
+
+    if (this.streaming) {
+      this.close();
+      this.pinned = pinFile(this.docPath);
+      pinnedFiles.register(this, this.pinned, this);
+    }
+
+    try {
+      await this.load(mode, size, startedAt);
+      if (this.pinned && isPinnedFileChanged(this.pinned)) {
+        throw new Error(`${this.docPath} changed while it was being loaded`);
+      }
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Closes the file a streamed parser reads bodies from
+   * 
+   * @remarks
+   * Bodies of streamed reflections can no longer be read afterwards. Parsers
+   * that are dropped without being closed close the file once garbage
+   * collected.
+   */
+  close(): void {
+    if (!this.pinned) return;
+    pinnedFiles.unregister(this);
+    releasePinnedFile(this.pinned);
+    this.pinned = null;
+  }
+
+  /**
+   * Validates the file and builds or restores the indices
+   * 
+   * @param mode - How the file is loaded
+   * @param size - Size of the file
+   * @param startedAt - When loading started, for {@link LoadStats}
+   * 
+   * @internal
+   */
+  private async load(mode: LoadStats['mode'], size: number, startedAt: number): Promise<void> {
+    const source = this.source;
+    const head = await readSchemaHead(source);
+    this.diagnostic = inspectHead(this.docPath, head);
+    if (!this.diagnostic.valid) {
+      throw new Error(formatDiagnostic(this.diagnostic));
+    }
+    try {
+      this.schema = detectSchema(head);
+    } catch (error) {
+      this.diagnostic = { ...this.diagnostic, valid: false, message: error instanceof Error ? error.message : String(error) };
+      throw error;
+    }
+
+    let cache: CacheStatus = 'disabled';
+    let cacheFile: string | null = null;
+
+    if (this.options.cacheDir) {
+      cacheFile = getCacheFile(this.options.cacheDir, await hashFile(source), mode);
+      const cached = await readIndexCache(cacheFile, mode);
+      cache = cached.status;
+      
+      if (cached.snapshot) {
+        await this.restoreIndices(cached.snapshot);
+      }
+    }
+
+    if (cache !== 'hit') {
+      await this.buildIndices();
+      
+      if (cacheFile) {
+        // An unwritable cache only costs the next start its speed-up
+        await writeIndexCache(cacheFile, this.createSnapshot()).catch(() => undefined);
+      }
+    }
+
+    const memory = process.memoryUsage();
+    this.loadStats = {
+      mode,
+      cache,
+      schema: this.schema.versions,
+      fileSizeBytes: this.pinned?.size ?? size,
+      timeToFirstAnswerMs: Math.round(performance.now() - startedAt),
+      heapUsedBytes: memory.heapUsed,
+      rssBytes: memory.rss,
+    };
+  }
+
+  /**
+   * Reads the TypeDoc JSON file and builds all indices from it
+   * 
+   * @throws Error if the file cannot be read or parsed, or breaks the
+   * structural rules checked by {@link StructureCheck}
+   * 
+   * @internal
+   */
+  private async buildIndices(): Promise<void> {
+    const schema = this.schema!;
+    const check = new StructureCheck(this.docPath);
+
+    if (this.streaming) {
+      let root: Reflection;
+      try {
+        root = await streamReflections(this.source, (node, childIds, range) => {
+          check.visit(node);
+          this.rangeIndex.set(node.id, range);
+          this.indexNode(schema.normalizeReflection(node), childIds);
+        });
+      } catch (error) {
+        throw await this.toLoadError(error);
+      }
+      this.doc = schema.normalizeProject(root);
+    } else {
+      this.doc = await this.readDocument();
+      check.visitTree(this.doc as Reflection);
+      this.indexTree(this.doc as Reflection);
+    }
+
+    this.diagnostic = check.finish(this.doc as Reflection);
+    if (!this.diagnostic.valid) {
+      throw new Error(formatDiagnostic(this.diagnostic));
+    }
+
+    // Paths depend on ancestors, so they are built top-down once all records exist
+    this.indexPaths(this.doc.id, '');
+    this.indexReexports();
+  }
+
+  /**
+   * Restores indices from the on-disk cache
+   * 
+   * @param snapshot - Indices read from the cache
+   * 
+   * @remarks
+   * Streaming snapshots carry everything needed. Otherwise the document is
+   * still loaded, since lookups return full reflections, but only the ID
+   * index is rebuilt from it.
+   * 
+   * @internal
+   */
+  private async restoreIndices(snapshot: IndexSnapshot): Promise<void> {
+    this.rootPath = snapshot.rootPath;
+    this.nameIndex = new Map(snapshot.names);
+    this.pathIndex = new Map(snapshot.paths);
+    this.idPathIndex = new Map(snapshot.paths.map(([path, id]) => [id, path]));
+    this.keyIndex = new Map(snapshot.keys);
+    this.kindIndex = new Map(snapshot.kinds);
+    this.referenceIndex = new Map(snapshot.references);
+    this.fileIndex = new Map(snapshot.files);
+    this.tagIndex = new Map(snapshot.tags);
+    this.parentIndex = new Map(snapshot.parents);
+    this.childIndex = new Map(snapshot.children);
+    this.signaturePositions = new Map(snapshot.signatures);
+    this.searchIndex = SearchIndex.fromJSON(snapshot.search);
+
+    if (this.streaming) {
+      for (const record of snapshot.records || []) {
+        this.index.set(record.id, this.toCompactReflection(record));
+      }
+      for (const [id, start, end] of snapshot.ranges || []) {
+        this.rangeIndex.set(id, { start, end });
+      }
+      this.doc = snapshot.doc || null;
+    } else {
+      this.doc = await this.readDocument();
+      this.indexRecords(this.doc as Reflection);
+    }
+
+    this.indexReexports();
+  }
+
+  /**
+   * Reads and normalizes the whole TypeDoc JSON document
+   * 
+   * @returns The normalized document, children included
+   * 
+   * @throws Error if the file cannot be read or parsed
+   * 
+   * @internal
+   */
+  private async readDocument(): Promise<TypeDocJSON> {
     const content = await fs.readFile(this.docPath, 'utf-8');
-    this.doc = JSON.parse(content);
+    let doc: any;
+    try {
+      doc = JSON.parse(content);
+    } catch (error) {
+      throw await this.toLoadError(error, content);
+    }
     
-    if (!this.doc) {
+    if (!doc) {
       throw new Error('Failed to parse TypeDoc JSON');
     }
 
-    // Build indices
-    this.buildIndex(this.doc as Reflection, '');
+    const project = this.schema!.normalizeProject(doc);
+    this.schema!.normalizeReflection(project);
+    return project;
   }
 
   /**
-   * Recursively builds indices for all reflections
+   * Turns a JSON syntax error into an error with its line and column
+   * 
+   * @param error - Error thrown while reading the file
+   * @param content - File contents, when they were read as a whole
+   * @returns The error to throw; other errors are returned unchanged
+   * 
+   * @internal
+   */
+  private async toLoadError(error: unknown, content?: string): Promise<unknown> {
+    const diagnostic = await describeSyntaxError(this.docPath, error, content);
+    if (!diagnostic) return error;
+
+    this.diagnostic = diagnostic;
+    return new Error(formatDiagnostic(diagnostic));
+  }
+
+  /**
+   * Serializes all indices for the on-disk cache
+   * 
+   * @returns Snapshot that {@link TypeDocParser.restoreIndices} restores
+   * 
+   * @internal
+   */
+  private createSnapshot(): IndexSnapshot {
+    const snapshot: IndexSnapshot = {
+      rootPath: this.rootPath,
+      names: [...this.nameIndex],
+      paths: [...this.pathIndex],
+      keys: [...this.keyIndex],
+      kinds: [...this.kindIndex],
+      references: [...this.referenceIndex],
+      files: [...this.fileIndex],
+      tags: [...this.tagIndex],
+      parents: [...this.parentIndex],
+      children: [...this.childIndex],
+      signatures: [...this.signaturePositions],
+      search: this.searchIndex.toJSON(),
+    };
+
+    if (this.streaming) {
+      snapshot.records = [...this.index.values()];
+      snapshot.ranges = [...this.rangeIndex].map(([id, range]) => [id, range.start, range.end]);
+      snapshot.doc = this.doc || undefined;
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Recursively adds a loaded reflection tree to the ID index only
    * 
    * @param node - Current reflection node
-   * @param parentPath - Path of parent node
    * 
    * @internal
    */
-  private buildIndex(node: Reflection, parentPath: string): void {
-    // Add to main index
+  private indexRecords(node: Reflection): void {
     this.index.set(node.id, node);
+    for (const signature of node.signatures || []) {
+      this.index.set(signature.id, signature as Reflection);
+    }
+    for (const child of node.children || []) {
+      this.indexRecords(child);
+    }
+  }
 
-    // Build full path
-    const fullPath = parentPath ? `${parentPath}.${node.name}` : node.name;
+  /**
+   * Recursively indexes a fully loaded reflection tree
+   * 
+   * @param node - Current reflection node
+   * 
+   * @internal
+   */
+  private indexTree(node: Reflection): void {
+    const children = node.children || [];
+    this.indexNode(node, children.map(child => child.id));
+    for (const child of children) {
+      this.indexTree(child);
+    }
+  }
+
+  /**
+   * Indexes a reflection and its signatures, children excluded
+   * 
+   * @param node - The reflection to index
+   * @param childIds - IDs of its children, which are indexed separately
+   * 
+   * @remarks
+   * Only the node itself is needed, so this works both on a loaded tree and
+   * on the childless nodes reported while streaming (where children are
+   * indexed before their parent).
+   * 
+   * @internal
+   */
+  private indexNode(node: Reflection, childIds: number[]): void {
+    this.indexReflection(node);
+
+    const signatureIds: number[] = [];
+    (node.signatures || []).forEach((signature, i) => {
+      this.indexReflection(signature as Reflection);
+      this.parentIndex.set(signature.id, node.id);
+      this.signaturePositions.set(signature.id, i);
+      signatureIds.push(signature.id);
+    });
+
+    for (const childId of childIds) {
+      this.parentIndex.set(childId, node.id);
+    }
+    if (node.kind === ReflectionKind.Project || node.kind === ReflectionKind.Module) {
+      this.searchIndex.markTopLevel(childIds);
+    }
+    this.childIndex.set(node.id, [...childIds, ...signatureIds]);
+  }
+
+  /**
+   * Adds a single reflection to the ID, reference, full-text, file and tag indices
+   * 
+   * @param node - The reflection to index
+   * 
+   * @internal
+   */
+  private indexReflection(node: Reflection): void {
+    this.index.set(node.id, this.streaming ? this.toCompactReflection(node) : node);
+    this.indexReferences(node);
+    this.searchIndex.add(node);
+    this.indexFile(node);
+    this.indexTags(node);
+  }
+
+  /**
+   * Reduces a reflection to the record kept in memory when streaming
+   * 
+   * @param node - The full reflection
+   * @returns Name, kind, flags, summary text and source locations only
+   * 
+   * @remarks
+   * The summary is flattened to a single text part, source URLs are dropped
+   * and file names are shared between records, since every reflection in a
+   * file would otherwise hold its own copy. Re-export targets are kept, since
+   * references are resolved from the records alone.
+   * 
+   * @internal
+   */
+  private toCompactReflection(node: Reflection): Reflection {
+    const sources = node.sources?.map(source => {
+      const fileName = this.fileNames.get(source.fileName) ?? source.fileName;
+      this.fileNames.set(fileName, fileName);
+      return { fileName, line: source.line, character: source.character };
+    });
+
+    return {
+      id: node.id,
+      name: node.name,
+      kind: node.kind,
+      kindString: node.kindString,
+      variant: node.variant,
+      flags: node.flags,
+      target: node.target,
+      sources,
+      comment: node.comment?.summary
+        ? { summary: [{ kind: 'text', text: node.comment.summary.map(part => part.text).join('') }] }
+        : undefined,
+    };
+  }
+
+  /**
+   * Recursively builds the path, key, name and kind indices
+   * 
+   * @param id - ID of the current reflection
+   * @param parentPath - Path of parent node, empty for the project root
+   * 
+   * @remarks
+   * Reflections are visited in document order, so when two declarations
+   * share a path the first one keeps the plain path.
+   * 
+   * @internal
+   */
+  private indexPaths(id: number, parentPath: string): void {
+    const node = this.index.get(id);
+    if (!node) return;
+
+    // Build canonical path
+    const fullPath = this.getCanonicalPath(node, parentPath, this.signaturePositions.get(id));
+    if (!this.parentIndex.has(id)) {
+      this.rootPath = fullPath;
+    }
     
-    // Add to path index
-    this.pathIndex.set(fullPath, node.id);
+    // Add to path indices
+    this.pathIndex.set(fullPath, id);
+    this.idPathIndex.set(id, fullPath);
+    this.keyIndex.set(this.getKey(node, fullPath), id);
 
     // Add to name index
     const nameIds = this.nameIndex.get(node.name) || [];
-    nameIds.push(node.id);
+    nameIds.push(id);
     this.nameIndex.set(node.name, nameIds);
 
     // Add to kind index
     if (node.kind) {
       const kindIds = this.kindIndex.get(node.kind) || [];
-      kindIds.push(node.id);
+      kindIds.push(id);
       this.kindIndex.set(node.kind, kindIds);
     }
 
-    // Recursively index children
-    if (node.children) {
-      for (const child of node.children) {
-        this.buildIndex(child, fullPath);
-      }
+    // Recursively index children, then signatures
+    for (const childId of this.childIndex.get(id) || []) {
+      this.indexPaths(childId, fullPath);
+    }
+  }
+
+  /**
+   * Computes the unique canonical path of a reflection
+   * 
+   * @param node - The reflection being indexed
+   * @param parentPath - Canonical path of its parent
+   * @param signatureIndex - Position of the node among its parent's signatures
+   * @returns Dot-separated path, with a `#` suffix where needed for uniqueness
+   * 
+   * @remarks
+   * Signatures share their declaration's name, so they get a 1-based
+   * `#signature-N` suffix (e.g., `MyClass.myMethod#signature-2`) and never
+   * shadow the declaration. Declarations that share a path with an earlier
+   * one (such as a merged variable and type alias) get a `#kind` suffix,
+   * and a numeric suffix on top of that if the path is still taken.
+   * 
+   * @internal
+   */
+  private getCanonicalPath(node: Reflection, parentPath: string, signatureIndex?: number): string {
+    if (signatureIndex !== undefined) {
+      return `${parentPath}#signature-${signatureIndex + 1}`;
+    }
+    
+    const basePath = parentPath ? `${parentPath}.${node.name}` : node.name;
+    if (!this.pathIndex.has(basePath)) return basePath;
+    
+    const kindPath = `${basePath}#${toKindSlug(getKindName(node.kind))}`;
+    if (!this.pathIndex.has(kindPath)) return kindPath;
+    
+    let n = 2;
+    while (this.pathIndex.has(`${kindPath}-${n}`)) n++;
+    return `${kindPath}-${n}`;
+  }
+
+  /**
+   * Builds the stable key of a reflection
+   * 
+   * @param node - The reflection being indexed
+   * @param fullPath - Its canonical path
+   * @returns Kind slug and project-relative path (e.g., "class:models.User")
+   * 
+   * @remarks
+   * TypeDoc renumbers IDs every time documentation is regenerated, so IDs
+   * cannot be stored between sessions. Keys are built from names and kinds
+   * only, and stay the same as long as the declaration does.
+   * 
+   * @internal
+   */
+  private getKey(node: Reflection, fullPath: string): string {
+    const relativePath = fullPath === this.rootPath
+      ? ''
+      : fullPath.startsWith(`${this.rootPath}.`) || fullPath.startsWith(`${this.rootPath}#`)
+        ? fullPath.slice(this.rootPath.length + 1)
+        : fullPath;
+    
+    return `${toKindSlug(getKindName(node.kind))}:${relativePath}`;
+  }
+
+  /**
+   * Resolves every Reference reflection to the symbol it re-exports
+   * 
+   * @remarks
+   * References to references are followed to the end of the chain.
+   * References whose target is not documented, or that form a cycle, are
+   * left unresolved and are returned as they are.
+   * 
+   * @internal
+   */
+  private indexReexports(): void {
+    this.reexportTargets.clear();
+    this.reexportPaths.clear();
+
+    for (const id of this.kindIndex.get(ReflectionKind.Reference) || []) {
+      const seen = new Set<number>();
+      let current = this.index.get(id);
+      while (current?.kind === ReflectionKind.Reference && typeof current.target === 'number' && !seen.has(current.id)) {
+        seen.add(current.id);
+        current = this.index.get(current.target);
+      }
+      if (!current || current.kind === ReflectionKind.Reference) continue;
+
+      this.reexportTargets.set(id, current.id);
+      const paths = this.reexportPaths.get(current.id) || [];
+      paths.push(this.idPathIndex.get(id) || this.index.get(id)!.name);
+      this.reexportPaths.set(current.id, paths);
+    }
+  }
+
+  /**
+   * Records every type reference made by a reflection
+   * 
+   * @param node - The reflection whose types are scanned
+   * 
+   * @internal
+   */
+  private indexReferences(node: Reflection): void {
+    const signature = node as unknown as Signature;
+    const signatureKinds = ReflectionKind.CallSignature | ReflectionKind.ConstructorSignature;
+
+    if (node.variant === 'signature' || (node.kind & signatureKinds) !== 0) {
+      for (const param of signature.parameters || []) {
+        this.collectReferences(param.type, node.id, 'parameter', param.name);
+      }
+      this.collectReferences(signature.type, node.id, 'returnType');
+    } else if (node.kind === ReflectionKind.TypeAlias) {
+      this.collectReferences(node.type, node.id, 'typeAlias');
+    } else if (node.kind === ReflectionKind.Variable) {
+      this.collectReferences(node.type, node.id, 'variable');
+    } else {
+      this.collectReferences(node.type, node.id, 'property');
+    }
+
+    for (const typeParam of [...(node.typeParameters || []), ...(signature.typeParameters || [])]) {
+      this.collectReferences(typeParam.constraint, node.id, 'typeParameter');
+      this.collectReferences(typeParam.default, node.id, 'typeParameter');
+    }
+
+    for (const type of node.extendedTypes || []) {
+      this.collectReferences(type, node.id, 'extends');
+    }
+    for (const type of node.implementedTypes || []) {
+      this.collectReferences(type, node.id, 'implements');
+    }
+
+    // Accessor and index signatures are not indexed separately
+    this.collectReferences(node.getSignature?.type, node.id, 'property');
+    for (const param of node.setSignature?.parameters || []) {
+      this.collectReferences(param.type, node.id, 'property');
+    }
+    for (const indexSignature of node.indexSignatures || []) {
+      this.collectReferences(indexSignature.type, node.id, 'property');
+    }
+  }
+
+  /**
+   * Walks a type and records every reference it contains
+   * 
+   * @param type - The type to walk
+   * @param fromId - ID of the reflection that owns the type
+   * @param usage - How top-level references are used
+   * @param parameter - Parameter name for parameter usages
+   * 
+   * @remarks
+   * References nested inside type arguments are recorded as `typeArgument`
+   * usages. Inline object types are walked in place, so their members'
+   * references are attributed to the owning reflection.
+   * 
+   * @internal
+   */
+  private collectReferences(
+    type: Type | undefined,
+    fromId: number,
+    usage: ReferenceUsage,
+    parameter?: string
+  ): void {
+    if (!type) return;
+
+    const walk = (t: Type | undefined, u: ReferenceUsage) => this.collectReferences(t, fromId, u, parameter);
+
+    if (type.type === 'reference' && !type.refersToTypeParameter) {
+      if (typeof type.target === 'number') {
+        this.addReference(type.target, { fromId, usage, parameter });
+      }
+    }
+
+    for (const arg of type.typeArguments || []) walk(arg, 'typeArgument');
+    for (const t of type.types || []) walk(t, usage);
+    for (const t of type.elements || []) walk(t, usage);
+    for (const [t] of type.tail || []) walk(t, usage);
+
+    walk(type.elementType, usage);
+    walk(type.element, usage);
+    walk(type.targetType, usage);
+    walk(type.queryType, usage);
+    walk(type.objectType, usage);
+    walk(type.indexType, usage);
+    walk(type.checkType, usage);
+    walk(type.extendsType, usage);
+    walk(type.trueType, usage);
+    walk(type.falseType, usage);
+    walk(type.parameterType, usage);
+    walk(type.templateType, usage);
+    walk(type.nameType, usage);
+    walk(type.constraint, usage);
+    if (typeof type.target === 'object' && 'type' in type.target) walk(type.target, usage);
+
+    const declaration = type.declaration;
+    if (declaration) {
+      for (const child of declaration.children || []) walk(child.type, usage);
+      for (const sig of declaration.signatures || []) {
+        for (const param of sig.parameters || []) walk(param.type, usage);
+        walk(sig.type, usage);
+      }
+      for (const sig of declaration.indexSignatures || []) walk(sig.type, usage);
+    }
+  }
+
+  /**
+   * Adds an entry to the reference index, skipping exact duplicates
+   * 
+   * @param targetId - ID of the referenced reflection
+   * @param reference - The mention to record
+   * 
+   * @internal
+   */
+  private addReference(targetId: number, reference: TypeReference): void {
+    const references = this.referenceIndex.get(targetId) || [];
+    const duplicate = references.some(r =>
+      r.fromId === reference.fromId &&
+      r.usage === reference.usage &&
+      r.parameter === reference.parameter
+    );
+
+    if (!duplicate) {
+      references.push(reference);
+      this.referenceIndex.set(targetId, references);
+    }
+  }
+
+  /**
+   * Records the source files a reflection is declared in
+   * 
+   * @param node - The reflection to record
+   * 
+   * @remarks
+   * Signatures are covered by their declaration, and inherited members and
+   * re-exports point at another symbol's source, so none of them are recorded.
+   * 
+   * @internal
+   */
+  private indexFile(node: Reflection): void {
+    if (node.variant === 'signature' || node.inheritedFrom) return;
+    if (node.kind === ReflectionKind.Reference) return;
+
+    const files = new Set((node.sources || []).map(s => normalizeFileName(s.fileName)));
+    for (const file of files) {
+      const ids = this.fileIndex.get(file) || [];
+      ids.push(node.id);
+      this.fileIndex.set(file, ids);
     }
+  }
 
-    // Index signatures
-    if (node.signatures) {
-      for (const signature of node.signatures) {
-        this.buildIndex(signature as Reflection, fullPath);
-      }
+  /**
+   * Records the block tags used in a reflection's comment
+   * 
+   * @param node - The reflection to record
+   * 
+   * @internal
+   */
+  private indexTags(node: Reflection): void {
+    const tags = new Set((node.comment?.blockTags || []).map(t => t.tag));
+    for (const tag of tags) {
+      const ids = this.tagIndex.get(tag) || [];
+      ids.push(node.id);
+      this.tagIndex.set(tag, ids);
     }
   }
 
@@ -161,6 +979,11 @@ export class TypeDocParser {
    * @param exact - Whether to use exact match (default: true)
    * @returns Array of matching symbols
    * 
+   * @remarks
+   * Re-exports resolve to the symbol they re-export, so a symbol that is
+   * re-exported under its own name is returned once. A symbol re-exported
+   * under another name (`export { X as Y }`) is found by either name.
+   * 
    * @example
    * ```typescript
    * // Exact match
@@ -171,30 +994,30 @@ export class TypeDocParser {
    * ```
    */
   findByName(name: string, exact = true): ParsedSymbol[] {
-    const results: ParsedSymbol[] = [];
+    const ids: number[] = [];
     
     if (exact) {
-      const ids = this.nameIndex.get(name) || [];
-      for (const id of ids) {
-        const reflection = this.index.get(id);
-        if (reflection) {
-          results.push(this.createParsedSymbol(reflection));
-        }
-      }
+      ids.push(...(this.nameIndex.get(name) || []));
     } else {
       // Partial match
-      for (const [symbolName, ids] of this.nameIndex) {
+      for (const [symbolName, nameIds] of this.nameIndex) {
         if (symbolName.toLowerCase().includes(name.toLowerCase())) {
-          for (const id of ids) {
-            const reflection = this.index.get(id);
-            if (reflection) {
-              results.push(this.createParsedSymbol(reflection));
-            }
-          }
+          ids.push(...nameIds);
         }
       }
     }
     
+    // Re-exports of the same symbol collapse into one result
+    const seen = new Set<number>();
+    const results: ParsedSymbol[] = [];
+    for (const id of ids) {
+      const reflection = this.index.get(this.resolveId(id));
+      if (reflection && !seen.has(reflection.id)) {
+        seen.add(reflection.id);
+        results.push(this.createParsedSymbol(reflection));
+      }
+    }
+    
     return results;
   }
 
@@ -204,6 +1027,9 @@ export class TypeDocParser {
    * @param path - Dot-separated path (e.g., "MyNamespace.MyClass.myMethod")
    * @returns The symbol if found, null otherwise
    * 
+   * @remarks
+   * The path of a re-export finds the symbol it re-exports.
+   * 
    * @example
    * ```typescript
    * const method = parser.findByPath('MyClass.myMethod');
@@ -214,9 +1040,35 @@ export class TypeDocParser {
    */
   findByPath(path: string): ParsedSymbol | null {
     const id = this.pathIndex.get(path);
-    if (!id) return null;
+    if (id === undefined) return null;
+    
+    const reflection = this.index.get(this.resolveId(id));
+    if (!reflection) return null;
+    
+    return this.createParsedSymbol(reflection);
+  }
+
+  /**
+   * Finds a symbol by its stable key
+   * 
+   * @param key - Key from {@link ParsedSymbol.key} (e.g., "class:models.User")
+   * @returns The symbol if found, null otherwise
+   * 
+   * @remarks
+   * Unlike IDs, keys survive regenerating the documentation, so they are the
+   * right thing to store between sessions. The key of a re-export finds the
+   * symbol it re-exports.
+   * 
+   * @example
+   * ```typescript
+   * const user = parser.findByKey('interface:models.User');
+   * ```
+   */
+  findByKey(key: string): ParsedSymbol | null {
+    const id = this.keyIndex.get(key);
+    if (id === undefined) return null;
     
-    const reflection = this.index.get(id);
+    const reflection = this.index.get(this.resolveId(id));
     if (!reflection) return null;
     
     return this.createParsedSymbol(reflection);
@@ -251,12 +1103,50 @@ export class TypeDocParser {
     return results;
   }
 
+  /**
+   * Finds all symbols whose comment has a block tag
+   * 
+   * @param tag - Tag name, with or without the `@` prefix (e.g., "deprecated")
+   * @returns Array of symbols using the tag
+   * 
+   * @example
+   * ```typescript
+   * for (const symbol of parser.findByTag('deprecated')) {
+   *   console.log(symbol.path);
+   * }
+   * ```
+   */
+  findByTag(tag: string): ParsedSymbol[] {
+    const tagName = tag.startsWith('@') ? tag : `@${tag}`;
+    const ids = this.tagIndex.get(tagName) || [];
+    const results: ParsedSymbol[] = [];
+    
+    for (const id of ids) {
+      const reflection = this.index.get(id);
+      if (reflection) {
+        results.push(this.createParsedSymbol(reflection));
+      }
+    }
+    
+    return results;
+  }
+
   /**
    * Gets a reflection by its ID
    * 
    * @param id - TypeDoc ID
+   * @param followReexports - Whether the ID of a re-export gives the
+   * reflection it re-exports (default true) or the re-export itself
    * @returns The reflection if found, null otherwise
    * 
+   * @remarks
+   * The ID of a re-export returns the reflection it re-exports, unless
+   * `followReexports` is false.
+   * 
+   * When streaming, the full body is read back from the file and cached.
+   * The project root is the exception: it spans the whole file, so it is
+   * returned with compact records as children.
+   * 
    * @example
    * ```typescript
    * const reflection = parser.getById(123);
@@ -265,8 +1155,274 @@ export class TypeDocParser {
    * }
    * ```
    */
-  getById(id: number): Reflection | null {
-    return this.index.get(id) || null;
+  getById(id: number, followReexports = true): Reflection | null {
+    return this.getBody(followReexports ? this.resolveId(id) : id);
+  }
+
+  /**
+   * Gets a reflection by its ID without following re-exports
+   * 
+   * @param id - TypeDoc ID
+   * @returns The reflection if found, null otherwise
+   * 
+   * @internal
+   */
+  private getBody(id: number): Reflection | null {
+    if (!this.streaming) {
+      return this.index.get(id) || null;
+    }
+    if (!this.index.has(id)) return null;
+
+    const cached = this.bodyCache.get(id);
+    if (cached) {
+      // Move to the most recently used end
+      this.bodyCache.delete(id);
+      this.bodyCache.set(id, cached);
+      return cached;
+    }
+
+    const body = this.loadBody(id);
+    if (!body) return null;
+
+    this.bodyCache.set(id, body);
+    if (this.bodyCache.size > BODY_CACHE_SIZE) {
+      const oldest = this.bodyCache.keys().next().value as number;
+      this.bodyCache.delete(oldest);
+    }
+    return body;
+  }
+
+  /**
+   * Finds a symbol by its TypeDoc ID
+   * 
+   * @param id - TypeDoc ID
+   * @returns The symbol if found, null otherwise; re-exports resolve to their target
+   * 
+   * @example
+   * ```typescript
+   * const symbol = parser.findById(123);
+   * if (symbol) {
+   *   console.log(`${symbol.path} is a ${symbol.kind}`);
+   * }
+   * ```
+   */
+  findById(id: number): ParsedSymbol | null {
+    const reflection = this.index.get(this.resolveId(id));
+    if (!reflection) return null;
+    
+    return this.createParsedSymbol(reflection);
+  }
+
+  /**
+   * Resolves a reference type to the reflection it points at
+   * 
+   * @param type - A type, usually with `type: 'reference'`
+   * @returns The target reflection, or null for external or unresolvable types
+   * 
+   * @remarks
+   * TypeDoc 0.24+ stores the target ID in `target`, while older releases
+   * use `id`. References to symbols outside the documented project carry
+   * a symbol descriptor object in `target` instead and cannot be resolved.
+   * 
+   * @example
+   * ```typescript
+   * for (const parent of reflection.extendedTypes ?? []) {
+   *   const base = parser.resolveType(parent);
+   *   console.log(base ? base.name : `${parent.name} (external)`);
+   * }
+   * ```
+   */
+  resolveType(type: Type | undefined): Reflection | null {
+    if (!type) return null;
+    
+    return typeof type.target === 'number' ? this.getById(type.target) : null;
+  }
+
+  /**
+   * Finds every place a reflection is mentioned in another reflection's type
+   * 
+   * @param id - TypeDoc ID of the referenced reflection
+   * @returns Array of references, empty if the reflection is never mentioned
+   * 
+   * @example
+   * ```typescript
+   * const repo = parser.findByName('Repository')[0];
+   * for (const ref of parser.findReferences(repo.id)) {
+   *   console.log(`${parser.findById(ref.fromId)?.path} (${ref.usage})`);
+   * }
+   * ```
+   */
+  findReferences(id: number): TypeReference[] {
+    return this.referenceIndex.get(this.resolveId(id)) || [];
+  }
+
+  /**
+   * Searches names, summaries and tag content for a free-text query
+   * 
+   * @param query - Free-text query (e.g., "parse json file")
+   * @param limit - Maximum number of results (default: 20)
+   * @returns Hits ordered by descending relevance
+   * 
+   * @remarks
+   * Results are ranked with BM25F scoring over the full-text index built by
+   * {@link TypeDocParser.parse}, with name matches weighted above comment
+   * matches and top-level declarations boosted over members. Hits on a
+   * re-export count for the symbol it re-exports, at the better score.
+   * 
+   * @example
+   * ```typescript
+   * for (const hit of parser.search('load documentation from disk', 5)) {
+   *   console.log(parser.findById(hit.id)?.path, hit.score);
+   * }
+   * ```
+   */
+  search(query: string, limit = 20): SearchHit[] {
+    // Each re-export can add at most one duplicate, so fetching that many more still fills the limit
+    const hits = this.searchIndex.search(query, limit + this.reexportTargets.size);
+    const seen = new Set<number>();
+    const results: SearchHit[] = [];
+    
+    for (const hit of hits) {
+      const id = this.resolveId(hit.id);
+      if (seen.has(id)) continue;
+      seen.add(id);
+      results.push({ ...hit, id });
+      if (results.length === limit) break;
+    }
+    
+    return results;
+  }
+
+  /**
+   * Lists the source files that declare documented symbols
+   * 
+   * @param pattern - Optional file path or glob to filter by
+   * @returns Matching file names as recorded by TypeDoc, sorted
+   * 
+   * @remarks
+   * File names are matched by suffix, so an absolute path or a path relative
+   * to a different root still finds the file TypeDoc recorded. When leading
+   * directories have to be dropped for a match, the most specific
+   * interpretation that matches any file wins. Globs support `*`, `**` and `?`.
+   * 
+   * @example
+   * ```typescript
+   * parser.getFiles('src/tools/*.ts');
+   * // ['src/tools/find-symbol.ts', 'src/tools/get-members.ts', ...]
+   * ```
+   */
+  getFiles(pattern?: string): string[] {
+    const files = [...this.fileIndex.keys()].sort();
+    if (!pattern) return files;
+    
+    // Use the most specific interpretation of the pattern that matches anything
+    for (const matcher of createFileMatchers(pattern)) {
+      const matches = files.filter(matcher);
+      if (matches.length > 0) return matches;
+    }
+    
+    return [];
+  }
+
+  /**
+   * Finds all symbols declared in a source file
+   * 
+   * @param file - File name as recorded by TypeDoc (see {@link TypeDocParser.getFiles})
+   * @returns Symbols in line order
+   * 
+   * @example
+   * ```typescript
+   * for (const symbol of parser.findByFile('src/parser/index.ts')) {
+   *   console.log(`${symbol.path} (${symbol.kind})`);
+   * }
+   * ```
+   */
+  findByFile(file: string): ParsedSymbol[] {
+    const fileName = normalizeFileName(file);
+    const ids = this.fileIndex.get(fileName) || [];
+    
+    return ids
+      .map(id => this.index.get(id))
+      .filter((r): r is Reflection => !!r)
+      .sort((a, b) => this.getStartLine(a, fileName) - this.getStartLine(b, fileName))
+      .map(r => this.createParsedSymbol(r));
+  }
+
+  /**
+   * Finds the innermost symbol whose source span covers a line
+   * 
+   * @param file - File name as recorded by TypeDoc (see {@link TypeDocParser.getFiles})
+   * @param line - Line number (1-based)
+   * @returns The innermost covering symbol, or null if none covers the line
+   * 
+   * @remarks
+   * TypeDoc only records where a declaration starts, so spans are inferred:
+   * a symbol extends to the line before its next sibling in the same file,
+   * and the last sibling extends to the end of its parent's span.
+   * 
+   * @example
+   * ```typescript
+   * const symbol = parser.findAtLocation('src/parser/index.ts', 120);
+   * console.log(symbol?.path); // e.g. "parser.TypeDocParser.parse"
+   * ```
+   */
+  findAtLocation(file: string, line: number): ParsedSymbol | null {
+    const fileName = normalizeFileName(file);
+    const ids = this.fileIndex.get(fileName) || [];
+    const inFile = new Set(ids);
+    
+    // Group symbols by parent, in line order, to find each symbol's next sibling
+    const siblings = new Map<number | undefined, Reflection[]>();
+    for (const id of ids) {
+      const reflection = this.index.get(id);
+      if (!reflection) continue;
+      
+      const parentId = this.parentIndex.get(id);
+      const group = siblings.get(parentId) || [];
+      group.push(reflection);
+      siblings.set(parentId, group);
+    }
+    for (const group of siblings.values()) {
+      group.sort((a, b) => this.getStartLine(a, fileName) - this.getStartLine(b, fileName));
+    }
+    
+    const ends = new Map<number, number>();
+    const getEnd = (reflection: Reflection): number => {
+      const cached = ends.get(reflection.id);
+      if (cached !== undefined) return cached;
+      
+      const parentId = this.parentIndex.get(reflection.id);
+      const group = siblings.get(parentId) || [];
+      const start = this.getStartLine(reflection, fileName);
+      const next = group.find(r => this.getStartLine(r, fileName) > start);
+      const parent = parentId !== undefined && inFile.has(parentId) ? this.index.get(parentId) : undefined;
+      
+      const end = next
+        ? this.getStartLine(next, fileName) - 1
+        : parent ? getEnd(parent) : Infinity;
+      ends.set(reflection.id, end);
+      return end;
+    };
+    
+    let best: Reflection | null = null;
+    let bestStart = -1;
+    let bestDepth = -1;
+    
+    for (const group of siblings.values()) {
+      for (const reflection of group) {
+        const start = this.getStartLine(reflection, fileName);
+        if (start > line || getEnd(reflection) < line) continue;
+        
+        const depth = this.getDepth(reflection.id);
+        if (start > bestStart || (start === bestStart && depth > bestDepth)) {
+          best = reflection;
+          bestStart = start;
+          bestDepth = depth;
+        }
+      }
+    }
+    
+    return best ? this.createParsedSymbol(best) : null;
   }
 
   /**
@@ -287,13 +1443,39 @@ export class TypeDocParser {
       name: this.doc.name,
       version: this.doc.packageVersion,
       readme: this.doc.readme,
+      schemaVersion: this.doc.schemaVersion,
+      documents: this.doc.documents?.map(document => document.name) || [],
     };
   }
 
+  /**
+   * Gets the outcome of validating the documentation file
+   * 
+   * @returns The diagnostic of the last {@link TypeDocParser.parse} call,
+   * or null before parsing
+   * 
+   * @remarks
+   * After a failed parse, this says what the file turned out to be, where a
+   * syntax error is, and what to do about it.
+   * 
+   * @example
+   * ```typescript
+   * await parser.parse().catch(() => undefined);
+   * const diagnostic = parser.getDiagnostic();
+   * if (diagnostic && !diagnostic.valid) {
+   *   console.error(diagnostic.message, diagnostic.location, diagnostic.suggestion);
+   * }
+   * ```
+   */
+  getDiagnostic(): DocumentationDiagnostic | null {
+    return this.diagnostic;
+  }
+
   /**
    * Gets statistics about the parsed documentation
    * 
-   * @returns Object containing counts of different symbol types
+   * @returns Object containing counts of different symbol types, and load
+   * time and memory use once parsed
    * 
    * @example
    * ```typescript
@@ -313,6 +1495,7 @@ export class TypeDocParser {
       types: this.kindIndex.get(ReflectionKind.TypeAlias)?.length || 0,
       enums: this.kindIndex.get(ReflectionKind.Enum)?.length || 0,
       modules: this.kindIndex.get(ReflectionKind.Module)?.length || 0,
+      load: this.loadStats,
     };
     
     return stats;
@@ -328,15 +1511,89 @@ export class TypeDocParser {
    */
   private createParsedSymbol(reflection: Reflection): ParsedSymbol {
     const path = this.getPath(reflection);
+    const load = () => this.getBody(reflection.id) || reflection;
     return {
       id: reflection.id,
       name: reflection.name,
-      kind: reflection.kindString || this.getKindString(reflection.kind),
+      kind: reflection.kindString || getKindName(reflection.kind),
+      reflectionKind: reflection.kind,
       path,
-      reflection,
+      key: this.getKey(reflection, path),
+      exportPaths: [path, ...(this.reexportPaths.get(reflection.id) || [])],
+      // Taken from the in-memory record, so listings can show them cheaply
+      sources: reflection.sources,
+      get summary() {
+        return (reflection.comment?.summary || []).map(part => part.text).join('').trim();
+      },
+      // Deferred so that listing symbols never reads bodies from disk
+      get reflection() {
+        return load();
+      },
     };
   }
 
+  /**
+   * Reads the full body of a reflection from the streamed file
+   * 
+   * @param id - TypeDoc ID
+   * @returns The full reflection, or null if it cannot be located
+   * 
+   * @internal
+   */
+  private loadBody(id: number): Reflection | null {
+    const parentId = this.parentIndex.get(id);
+
+    if (parentId === undefined) {
+      const children = (this.childIndex.get(id) || [])
+        .filter(childId => !this.signaturePositions.has(childId))
+        .map(childId => this.index.get(childId))
+        .filter((r): r is Reflection => !!r);
+      return { ...(this.doc as Reflection), children };
+    }
+
+    // Signatures are stored inside their declaration
+    if (this.signaturePositions.has(id)) {
+      const parent = this.getBody(parentId);
+      return (parent?.signatures?.find(s => s.id === id) as Reflection | undefined) || null;
+    }
+
+    const range = this.rangeIndex.get(id);
+    if (!range) return null;
+    if (!this.pinned) {
+      throw new Error(`Documentation from ${this.docPath} was closed`);
+    }
+    if (isPinnedFileChanged(this.pinned)) {
+      throw new Error(`${this.docPath} was rewritten since it was loaded; reload the documentation to read reflection ${id}`);
+    }
+
+    const body = readJsonRange(this.pinned.fd, range);
+    if (body?.id !== id) {
+      throw new Error(`Reflection ${id} is not at bytes ${range.start}-${range.end} of ${this.docPath} as indexed; reload the documentation`);
+    }
+    return this.schema!.normalizeReflection(body);
+  }
+
+  /**
+   * File read while parsing: the pinned descriptor when streaming
+   * 
+   * @internal
+   */
+  private get source(): string | number {
+    return this.pinned?.fd ?? this.docPath;
+  }
+
+  /**
+   * Follows a re-export to the symbol it re-exports
+   * 
+   * @param id - TypeDoc ID
+   * @returns ID of the re-exported symbol, or the ID itself for anything else
+   * 
+   * @internal
+   */
+  private resolveId(id: number): number {
+    return this.reexportTargets.get(id) ?? id;
+  }
+
   /**
    * Gets the full path for a reflection
    * 
@@ -346,38 +1603,100 @@ export class TypeDocParser {
    * @internal
    */
   private getPath(reflection: Reflection): string {
-    // Find path by looking up in pathIndex
-    for (const [path, id] of this.pathIndex) {
-      if (id === reflection.id) {
-        return path;
+    return this.idPathIndex.get(reflection.id) || reflection.name;
+  }
+
+  /**
+   * Gets the first line a reflection is declared on in a file
+   * 
+   * @param reflection - The reflection to look up
+   * @param fileName - Normalized file name
+   * @returns 1-based line number, or Infinity if not declared in the file
+   * 
+   * @internal
+   */
+  private getStartLine(reflection: Reflection, fileName: string): number {
+    let line = Infinity;
+    for (const source of reflection.sources || []) {
+      if (normalizeFileName(source.fileName) === fileName) {
+        line = Math.min(line, source.line);
       }
     }
-    return reflection.name;
+    return line;
   }
 
   /**
-   * Converts numeric kind to human-readable string
+   * Counts the ancestors of a reflection
    * 
-   * @param kind - Numeric reflection kind
-   * @returns Human-readable kind string
+   * @param id - TypeDoc ID
+   * @returns Number of ancestors up to the project root
    * 
    * @internal
    */
-  private getKindString(kind: number): string {
-    const kindMap: Record<number, string> = {
-      [ReflectionKind.Module]: 'Module',
-      [ReflectionKind.Namespace]: 'Namespace',
-      [ReflectionKind.Enum]: 'Enum',
-      [ReflectionKind.Variable]: 'Variable',
-      [ReflectionKind.Function]: 'Function',
-      [ReflectionKind.Class]: 'Class',
-      [ReflectionKind.Interface]: 'Interface',
-      [ReflectionKind.Constructor]: 'Constructor',
-      [ReflectionKind.Property]: 'Property',
-      [ReflectionKind.Method]: 'Method',
-      [ReflectionKind.TypeAlias]: 'Type alias',
-    };
+  private getDepth(id: number): number {
+    let depth = 0;
+    let current = this.parentIndex.get(id);
+    while (current !== undefined) {
+      depth++;
+      current = this.parentIndex.get(current);
+    }
+    return depth;
+  }
+}
+
+/**
+ * Converts a human-readable kind to the slug used in stable keys
+ * 
+ * @param kind - Kind string (e.g., "Type alias")
+ * @returns camelCase slug (e.g., "typeAlias")
+ * 
+ * @internal
+ */
+function toKindSlug(kind: string): string {
+  return kind
+    .split(/\s+/)
+    .map((word, i) => i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+}
+
+/**
+ * Normalizes a file name for comparison
+ * 
+ * @param fileName - File name or path
+ * @returns Path with forward slashes and no leading "./"
+ * 
+ * @internal
+ */
+function normalizeFileName(fileName: string): string {
+  return fileName.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Creates predicates that match recorded file names against a path or glob
+ * 
+ * @param pattern - File path or glob (supports `*`, `**` and `?`)
+ * @returns Predicates ordered from most to least specific
+ * 
+ * @remarks
+ * TypeDoc records file names relative to its base path, which is usually
+ * unknown here. The first predicate matches the whole pattern as a path
+ * suffix; each following one drops another leading directory and matches
+ * from the recorded root, so `/repo/src/index.ts` still finds a recorded
+ * `index.ts` when nothing more specific matches.
+ * 
+ * @internal
+ */
+function createFileMatchers(pattern: string): Array<(fileName: string) => boolean> {
+  const segments = normalizeFileName(pattern).split('/');
+  const matchers: Array<(fileName: string) => boolean> = [];
+  
+  for (let i = 0; i < segments.length; i++) {
+    const regex = new RegExp(`${i === 0 ? '(?:^|/)' : '^'}${globToRegExpSource(segments.slice(i).join('/'))}$`);
+    matchers.push(fileName => regex.test(fileName));
     
-    return kindMap[kind] || 'Unknown';
+    // Only literal directories may be dropped, and not down to a bare "**"
+    if (isGlob(segments[i]) || segments.slice(i + 1).every(segment => segment === '**')) break;
   }
-}
\ No newline at end of file
+  
+  return matchers;
+}
@@ -0,0 +1,266 @@
+/**
+ * Inherited documentation
+ * 
+ * @packageDocumentation
+ * @module parser/inherit-doc
+ * 
+ * @remarks
+ * Finds the documentation a member inherits: through `{@inheritDoc Ref}`,
+ * or, when it has no comment of its own, from the interface member it
+ * implements or the base member it overrides or inherits. TypeDoc copies
+ * such comments itself in most cases, but without saying so, and leaves
+ * `{@inheritDoc}` tags it cannot resolve in place; this module fills the
+ * gaps and records where each comment came from.
+ */
+
+import { TypeDocParser } from './index.js';
+import { createLinkResolver } from './links.js';
+import { Comment, CommentTag, Parameter, Reflection, ReflectionKind, Signature, Type } from '../types/typedoc.js';
+
+/**
+ * Where a comment was inherited from
+ */
+export interface DocumentationSource {
+  /** How it was inherited */
+  via: 'inheritDoc' | 'implementationOf' | 'overwrites' | 'inheritedFrom';
+  /** Whether the source was found; an unresolved `{@inheritDoc}` leaves the comment as written */
+  resolved: boolean;
+  /** TypeDoc ID of the member or signature the comment is written on */
+  id?: number;
+  /** Path of the member or signature the comment is written on */
+  path?: string;
+  /** Reference written in the `{@inheritDoc}` tag */
+  reference?: string;
+}
+
+/**
+ * Block tags `{@inheritDoc}` copies from its source, as TSDoc specifies
+ * 
+ * @internal
+ */
+const INHERITED_TAGS = new Set(['@remarks', '@param', '@typeParam', '@template', '@returns']);
+
+/**
+ * Relations a member without a comment inherits it through, in order
+ * 
+ * @internal
+ */
+const RELATIONS = ['implementationOf', 'overwrites', 'inheritedFrom'] as const;
+
+/**
+ * Gives a reflection and its signatures their inherited documentation
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param reflection - A member, function or signature
+ * @returns A copy of the reflection with inherited comments filled in,
+ * and where each inherited comment came from, by reflection or signature ID
+ * 
+ * @remarks
+ * A comment with `{@inheritDoc Ref}` (inline or as a block tag) takes the
+ * summary, `@remarks`, `@param`, `@typeParam` and `@returns` of `Ref`,
+ * keeping its own other tags; a bare `{@inheritDoc}` inherits from the
+ * implemented or overridden member. A reflection or signature with no
+ * comment at all takes that of the member it implements
+ * (`implementationOf`), overrides (`overwrites`) or inherits
+ * (`inheritedFrom`), followed as far as needed. Parameters without a
+ * description take those of the matching parameter of the source
+ * signature.
+ * 
+ * Comments TypeDoc already copied are recognized by being equal to the
+ * source's, and reported the same way.
+ * 
+ * @example
+ * ```typescript
+ * const { reflection, sources } = inheritDocumentation(parser, method);
+ * const signature = reflection.signatures![0];
+ * console.log(signature.comment, sources.get(signature.id)?.path);
+ * ```
+ */
+export function inheritDocumentation(parser: TypeDocParser, reflection: Reflection) {
+  const sources = new Map<number, DocumentationSource>();
+  const resolveLink = createLinkResolver(parser);
+
+  const resolve = (target: Reflection | Signature, visited: Set<number>): Comment | undefined => {
+    if (visited.has(target.id)) return target.comment;
+    visited = new Set([...visited, target.id]);
+
+    const own = target.comment;
+    const reference = inheritDocReference(own);
+
+    if (reference !== undefined) {
+      const found = reference ? resolveLink({ kind: 'inline-tag', tag: '@inheritDoc', text: reference }) : undefined;
+      const source = found?.target ? counterpart(parser, target, parser.getById(found.target.id)) : relatedSource(parser, target)?.source;
+      const inherited = source ? resolve(source, visited) : undefined;
+      if (!source || !inherited) {
+        sources.set(target.id, { via: 'inheritDoc', resolved: false, reference: reference || undefined });
+        return own;
+      }
+
+      sources.set(target.id, describeSource(parser, source, 'inheritDoc', reference || undefined));
+      return mergeInherited(own!, inherited);
+    }
+
+    if (!isEmpty(own)) {
+      // TypeDoc copies inherited comments without saying so
+      const copied = relatedSource(parser, target);
+      if (copied && JSON.stringify(copied.source.comment) === JSON.stringify(own)) {
+        sources.set(target.id, describeSource(parser, copied.source, copied.via));
+      }
+      return own;
+    }
+
+    for (const via of RELATIONS) {
+      const source = counterpart(parser, target, parser.resolveType(target[via] as Type | undefined));
+      const inherited = source ? resolve(source, visited) : undefined;
+      if (source && !isEmpty(inherited)) {
+        sources.set(target.id, describeSource(parser, source, via));
+        return inherited;
+      }
+    }
+
+    return own;
+  };
+
+  const withComment = <T extends Reflection | Signature>(target: T): T => {
+    const comment = resolve(target, new Set());
+    const source = sources.get(target.id);
+    if (comment === target.comment && !source?.id) return target;
+
+    const parameters = source?.id !== undefined ? inheritParameters(target.parameters, parser.getById(source.id)) : target.parameters;
+    return { ...target, comment, parameters };
+  };
+
+  const documented: Reflection = { ...withComment(reflection) };
+  if (documented.signatures) {
+    documented.signatures = documented.signatures.map(withComment);
+  }
+  if (documented.getSignature) {
+    documented.getSignature = withComment(documented.getSignature);
+  }
+  if (documented.setSignature) {
+    documented.setSignature = withComment(documented.setSignature);
+  }
+
+  return { reflection: documented, sources };
+}
+
+/**
+ * Gets the reference of an `{@inheritDoc}` tag in a comment
+ * 
+ * @returns The reference, an empty string for a bare tag, or undefined if
+ * the comment has no such tag
+ * 
+ * @internal
+ */
+function inheritDocReference(comment: Comment | undefined): string | undefined {
+  const inline = comment?.summary?.find(part => part.kind === 'inline-tag' && part.tag?.toLowerCase() === '@inheritdoc');
+  if (inline) return inline.text.trim();
+
+  const block = comment?.blockTags?.find(tag => tag.tag.toLowerCase() === '@inheritdoc');
+  if (block) return block.content.map(part => part.text).join('').trim().split(/\s/)[0];
+
+  return undefined;
+}
+
+/**
+ * Combines a comment with `{@inheritDoc}` and the comment it inherits
+ * 
+ * @internal
+ */
+function mergeInherited(own: Comment, inherited: Comment): Comment {
+  const ownTags = (own.blockTags || []).filter(tag => tag.tag.toLowerCase() !== '@inheritdoc');
+  const key = (tag: CommentTag) => `${tag.tag} ${tag.name ?? ''}`;
+  const written = new Set(ownTags.map(key));
+  const copied = (inherited.blockTags || []).filter(tag => INHERITED_TAGS.has(tag.tag) && !written.has(key(tag)));
+
+  return { ...own, summary: inherited.summary, blockTags: [...copied, ...ownTags] };
+}
+
+/**
+ * Finds the first member a reflection or signature implements, overrides
+ * or inherits
+ * 
+ * @internal
+ */
+function relatedSource(parser: TypeDocParser, target: Reflection | Signature) {
+  for (const via of RELATIONS) {
+    const source = counterpart(parser, target, parser.resolveType(target[via] as Type | undefined));
+    if (source) return { source, via };
+  }
+  return undefined;
+}
+
+/**
+ * Picks the part of a source that corresponds to a target
+ * 
+ * @param target - The reflection or signature inheriting documentation
+ * @param source - The member or signature it inherits from
+ * @returns For a signature inheriting from a member, the member's
+ * signature in the same position, or with as many parameters, and for an
+ * accessor signature the member's accessor of the same kind; otherwise
+ * the source itself
+ * 
+ * @internal
+ */
+function counterpart(parser: TypeDocParser, target: Reflection | Signature, source: Reflection | null): Reflection | Signature | null {
+  if (!source || !isSignature(target) || isSignature(source)) return source;
+  if (target.kind === ReflectionKind.GetSignature) return source.getSignature ?? null;
+  if (target.kind === ReflectionKind.SetSignature) return source.setSignature ?? null;
+  if (!source.signatures?.length) return source;
+
+  const index = Number(/#signature-(\d+)$/.exec(parser.findById(target.id)?.path || '')?.[1] ?? 1) - 1;
+  const count = target.parameters?.length ?? 0;
+  return source.signatures[index] ??
+    source.signatures.find(signature => (signature.parameters?.length ?? 0) === count) ??
+    source.signatures[0];
+}
+
+/**
+ * Fills in parameter descriptions from the matching source parameters
+ * 
+ * @internal
+ */
+function inheritParameters(parameters: Parameter[] | undefined, source: Reflection | null): Parameter[] | undefined {
+  if (!parameters || !source?.parameters) return parameters;
+
+  return parameters.map((parameter, i) => {
+    const inherited = source.parameters!.find(p => p.name === parameter.name) ?? source.parameters![i];
+    return isEmpty(parameter.comment) && inherited?.comment ? { ...parameter, comment: inherited.comment } : parameter;
+  });
+}
+
+/**
+ * Describes the reflection a comment was inherited from
+ * 
+ * @internal
+ */
+function describeSource(
+  parser: TypeDocParser,
+  source: Reflection | Signature,
+  via: DocumentationSource['via'],
+  reference?: string
+): DocumentationSource {
+  return { via, resolved: true, id: source.id, path: parser.findById(source.id)?.path || source.name, reference };
+}
+
+/**
+ * Whether a comment says nothing
+ * 
+ * @internal
+ */
+function isEmpty(comment: Comment | undefined): boolean {
+  if (!comment) return true;
+  const summary = (comment.summary || []).map(part => part.text).join('').trim();
+  return !summary && !comment.blockTags?.length;
+}
+
+/**
+ * Whether a reflection is a signature
+ * 
+ * @internal
+ */
+function isSignature(reflection: Reflection | Signature): boolean {
+  const signatureKinds = ReflectionKind.CallSignature | ReflectionKind.ConstructorSignature |
+    ReflectionKind.GetSignature | ReflectionKind.SetSignature;
+  return (reflection.kind & signatureKinds) !== 0;
+}
@@ -0,0 +1,464 @@
+/**
+ * Streaming reader for TypeDoc JSON files
+ * 
+ * @packageDocumentation
+ * @module parser/json-stream
+ * 
+ * @remarks
+ * This module reads a TypeDoc JSON file in chunks and hands each reflection
+ * to a callback as soon as it has been read, together with its byte range in
+ * the file. Only the reflections on the current path from the root are held in
+ * memory at any time, which keeps memory bounded for very large documentation
+ * files. Full reflection bodies can later be re-read from their byte range,
+ * through a {@link pinFile | pinned} descriptor of the file that replacing
+ * the file cannot change.
+ */
+
+import { createReadStream, openSync, read, readSync, closeSync, fstatSync } from 'fs';
+import { Reflection } from '../types/typedoc.js';
+
+/**
+ * Byte range of a value in a file (end exclusive)
+ */
+export interface ByteRange {
+  /** Offset of the first byte */
+  start: number;
+  /** Offset just past the last byte */
+  end: number;
+}
+
+/**
+ * File kept open for reading byte ranges, as it was when opened
+ */
+export interface PinnedFile {
+  /** Path the file was opened from */
+  path: string;
+  /** Open descriptor of the file */
+  fd: number;
+  /** Size when opened */
+  size: number;
+  /** Modification time when opened */
+  mtimeMs: number;
+}
+
+/**
+ * Callback invoked for every reflection read from the stream
+ * 
+ * @param node - The reflection, without its `children` array
+ * @param childIds - IDs of its children, in document order
+ * @param range - Byte range of the complete reflection, children included
+ */
+export type ReflectionCallback = (node: Reflection, childIds: number[], range: ByteRange) => void;
+
+/**
+ * Container being filled while reading
+ * 
+ * @internal
+ */
+interface Frame {
+  /** Object or array under construction */
+  value: any;
+  /** Whether the value is an array */
+  isArray: boolean;
+  /** Whether the value is a reflection (the root or an element of `children`) */
+  isReflection: boolean;
+  /** Whether the value is a `children` array of a reflection */
+  isChildren: boolean;
+  /** Pending object key, once read */
+  key: string | null;
+  /** Child IDs collected for reflections */
+  childIds: number[];
+  /** Byte offset of the opening bracket */
+  start: number;
+}
+
+/** Byte values used by the scanner */
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+
+/**
+ * JSON number grammar; `Number()` alone also accepts hex, `Infinity` and more
+ * 
+ * @internal
+ */
+const NUMBER_PATTERN = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * What the scanner read last, which decides what may follow
+ * 
+ * @internal
+ */
+type ScanState = 'start' | 'open' | 'key' | 'colon' | 'value' | 'comma' | 'end';
+
+/**
+ * Reads a TypeDoc JSON file, reporting each reflection as it completes
+ * 
+ * @param filePath - Path to the TypeDoc JSON file, or an open descriptor of it
+ * @param onReflection - Called once per reflection, children before parents
+ * @returns The project root, without its `children` array
+ * 
+ * @throws Error if the file is not valid JSON or its root is not an object;
+ * the message ends with the byte offset of the problem (`at byte N`)
+ * 
+ * @remarks
+ * Reflections are the root object and every object in a reflection's
+ * `children` array. Everything else (signatures, types, comments) is
+ * materialized as part of the reflection that contains it.
+ * 
+ * The file is checked against the JSON grammar as it is read, including
+ * separators, bracket pairs and number syntax, so that a file accepted
+ * here is one `JSON.parse` would accept too.
+ * 
+ * @example
+ * ```typescript
+ * const root = await streamReflections('./docs/typedoc.json', (node, childIds, range) => {
+ *   console.log(`${node.name}: ${childIds.length} children at ${range.start}`);
+ * });
+ * ```
+ */
+export async function streamReflections(filePath: string | number, onReflection: ReflectionCallback): Promise<Reflection> {
+  const stack: Frame[] = [];
+  let root: Reflection | null = null;
+
+  // Scanner state carried across chunks
+  let offset = 0;
+  let position = 0;
+  let inString = false;
+  let escaped = false;
+  let hasEscapes = false;
+  let stringPieces: Buffer[] = [];
+  let literal = '';
+  let state = 'start' as ScanState;
+
+  // Values (and keys) may only start where the grammar expects one
+  const begin = (token: string, at: number) => {
+    if (state !== 'start' && state !== 'open' && state !== 'comma' && state !== 'colon') {
+      throw new Error(`Unexpected ${token} at byte ${at}`);
+    }
+  };
+
+  const emit = (value: any) => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      throw new Error(`Unexpected value at byte ${position}`);
+    }
+    if (top.isArray) {
+      top.value.push(value);
+      state = 'value';
+    } else if (top.key === null) {
+      if (typeof value !== 'string') {
+        throw new Error(`Expected an object key at byte ${position}`);
+      }
+      top.key = value;
+      state = 'key';
+    } else {
+      top.value[top.key] = value;
+      top.key = null;
+      state = 'value';
+    }
+  };
+
+  const flushLiteral = () => {
+    if (!literal) return;
+    const start = position - literal.length;
+    begin(`token "${literal}"`, start);
+    let value: any;
+    if (literal === 'true') value = true;
+    else if (literal === 'false') value = false;
+    else if (literal === 'null') value = null;
+    else if (NUMBER_PATTERN.test(literal)) value = Number(literal);
+    else {
+      throw new Error(`Unexpected token "${literal}" at byte ${start}`);
+    }
+    literal = '';
+    emit(value);
+  };
+
+  const open = (isArray: boolean, position: number) => {
+    flushLiteral();
+    begin(isArray ? '"["' : '"{"', position);
+    state = 'open';
+    const top = stack[stack.length - 1];
+    const isReflection = !isArray && (!top || top.isChildren);
+    const isChildren = isArray && !!top && top.isReflection && top.key === 'children';
+    stack.push({
+      value: isArray ? [] : {},
+      isArray,
+      isReflection,
+      isChildren,
+      key: null,
+      childIds: [],
+      start: position,
+    });
+  };
+
+  const close = (isArray: boolean, position: number) => {
+    flushLiteral();
+    const frame = stack.pop();
+    if (!frame || frame.isArray !== isArray || (state !== 'value' && state !== 'open')) {
+      throw new Error(`Unexpected closing bracket at byte ${position}`);
+    }
+    const parent = stack[stack.length - 1];
+    state = parent ? 'value' : 'end';
+
+    if (frame.isReflection) {
+      const node = frame.value as Reflection;
+      onReflection(node, frame.childIds, { start: frame.start, end: position + 1 });
+
+      if (!parent) {
+        root = node;
+      } else {
+        // Children are reported individually, so the array keeps nothing
+        stack[stack.length - 2].childIds.push(node.id);
+      }
+      return;
+    }
+
+    if (frame.isChildren) {
+      // Drop the key without storing the (empty) array
+      parent.key = null;
+      return;
+    }
+
+    if (!parent) {
+      throw new Error(`TypeDoc JSON root must be an object at byte ${frame.start}`);
+    }
+    emit(frame.value);
+  };
+
+  const finishString = (chunk: Buffer, from: number, to: number) => {
+    let raw: string;
+    if (stringPieces.length === 0) {
+      raw = chunk.toString('utf8', from, to);
+    } else {
+      stringPieces.push(chunk.subarray(from, to));
+      raw = Buffer.concat(stringPieces).toString('utf8');
+      stringPieces = [];
+    }
+    let value = raw;
+    if (hasEscapes) {
+      try {
+        value = JSON.parse(`"${raw}"`);
+      } catch {
+        throw new Error(`Invalid escape in string at byte ${position}`);
+      }
+    }
+    emit(value);
+  };
+
+  const stream = openReadStream(filePath, 1024 * 1024);
+
+  for await (const data of stream) {
+    const chunk = data as Buffer;
+    let stringStart = inString ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+      position = offset + i;
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (byte === BACKSLASH) {
+          escaped = true;
+          hasEscapes = true;
+        } else if (byte === QUOTE) {
+          inString = false;
+          finishString(chunk, stringStart, i);
+          stringStart = -1;
+        } else if (byte < 0x20) {
+          throw new Error(`Unescaped control character in string at byte ${position}`);
+        }
+        continue;
+      }
+
+      switch (byte) {
+        case QUOTE:
+          flushLiteral();
+          begin('string', position);
+          inString = true;
+          hasEscapes = false;
+          stringStart = i + 1;
+          break;
+        case OPEN_BRACE:
+          open(false, offset + i);
+          break;
+        case OPEN_BRACKET:
+          open(true, offset + i);
+          break;
+        case CLOSE_BRACE:
+          close(false, offset + i);
+          break;
+        case CLOSE_BRACKET:
+          close(true, offset + i);
+          break;
+        case COMMA:
+          flushLiteral();
+          if (state !== 'value' || stack.length === 0) {
+            throw new Error(`Unexpected "," at byte ${position}`);
+          }
+          state = 'comma';
+          break;
+        case COLON:
+          flushLiteral();
+          if (state !== 'key') {
+            throw new Error(`Unexpected ":" at byte ${position}`);
+          }
+          state = 'colon';
+          break;
+        case 0x20: case 0x09: case 0x0a: case 0x0d:
+          flushLiteral();
+          break;
+        default:
+          literal += String.fromCharCode(byte);
+      }
+    }
+
+    if (inString) {
+      stringPieces.push(chunk.subarray(stringStart));
+    }
+    offset += chunk.length;
+  }
+
+  position = offset;
+  flushLiteral();
+  if (inString || stack.length > 0 || !root) {
+    throw new Error(`Unexpected end of TypeDoc JSON at byte ${offset}`);
+  }
+
+  return root;
+}
+
+/**
+ * Reads and parses the JSON value stored at a byte range of a file
+ * 
+ * @param filePath - Path to the JSON file, or an open descriptor of it
+ * @param range - Byte range recorded by {@link streamReflections}
+ * @returns The parsed value
+ * 
+ * @throws Error if the range lies beyond the end of the file or does not
+ * hold a JSON value
+ * 
+ * @remarks
+ * This is synchronous so that lazily loaded reflections can be served from
+ * synchronous lookups. Ranges are only valid for the file contents they were
+ * recorded from, which is why they are read through a {@link pinFile |
+ * pinned} descriptor rather than by opening the file again.
+ */
+export function readJsonRange(filePath: string | number, range: ByteRange): any {
+  const length = range.end - range.start;
+  const buffer = Buffer.alloc(length);
+  const fd = typeof filePath === 'number' ? filePath : openSync(filePath, 'r');
+  let read = 0;
+
+  try {
+    while (read < length) {
+      const bytes = readSync(fd, buffer, read, length - read, range.start + read);
+      if (bytes === 0) break;
+      read += bytes;
+    }
+  } finally {
+    if (fd !== filePath) closeSync(fd);
+  }
+
+  if (read < length) {
+    throw new Error(`Byte range ${range.start}-${range.end} lies beyond the end of the file`);
+  }
+  return JSON.parse(buffer.toString('utf8'));
+}
+
+/**
+ * Opens a file and records its size and modification time
+ * 
+ * @param filePath - Path to the file
+ * @returns The open file
+ * 
+ * @throws Error if the file cannot be opened
+ * 
+ * @remarks
+ * Byte ranges recorded while streaming are read long after parsing. The
+ * descriptor keeps reading the file that was parsed when it is replaced
+ * (written to a new file and renamed over the old one), without a copy
+ * of a potentially huge file. A file rewritten in place cannot be read
+ * back as it was; {@link isPinnedFileChanged} tells when that happened.
+ * 
+ * @example
+ * ```typescript
+ * const pinned = pinFile('./docs/typedoc.json');
+ * try {
+ *   await streamReflections(pinned.fd, (node, childIds, range) => ranges.set(node.id, range));
+ *   if (!isPinnedFileChanged(pinned)) {
+ *     const body = readJsonRange(pinned.fd, ranges.get(id)!);
+ *   }
+ * } finally {
+ *   releasePinnedFile(pinned);
+ * }
+ * ```
+ */
+export function pinFile(filePath: string): PinnedFile {
+  const fd = openSync(filePath, 'r');
+  try {
+    const { size, mtimeMs } = fstatSync(fd);
+    return { path: filePath, fd, size, mtimeMs };
+  } catch (error) {
+    closeSync(fd);
+    throw error;
+  }
+}
+
+/**
+ * Checks whether a pinned file was rewritten in place since it was opened
+ * 
+ * @param pinned - The pinned file
+ * @returns True if its size or modification time changed
+ */
+export function isPinnedFileChanged(pinned: PinnedFile): boolean {
+  const { size, mtimeMs } = fstatSync(pinned.fd);
+  return size !== pinned.size || mtimeMs !== pinned.mtimeMs;
+}
+
+/**
+ * Closes a pinned file
+ * 
+ * @param pinned - The pinned file
+ */
+export function releasePinnedFile(pinned: PinnedFile): void {
+  try {
+    closeSync(pinned.fd);
+  } catch {
+    // Already closed
+  }
+}
+
+/**
+ * File system calls for streams over a descriptor they do not own
+ * 
+ * @remarks
+ * A destroyed stream closes its descriptor even with `autoClose: false`,
+ * which happens whenever reading stops early, so `close` does nothing here.
+ * 
+ * @internal
+ */
+const BORROWED_FD_FS = {
+  read,
+  close: (_fd: number, callback: (error: NodeJS.ErrnoException | null) => void) => callback(null),
+};
+
+/**
+ * Opens a read stream over a file, by path or from the start of an open descriptor
+ * 
+ * @param filePath - Path to the file, or an open descriptor, which stays open
+ * @param highWaterMark - Chunk size
+ * @returns The stream
+ */
+export function openReadStream(filePath: string | number, highWaterMark?: number) {
+  return typeof filePath === 'number'
+    ? createReadStream('', { fd: filePath, fs: BORROWED_FD_FS, start: 0, autoClose: false, highWaterMark })
+    : createReadStream(filePath, { highWaterMark });
+}
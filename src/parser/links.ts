@@ -0,0 +1,83 @@
+/**
+ * Inline link resolution
+ * 
+ * @packageDocumentation
+ * @module parser/links
+ * 
+ * @remarks
+ * Finds the documented symbol an inline `{@link}` tag points to, for the
+ * {@link createCommentRenderer | comment renderer}.
+ */
+
+import { ParsedSymbol, TypeDocParser } from './index.js';
+import { LinkResolution, LinkResolver } from '../printer/comment-renderer.js';
+import { CommentDisplayPart } from '../types/typedoc.js';
+
+/**
+ * Creates a link resolver for a project
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @returns A resolver that follows TypeDoc's `target` where it resolved
+ * the link, and otherwise looks the linked name up
+ * 
+ * @remarks
+ * TypeDoc leaves links it could not resolve, and links to symbols it did
+ * not document, without a numeric target. Those are looked up by the name
+ * written in the tag, or by the declaration name TypeDoc 0.26 gives in
+ * `targetSymbol`: first as a full path, then by their last segment,
+ * preferring symbols whose path ends with the name. TSDoc member references
+ * (`Class#member`) are read as paths (`Class.member`).
+ * 
+ * @example
+ * ```typescript
+ * const renderer = createCommentRenderer({ resolveLink: createLinkResolver(parser) });
+ * ```
+ */
+export function createLinkResolver(parser: TypeDocParser): LinkResolver {
+  const describe = (symbol: ParsedSymbol, resolvedBy: LinkResolution['resolvedBy']): LinkResolution => ({
+    target: { id: symbol.id, path: symbol.path, kind: symbol.kind },
+    resolvedBy,
+  });
+
+  return part => {
+    if (typeof part.target === 'number') {
+      const symbol = parser.findById(part.target);
+      if (symbol) return describe(symbol, 'target');
+    }
+
+    for (const name of linkNames(part)) {
+      const symbol = findLinked(parser, name);
+      if (symbol) return describe(symbol, 'name');
+    }
+
+    return undefined;
+  };
+}
+
+/**
+ * Lists the names a link may refer to, most specific first
+ * 
+ * @internal
+ */
+function linkNames(part: CommentDisplayPart): string[] {
+  const written = part.text.split('|')[0].trim();
+  const names = [part.targetSymbol?.qualifiedName, written]
+    .filter((name): name is string => !!name)
+    .map(name => name.replace(/#/g, '.').replace(/^\.+|\.+$/g, ''));
+
+  return [...new Set(names)].filter(name => /^[\w$.]+$/.test(name));
+}
+
+/**
+ * Finds the symbol a name refers to
+ * 
+ * @internal
+ */
+function findLinked(parser: TypeDocParser, name: string): ParsedSymbol | null {
+  const byPath = parser.findByPath(name);
+  if (byPath) return byPath;
+
+  const candidates = parser.findByName(name.split('.').pop()!);
+  return candidates.find(symbol => symbol.path.endsWith(`.${name}`)) ||
+    (name.includes('.') ? null : candidates[0]) || null;
+}
@@ -0,0 +1,483 @@
+/**
+ * TypeDoc JSON schema adapters
+ * 
+ * @packageDocumentation
+ * @module parser/schema
+ * 
+ * @remarks
+ * TypeDoc's JSON output changes between releases. 0.24 added `variant`,
+ * stopped writing `kindString` and renamed reference type IDs to `target`;
+ * 0.25 dropped the `ObjectLiteral` kind, renumbering type aliases and
+ * references; 0.26 added `schemaVersion`, project files and documents, made index
+ * signatures a list and changed the shape of symbol IDs. This module works
+ * out which release wrote a file and normalizes what it reads into the one
+ * model in `types/typedoc`, so the parser and the tools deal with a single
+ * shape whatever TypeDoc produced the file.
+ */
+
+import { promises as fs, readSync } from 'fs';
+import {
+  CommentDisplayPart,
+  DocumentReflection,
+  Reflection,
+  ReflectionKind,
+  SymbolId,
+  TypeDocJSON,
+} from '../types/typedoc.js';
+
+/**
+ * Normalizes documents written by one range of TypeDoc releases
+ * 
+ * @example
+ * ```typescript
+ * const adapter = detectSchema(await readSchemaHead('./docs/typedoc.json'));
+ * const doc = adapter.normalizeProject(JSON.parse(content));
+ * adapter.normalizeReflection(doc as Reflection);
+ * ```
+ */
+export interface SchemaAdapter {
+  /** TypeDoc releases the adapter reads (e.g., "0.24-0.25") */
+  readonly versions: string;
+  /**
+   * Normalizes project-level fields: readme, symbol IDs, files and documents
+   * 
+   * @throws Error if the project was written with an unsupported schema version
+   */
+  normalizeProject(root: any): TypeDocJSON;
+  /**
+   * Normalizes a reflection in place, with its signatures, parameters,
+   * types, documents and any children it still holds
+   * 
+   * @throws Error if the reflection has a comment in the pre-0.23 format
+   */
+  normalizeReflection(node: any): Reflection;
+}
+
+/**
+ * Differences of one range of TypeDoc releases from the internal model
+ * 
+ * @internal
+ */
+interface SchemaRules {
+  /** Reflections have no `variant` and reference types use `id` (0.23) */
+  legacyIds: boolean;
+  /** Symbol IDs carry `packagePath` instead of `sourceFileName` (0.26+) */
+  packageSymbolIds: boolean;
+  /** Kinds numbered differently from {@link ReflectionKind}, by the number written */
+  kinds?: Map<number, ReflectionKind>;
+  /** Kinds may be numbered as in 0.24 or as in 0.25, told apart by `variant` */
+  kindsByVariant?: boolean;
+}
+
+/**
+ * Kind numbers of TypeDoc 0.23 and 0.24, which still had `ObjectLiteral`
+ * 
+ * @remarks
+ * No converter of those releases creates object literal reflections; the
+ * closest kind today is a type literal.
+ * 
+ * @internal
+ */
+const KINDS_BEFORE_0_25 = new Map<number, ReflectionKind>([
+  [2097152, ReflectionKind.TypeLiteral],
+  [4194304, ReflectionKind.TypeAlias],
+  [8388608, ReflectionKind.Reference],
+]);
+
+/**
+ * Kind of a reflection with `variant: "reference"` in 0.24 and in 0.25
+ * 
+ * @internal
+ */
+const REFERENCE_KIND_0_24 = 8388608;
+const REFERENCE_KIND_0_25 = 4194304;
+
+/**
+ * Number of bytes read from the start of a file to detect its schema
+ */
+export const SCHEMA_HEAD_BYTES = 64 * 1024;
+
+/**
+ * Major versions of `schemaVersion` that can be read
+ * 
+ * @internal
+ */
+const SUPPORTED_SCHEMA_MAJORS = ['2'];
+
+/**
+ * Human-readable names of reflection kinds
+ * 
+ * @internal
+ */
+const KIND_NAMES = new Map<number, string>([
+  [ReflectionKind.Project, 'Project'],
+  [ReflectionKind.Module, 'Module'],
+  [ReflectionKind.Namespace, 'Namespace'],
+  [ReflectionKind.Enum, 'Enum'],
+  [ReflectionKind.EnumMember, 'Enum member'],
+  [ReflectionKind.Variable, 'Variable'],
+  [ReflectionKind.Function, 'Function'],
+  [ReflectionKind.Class, 'Class'],
+  [ReflectionKind.Interface, 'Interface'],
+  [ReflectionKind.Constructor, 'Constructor'],
+  [ReflectionKind.Property, 'Property'],
+  [ReflectionKind.Method, 'Method'],
+  [ReflectionKind.CallSignature, 'Call signature'],
+  [ReflectionKind.IndexSignature, 'Index signature'],
+  [ReflectionKind.ConstructorSignature, 'Constructor signature'],
+  [ReflectionKind.Parameter, 'Parameter'],
+  [ReflectionKind.TypeLiteral, 'Type literal'],
+  [ReflectionKind.TypeParameter, 'Type parameter'],
+  [ReflectionKind.Accessor, 'Accessor'],
+  [ReflectionKind.GetSignature, 'Get signature'],
+  [ReflectionKind.SetSignature, 'Set signature'],
+  [ReflectionKind.TypeAlias, 'Type alias'],
+  [ReflectionKind.Reference, 'Reference'],
+  [ReflectionKind.Document, 'Document'],
+]);
+
+/**
+ * Kinds whose reflections are signatures
+ * 
+ * @internal
+ */
+const SIGNATURE_KINDS = ReflectionKind.CallSignature | ReflectionKind.IndexSignature |
+  ReflectionKind.ConstructorSignature | ReflectionKind.GetSignature | ReflectionKind.SetSignature;
+
+/**
+ * Gets the human-readable name of a reflection kind
+ * 
+ * @param kind - Numeric kind (see {@link ReflectionKind})
+ * @returns The kind's name, or "Unknown"
+ */
+export function getKindName(kind: number): string {
+  return KIND_NAMES.get(kind) || 'Unknown';
+}
+
+/**
+ * Reads the start of a TypeDoc JSON file for {@link detectSchema}
+ * 
+ * @param filePath - Path to the TypeDoc JSON file, or an open descriptor of it
+ * @returns Up to {@link SCHEMA_HEAD_BYTES} of the file as text
+ */
+export async function readSchemaHead(filePath: string | number): Promise<string> {
+  const buffer = Buffer.alloc(SCHEMA_HEAD_BYTES);
+  if (typeof filePath === 'number') {
+    const bytesRead = readSync(filePath, buffer, 0, SCHEMA_HEAD_BYTES, 0);
+    return buffer.toString('utf-8', 0, bytesRead);
+  }
+
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { bytesRead } = await handle.read(buffer, 0, SCHEMA_HEAD_BYTES, 0);
+    return buffer.toString('utf-8', 0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Works out which TypeDoc release wrote a file
+ * 
+ * @param head - Start of the file (see {@link readSchemaHead})
+ * @returns Adapter for the release
+ * 
+ * @throws Error if the file was written by TypeDoc 0.22 or earlier, or with
+ * a `schemaVersion` this server does not understand
+ * 
+ * @remarks
+ * TypeDoc 0.26 and later write `schemaVersion` as the first property of the
+ * project. For older files the version is inferred: 0.24 and 0.25 write a
+ * `variant` on every reflection, 0.23 does not. Files whose comments still
+ * use `shortText` and `tags` come from 0.22 or earlier.
+ * 
+ * 0.24 and 0.25 number kinds differently, which shows in the kind of a
+ * re-export (`variant: "reference"`), or of a type alias in 0.24. When the
+ * head of the file has neither, kinds are told apart per reflection by
+ * their `variant` instead.
+ * 
+ * @example
+ * ```typescript
+ * detectSchema('{"schemaVersion":"2.0","id":0,...').versions; // "0.26+"
+ * detectSchema('{"id":0,"name":"x","variant":"project",..."variant":"reference","kind":4194304,...').versions; // "0.25"
+ * ```
+ */
+export function detectSchema(head: string): SchemaAdapter {
+  const schemaVersion = /"schemaVersion"\s*:\s*"([^"]*)"/.exec(head)?.[1];
+  if (schemaVersion !== undefined) {
+    checkSchemaVersion(schemaVersion);
+    return ADAPTER_0_26;
+  }
+
+  if (/"shortText"\s*:|"readme"\s*:\s*"|"tags"\s*:\s*\[\s*\{\s*"tag"/.test(head)) {
+    throw legacyFormatError();
+  }
+
+  if (!/"variant"\s*:\s*"project"/.test(head)) {
+    return ADAPTER_0_23;
+  }
+
+  const referenceKind = Number(/"variant"\s*:\s*"reference"\s*,\s*"kind"\s*:\s*(\d+)/.exec(head)?.[1]);
+  if (referenceKind === REFERENCE_KIND_0_24) return ADAPTER_0_24;
+  if (referenceKind === REFERENCE_KIND_0_25) return ADAPTER_0_25;
+  // Only 0.24 writes declarations of this kind (type aliases)
+  if (/"variant"\s*:\s*"declaration"\s*,\s*"kind"\s*:\s*4194304\b/.test(head)) {
+    return ADAPTER_0_24;
+  }
+  return ADAPTER_0_24_OR_0_25;
+}
+
+/**
+ * Refuses schema versions this server does not understand
+ * 
+ * @param schemaVersion - The file's `schemaVersion`
+ * 
+ * @throws Error if the major version is not supported
+ * 
+ * @internal
+ */
+function checkSchemaVersion(schemaVersion: string): void {
+  const major = schemaVersion.split('.')[0];
+  if (!SUPPORTED_SCHEMA_MAJORS.includes(major)) {
+    throw new Error(
+      `Unsupported TypeDoc JSON schema version "${schemaVersion}". ` +
+      `This server reads output of TypeDoc 0.23 through 0.26+ (schema ${SUPPORTED_SCHEMA_MAJORS.map(m => `${m}.x`).join(', ')}); ` +
+      'upgrade the server or regenerate the documentation with a supported TypeDoc release.'
+    );
+  }
+}
+
+/**
+ * Error for files written by TypeDoc 0.22 or earlier
+ * 
+ * @internal
+ */
+function legacyFormatError(): Error {
+  return new Error(
+    'This TypeDoc JSON was written by TypeDoc 0.22 or earlier, whose format is not supported. ' +
+    'Regenerate the documentation with TypeDoc 0.23 or later.'
+  );
+}
+
+/**
+ * Creates an adapter from the differences of its releases
+ * 
+ * @param versions - Releases the adapter reads
+ * @param rules - How those releases differ from the internal model
+ * @returns The adapter
+ * 
+ * @internal
+ */
+function createAdapter(versions: string, rules: SchemaRules): SchemaAdapter {
+  return {
+    versions,
+    normalizeProject: root => normalizeProject(root, rules),
+    normalizeReflection: node => normalizeReflection(node, rules),
+  };
+}
+
+/** TypeDoc 0.23: `kindString` on every reflection, no `variant`, reference types use `id` */
+const ADAPTER_0_23 = createAdapter('0.23', { legacyIds: true, packageSymbolIds: false, kinds: KINDS_BEFORE_0_25 });
+/** TypeDoc 0.24: `variant` instead of `kindString`, file-based symbol IDs, old kind numbers */
+const ADAPTER_0_24 = createAdapter('0.24', { legacyIds: false, packageSymbolIds: false, kinds: KINDS_BEFORE_0_25 });
+/** TypeDoc 0.25: as 0.24, with today's kind numbers */
+const ADAPTER_0_25 = createAdapter('0.25', { legacyIds: false, packageSymbolIds: false });
+/** TypeDoc 0.24 or 0.25, where the start of the file does not tell which */
+const ADAPTER_0_24_OR_0_25 = createAdapter('0.24-0.25', { legacyIds: false, packageSymbolIds: false, kindsByVariant: true });
+/** TypeDoc 0.26 and later: `schemaVersion`, files, documents and package-based symbol IDs */
+const ADAPTER_0_26 = createAdapter('0.26+', { legacyIds: false, packageSymbolIds: true });
+
+/**
+ * Normalizes the project-level fields of a document
+ * 
+ * @internal
+ */
+function normalizeProject(root: any, rules: SchemaRules): TypeDocJSON {
+  if (!root || typeof root !== 'object') {
+    throw new Error('TypeDoc JSON root is not an object');
+  }
+  if (typeof root.schemaVersion === 'string') {
+    checkSchemaVersion(root.schemaVersion);
+  }
+
+  if (typeof root.readme === 'string') {
+    throw legacyFormatError();
+  }
+  root.readme?.forEach((part: any) => normalizePart(part));
+
+  if (root.symbolIdMap && rules.packageSymbolIds) {
+    for (const [id, symbol] of Object.entries(root.symbolIdMap)) {
+      root.symbolIdMap[id] = toSymbolId(symbol);
+    }
+  }
+
+  root.variant ??= 'project';
+  return root;
+}
+
+/**
+ * Normalizes a reflection, and everything nested in it, in place
+ * 
+ * @internal
+ */
+function normalizeReflection(node: any, rules: SchemaRules): Reflection {
+  if (!node || typeof node !== 'object') return node;
+
+  node.kind = normalizeKind(node, rules);
+  node.kindString ??= getKindName(node.kind);
+  if (rules.legacyIds) {
+    node.variant ??= getVariant(node.kind);
+  }
+
+  // Signatures call them `typeParameter` before 0.26
+  if (node.typeParameter) {
+    node.typeParameters ??= node.typeParameter;
+    delete node.typeParameter;
+  }
+  // A single `indexSignature` before 0.26
+  if (node.indexSignature) {
+    node.indexSignatures ??= [node.indexSignature];
+    delete node.indexSignature;
+  }
+
+  normalizeComment(node.comment);
+
+  for (const field of ['type', 'overwrites', 'inheritedFrom', 'implementationOf', 'constraint', 'default']) {
+    normalizeType(node[field], rules);
+  }
+  for (const field of ['extendedTypes', 'implementedTypes', 'extendedBy', 'implementedBy']) {
+    node[field]?.forEach((type: any) => normalizeType(type, rules));
+  }
+
+  for (const field of ['signatures', 'indexSignatures', 'parameters', 'typeParameters', 'children']) {
+    node[field]?.forEach((child: any) => normalizeReflection(child, rules));
+  }
+  normalizeReflection(node.getSignature, rules);
+  normalizeReflection(node.setSignature, rules);
+
+  node.documents?.forEach((document: any) => normalizeDocument(document, rules));
+  return node;
+}
+
+/**
+ * Gets the {@link ReflectionKind} of a reflection from the number written
+ * 
+ * @remarks
+ * When the release may be 0.24 or 0.25, the numbers clash for `4194304`,
+ * which is a type alias in 0.24 and a re-export in 0.25; re-exports say
+ * so in their `variant`.
+ * 
+ * @internal
+ */
+function normalizeKind(node: any, rules: SchemaRules): number {
+  if (rules.kinds) return rules.kinds.get(node.kind) ?? node.kind;
+  if (!rules.kindsByVariant) return node.kind;
+
+  if (node.variant === 'reference') return ReflectionKind.Reference;
+  if (node.kind === REFERENCE_KIND_0_25) return ReflectionKind.TypeAlias;
+  if (node.kind === REFERENCE_KIND_0_24) return ReflectionKind.Reference;
+  return node.kind;
+}
+
+/**
+ * Normalizes a type, and every type and declaration nested in it, in place
+ * 
+ * @internal
+ */
+function normalizeType(type: any, rules: SchemaRules): void {
+  if (!type || typeof type !== 'object') return;
+
+  if (type.type === 'reference') {
+    if (rules.legacyIds && type.id !== undefined) {
+      type.target ??= type.id;
+      delete type.id;
+    } else if (rules.packageSymbolIds && type.target && typeof type.target === 'object') {
+      type.target = toSymbolId(type.target);
+    }
+  }
+
+  for (const [key, value] of Object.entries<any>(type)) {
+    if (key === 'declaration') {
+      normalizeReflection(value, rules);
+    } else if (Array.isArray(value)) {
+      // Template literal tails are [type, text] pairs
+      value.forEach(item => normalizeType(Array.isArray(item) ? item[0] : item, rules));
+    } else if (value && typeof value === 'object' && typeof value.type === 'string') {
+      normalizeType(value, rules);
+    }
+  }
+}
+
+/**
+ * Normalizes a comment in place
+ * 
+ * @throws Error if the comment is in the pre-0.23 format
+ * 
+ * @internal
+ */
+function normalizeComment(comment: any): void {
+  if (!comment) return;
+  if ('shortText' in comment || 'tags' in comment) {
+    throw legacyFormatError();
+  }
+
+  comment.summary?.forEach((part: any) => normalizePart(part));
+  for (const tag of comment.blockTags || []) {
+    tag.content?.forEach((part: any) => normalizePart(part));
+  }
+}
+
+/**
+ * Normalizes a comment or document text part in place
+ * 
+ * @remarks
+ * Links to declarations outside the documentation are symbol IDs in 0.26
+ * and later; they move to `targetSymbol` so `target` is always an ID or URL.
+ * 
+ * @internal
+ */
+function normalizePart(part: CommentDisplayPart & { target?: any }): void {
+  if (part.target && typeof part.target === 'object') {
+    part.targetSymbol = toSymbolId(part.target);
+    delete part.target;
+  }
+}
+
+/**
+ * Normalizes a document and its nested documents in place
+ * 
+ * @internal
+ */
+function normalizeDocument(document: DocumentReflection, rules: SchemaRules): void {
+  document.kindString ??= getKindName(document.kind);
+  document.content ??= [];
+  document.content.forEach(part => normalizePart(part));
+  document.children?.forEach(child => normalizeDocument(child, rules));
+}
+
+/**
+ * Converts a symbol ID of any release to the internal shape
+ * 
+ * @internal
+ */
+function toSymbolId(raw: any): SymbolId {
+  const symbol: SymbolId = {
+    sourceFileName: raw.sourceFileName ?? raw.packagePath ?? '',
+    qualifiedName: raw.qualifiedName ?? '',
+  };
+  if (raw.packageName) symbol.packageName = raw.packageName;
+  return symbol;
+}
+
+/**
+ * Infers the `variant` of a reflection written before 0.24
+ * 
+ * @internal
+ */
+function getVariant(kind: number): string {
+  if (kind === ReflectionKind.Project) return 'project';
+  if (kind === ReflectionKind.Reference) return 'reference';
+  if (kind === ReflectionKind.Parameter) return 'param';
+  if (kind === ReflectionKind.TypeParameter) return 'typeParam';
+  return (kind & SIGNATURE_KINDS) !== 0 ? 'signature' : 'declaration';
+}
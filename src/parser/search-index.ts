@@ -0,0 +1,527 @@
+/**
+ * Full-text search index module
+ * 
+ * @packageDocumentation
+ * @module parser/search-index
+ * 
+ * @remarks
+ * This module provides an inverted index over symbol names, comment summaries
+ * and block-tag content, ranked with BM25F scoring. It lets agents find symbols
+ * by what they do rather than by what they are called.
+ */
+
+import { Reflection, ReflectionKind, Signature, CommentDisplayPart } from '../types/typedoc.js';
+
+/**
+ * Searchable field of an indexed symbol
+ */
+export type SearchField = 'name' | 'summary' | 'tags';
+
+/**
+ * A ranked search result
+ */
+export interface SearchHit {
+  /** TypeDoc ID of the matching symbol */
+  id: number;
+  /** Relevance score (higher is better) */
+  score: number;
+  /** Indexed terms that matched the query */
+  terms: string[];
+  /** Fields in which the query matched */
+  fields: SearchField[];
+}
+
+/**
+ * Text content of a symbol, split by searchable field
+ */
+export interface SearchableText {
+  /** Symbol name */
+  name: string;
+  /** Summary text, including signature summaries */
+  summary: string;
+  /** Block-tag content, including signature tags */
+  tags: string;
+}
+
+/**
+ * A posting list entry: how often a term occurs in each field of one symbol
+ * 
+ * @internal
+ */
+interface Posting {
+  id: number;
+  tf: Record<SearchField, number>;
+}
+
+/**
+ * Relative weight of each field in the combined score
+ * 
+ * @internal
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  summary: 1,
+  tags: 0.5,
+};
+
+/**
+ * Score multipliers for top-level declaration kinds
+ * 
+ * @remarks
+ * Only symbols marked with {@link SearchIndex.markTopLevel} get these, so a
+ * class nested in a namespace ranks like any other member.
+ * 
+ * @internal
+ */
+const KIND_BOOSTS: Partial<Record<number, number>> = {
+  [ReflectionKind.Class]: 1.5,
+  [ReflectionKind.Interface]: 1.5,
+  [ReflectionKind.Function]: 1.4,
+  [ReflectionKind.TypeAlias]: 1.3,
+  [ReflectionKind.Enum]: 1.3,
+  [ReflectionKind.Namespace]: 1.2,
+  [ReflectionKind.Variable]: 1.1,
+};
+
+/**
+ * Weight applied to terms matched by prefix rather than exactly
+ * 
+ * @internal
+ */
+const PREFIX_WEIGHT = 0.5;
+
+/**
+ * Words too common to be useful in queries or documents
+ * 
+ * @internal
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'if', 'in',
+  'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with',
+]);
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 length normalization */
+const B = 0.75;
+
+/**
+ * Splits an identifier into lowercase words
+ * 
+ * @param name - Identifier such as `getHTTPResponse` or `max_retry_count`
+ * @returns Words of the identifier (e.g., `['get', 'http', 'response']`)
+ * 
+ * @example
+ * ```typescript
+ * splitIdentifier('TypeDocParser'); // ['type', 'doc', 'parser']
+ * splitIdentifier('MAX_RETRIES');   // ['max', 'retries']
+ * ```
+ */
+export function splitIdentifier(name: string): string[] {
+  const words = name.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) || [];
+  return words.map(w => w.toLowerCase());
+}
+
+/**
+ * Tokenizes free text into searchable terms
+ * 
+ * @param text - Text to tokenize
+ * @returns Lowercase terms, with identifiers split into their words
+ * 
+ * @remarks
+ * Identifiers mentioned in prose (e.g., `findByName`) produce both the whole
+ * identifier and its words, so either form of a query matches.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.split(/[^A-Za-z0-9_$]+/)) {
+    if (!word) continue;
+
+    const lower = word.toLowerCase();
+    const parts = splitIdentifier(word);
+
+    if (parts.length !== 1 || parts[0] !== lower) {
+      if (lower.length > 1 && !STOP_WORDS.has(lower)) terms.push(lower);
+    }
+
+    for (const part of parts) {
+      if (part.length > 1 && !STOP_WORDS.has(part)) terms.push(part);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Gets the name terms of a symbol
+ * 
+ * @param name - Symbol name
+ * @returns The whole name, its words, and its initials for multi-word names
+ * 
+ * @internal
+ */
+function nameTerms(name: string): string[] {
+  const parts = splitIdentifier(name);
+  const terms = [name.toLowerCase(), ...parts];
+
+  // Initials let "tdp" find TypeDocParser
+  if (parts.length > 1) {
+    terms.push(parts.map(p => p[0]).join(''));
+  }
+
+  return terms;
+}
+
+/**
+ * Joins comment display parts into plain text
+ * 
+ * @internal
+ */
+function joinParts(parts: CommentDisplayPart[] | undefined): string {
+  return parts ? parts.map(p => p.text).join('') : '';
+}
+
+/**
+ * Extracts the searchable text of a reflection
+ * 
+ * @param reflection - The reflection to read
+ * @returns Name, summary and tag text
+ * 
+ * @remarks
+ * TypeDoc attaches most function documentation to signatures rather than to
+ * the declaration, so signature comments are folded into the declaration's text.
+ */
+export function getSearchableText(reflection: Reflection): SearchableText {
+  const comments = [
+    reflection.comment,
+    ...(reflection.signatures || []).map((s: Signature) => s.comment),
+  ];
+
+  const summary: string[] = [];
+  const tags: string[] = [];
+
+  for (const comment of comments) {
+    if (!comment) continue;
+
+    const text = joinParts(comment.summary).trim();
+    if (text) summary.push(text);
+
+    for (const tag of comment.blockTags || []) {
+      const content = joinParts(tag.content).trim();
+      if (content) tags.push(content);
+    }
+  }
+
+  return {
+    name: reflection.name,
+    summary: summary.join('\n'),
+    tags: tags.join('\n'),
+  };
+}
+
+/**
+ * Wraps matching words of a text in markdown bold markers
+ * 
+ * @param text - Text to highlight
+ * @param terms - Lowercase terms to highlight
+ * @param maxLength - Maximum snippet length; the snippet is centred on the first match
+ * @returns Highlighted snippet, or null if no term matches
+ * 
+ * @example
+ * ```typescript
+ * highlight('Finds symbols by name', ['symbols']);
+ * // 'Finds **symbols** by name'
+ * ```
+ */
+export function highlight(text: string, terms: string[], maxLength = 160): string | null {
+  if (!text || terms.length === 0) return null;
+
+  const matches = (word: string) => {
+    const lower = word.toLowerCase();
+    const parts = splitIdentifier(word);
+    return terms.some(t => lower.startsWith(t) || parts.some(p => p.startsWith(t)));
+  };
+
+  const words = text.split(/(\s+)/);
+  const first = words.findIndex(w => /\S/.test(w) && matches(w.replace(/^\W+|\W+$/g, '')));
+  if (first === -1) return null;
+
+  // Centre the snippet on the first match
+  let start = 0;
+  let prefixLength = words.slice(0, first).join('').length;
+  while (prefixLength > maxLength / 3 && start < first) {
+    prefixLength -= words[start].length;
+    start++;
+  }
+
+  let snippet = '';
+  let end = start;
+  for (; end < words.length && snippet.length < maxLength; end++) {
+    const word = words[end];
+    const core = word.replace(/^\W+|\W+$/g, '');
+    snippet += core && matches(core) ? word.replace(core, `**${core}**`) : word;
+  }
+
+  return `${start > 0 ? '...' : ''}${snippet.trim()}${end < words.length ? '...' : ''}`;
+}
+
+/**
+ * Serialized form of a {@link SearchIndex}
+ * 
+ * @remarks
+ * Numbers are flattened into plain arrays to keep cache files small.
+ */
+export interface SearchIndexData {
+  /** Terms with their postings, as repeated `id, name tf, summary tf, tags tf` */
+  postings: Array<[string, number[]]>;
+  /** Repeated `id, name length, summary length, tags length, kind, top-level flag` per symbol */
+  symbols: number[];
+}
+
+/**
+ * Inverted index with BM25F ranking
+ * 
+ * @remarks
+ * Each symbol is indexed under three fields (name, summary and tags) with
+ * field-specific length normalization. Names are split on camelCase and
+ * snake_case, and multi-word names are also indexed by their initials.
+ * Query terms of three or more characters also match indexed terms that
+ * start with them, at reduced weight.
+ * 
+ * @example
+ * ```typescript
+ * const index = new SearchIndex();
+ * index.add(reflection);
+ * 
+ * for (const hit of index.search('parse json file')) {
+ *   console.log(hit.id, hit.score);
+ * }
+ * ```
+ */
+export class SearchIndex {
+  /** Posting lists keyed by term */
+  private postings = new Map<string, Posting[]>();
+  /** Field lengths (in terms) keyed by symbol ID */
+  private lengths = new Map<number, Record<SearchField, number>>();
+  /** Sum of field lengths across all symbols, for average lengths */
+  private totalLengths: Record<SearchField, number> = { name: 0, summary: 0, tags: 0 };
+  /** Kind of each indexed symbol, for kind boosts */
+  private kinds = new Map<number, number>();
+  /** IDs of symbols declared directly in the project or a module */
+  private topLevel = new Set<number>();
+  /** Sorted vocabulary for prefix lookups, rebuilt lazily after changes */
+  private vocabulary: string[] | null = null;
+
+  /**
+   * Adds a reflection to the index
+   * 
+   * @param reflection - The reflection to index
+   * 
+   * @remarks
+   * Signatures and the project root are skipped; signature comments are
+   * indexed as part of their declaration instead.
+   */
+  add(reflection: Reflection): void {
+    if (reflection.variant === 'signature' || reflection.kind === ReflectionKind.Project) return;
+    if (this.lengths.has(reflection.id)) return;
+
+    const text = getSearchableText(reflection);
+    const fields: Record<SearchField, string[]> = {
+      name: nameTerms(text.name),
+      summary: tokenize(text.summary),
+      tags: tokenize(text.tags),
+    };
+
+    const counts = new Map<string, Record<SearchField, number>>();
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const term of fields[field]) {
+        const tf = counts.get(term) || { name: 0, summary: 0, tags: 0 };
+        tf[field]++;
+        counts.set(term, tf);
+      }
+      this.totalLengths[field] += fields[field].length;
+    }
+
+    for (const [term, tf] of counts) {
+      const list = this.postings.get(term) || [];
+      list.push({ id: reflection.id, tf });
+      this.postings.set(term, list);
+    }
+
+    this.lengths.set(reflection.id, {
+      name: fields.name.length,
+      summary: fields.summary.length,
+      tags: fields.tags.length,
+    });
+    this.kinds.set(reflection.id, reflection.kind);
+    this.vocabulary = null;
+  }
+
+  /**
+   * Marks symbols as declared directly in the project or a module
+   * 
+   * @param ids - IDs of the symbols, indexed or not yet indexed
+   * 
+   * @remarks
+   * Only top-level symbols get the kind boosts, since members, namespace
+   * contents and other nested declarations are rarely what a search is for.
+   */
+  markTopLevel(ids: number[]): void {
+    for (const id of ids) this.topLevel.add(id);
+  }
+
+  /**
+   * Serializes the index for the on-disk index cache
+   * 
+   * @returns Plain data that {@link SearchIndex.fromJSON} restores
+   */
+  toJSON(): SearchIndexData {
+    const postings: Array<[string, number[]]> = [];
+    for (const [term, list] of this.postings) {
+      const flat: number[] = [];
+      for (const posting of list) {
+        flat.push(posting.id, posting.tf.name, posting.tf.summary, posting.tf.tags);
+      }
+      postings.push([term, flat]);
+    }
+
+    const symbols: number[] = [];
+    for (const [id, length] of this.lengths) {
+      symbols.push(id, length.name, length.summary, length.tags, this.kinds.get(id) ?? 0, this.topLevel.has(id) ? 1 : 0);
+    }
+
+    return { postings, symbols };
+  }
+
+  /**
+   * Restores an index serialized by {@link SearchIndex.toJSON}
+   * 
+   * @param data - Serialized index
+   * @returns The restored index
+   */
+  static fromJSON(data: SearchIndexData): SearchIndex {
+    const index = new SearchIndex();
+
+    for (const [term, flat] of data.postings) {
+      const list: Posting[] = [];
+      for (let i = 0; i < flat.length; i += 4) {
+        list.push({ id: flat[i], tf: { name: flat[i + 1], summary: flat[i + 2], tags: flat[i + 3] } });
+      }
+      index.postings.set(term, list);
+    }
+
+    for (let i = 0; i < data.symbols.length; i += 6) {
+      const length = { name: data.symbols[i + 1], summary: data.symbols[i + 2], tags: data.symbols[i + 3] };
+      index.lengths.set(data.symbols[i], length);
+      index.kinds.set(data.symbols[i], data.symbols[i + 4]);
+      if (data.symbols[i + 5]) index.topLevel.add(data.symbols[i]);
+      index.totalLengths.name += length.name;
+      index.totalLengths.summary += length.summary;
+      index.totalLengths.tags += length.tags;
+    }
+
+    return index;
+  }
+
+  /**
+   * Number of indexed symbols
+   */
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  /**
+   * Searches the index
+   * 
+   * @param query - Free-text query
+   * @param limit - Maximum number of hits to return (default: 20)
+   * @returns Hits ordered by descending score
+   */
+  search(query: string, limit = 20): SearchHit[] {
+    const queryTerms = [...new Set(tokenize(query))];
+
+    const scores = new Map<number, { score: number; terms: Set<string>; fields: Set<SearchField> }>();
+    const n = this.lengths.size;
+    if (n === 0 || queryTerms.length === 0) return [];
+
+    const avg: Record<SearchField, number> = {
+      name: this.totalLengths.name / n || 1,
+      summary: this.totalLengths.summary / n || 1,
+      tags: this.totalLengths.tags / n || 1,
+    };
+
+    for (const queryTerm of queryTerms) {
+      for (const [term, weight] of this.expand(queryTerm)) {
+        const list = this.postings.get(term);
+        if (!list) continue;
+
+        const idf = Math.log(1 + (n - list.length + 0.5) / (list.length + 0.5));
+
+        for (const posting of list) {
+          const lengths = this.lengths.get(posting.id)!;
+          let tf = 0;
+          const matched: SearchField[] = [];
+
+          for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+            if (posting.tf[field] === 0) continue;
+            const norm = 1 - B + B * (lengths[field] / avg[field]);
+            tf += FIELD_WEIGHTS[field] * posting.tf[field] / norm;
+            matched.push(field);
+          }
+
+          const entry = scores.get(posting.id) || { score: 0, terms: new Set(), fields: new Set() };
+          entry.score += weight * idf * (tf / (K1 + tf));
+          entry.terms.add(term);
+          matched.forEach(f => entry.fields.add(f));
+          scores.set(posting.id, entry);
+        }
+      }
+    }
+
+    const hits: SearchHit[] = [];
+    for (const [id, entry] of scores) {
+      hits.push({
+        id,
+        score: entry.score * (this.topLevel.has(id) ? KIND_BOOSTS[this.kinds.get(id)!] ?? 1 : 1),
+        terms: [...entry.terms],
+        fields: [...entry.fields],
+      });
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Expands a query term to the indexed terms it matches
+   * 
+   * @param term - Lowercase query term
+   * @returns Pairs of indexed term and match weight
+   * 
+   * @internal
+   */
+  private expand(term: string): Array<[string, number]> {
+    const result: Array<[string, number]> = [];
+    if (this.postings.has(term)) result.push([term, 1]);
+    if (term.length < 3) return result;
+
+    if (!this.vocabulary) {
+      this.vocabulary = [...this.postings.keys()].sort();
+    }
+
+    // Binary search for the first term >= the prefix
+    let lo = 0;
+    let hi = this.vocabulary.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.vocabulary[mid] < term) lo = mid + 1;
+      else hi = mid;
+    }
+
+    for (let i = lo; i < this.vocabulary.length && this.vocabulary[i].startsWith(term); i++) {
+      if (this.vocabulary[i] !== term) result.push([this.vocabulary[i], PREFIX_WEIGHT]);
+    }
+
+    return result;
+  }
+}
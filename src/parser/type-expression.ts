@@ -0,0 +1,196 @@
+/**
+ * Type expression parsing
+ * 
+ * @packageDocumentation
+ * @module parser/type-expression
+ * 
+ * @remarks
+ * Reads TypeScript type expressions written by an agent, such as
+ * `Map<string, User>` or `Repository<User | undefined>[]`, into the same
+ * {@link Type} trees TypeDoc writes. Only the syntax needed to name an
+ * instantiation is supported: names with type arguments, keywords,
+ * literals, arrays, tuples, unions, intersections and parentheses.
+ */
+
+import { Type } from '../types/typedoc.js';
+
+/**
+ * Type keywords, parsed as intrinsic types
+ * 
+ * @internal
+ */
+const INTRINSICS = new Set([
+  'any', 'unknown', 'never', 'void', 'undefined', 'null', 'string', 'number',
+  'boolean', 'bigint', 'symbol', 'object', 'this',
+]);
+
+/**
+ * Tokens of a type expression: names, numbers, strings and punctuation
+ * 
+ * @internal
+ */
+const TOKEN_PATTERN = /\s*(?:([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)|(-?\d+(?:\.\d+)?)|("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|([<>,|&()[\]]))/y;
+
+/**
+ * Parses a type expression
+ * 
+ * @param text - The expression (e.g., `Map<string, User>`)
+ * @param resolve - Looks up the reflection ID a type name refers to;
+ * names it does not know become external references
+ * @returns The type tree
+ * 
+ * @throws Error if the expression uses unsupported syntax or is incomplete
+ * 
+ * @example
+ * ```typescript
+ * const type = parseTypeExpression('Repository<User>', name => parser.findByName(name)[0]?.id);
+ * // { type: 'reference', name: 'Repository', target: 12, typeArguments: [{ type: 'reference', name: 'User', target: 7 }] }
+ * ```
+ */
+export function parseTypeExpression(text: string, resolve?: (name: string) => number | undefined): Type {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Cannot parse type expression "${text}": ${reason}`);
+  };
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) fail(`expected "${token}" ${describe(tokens[position])}`);
+    position++;
+  };
+
+  const parseUnion = (): Type => {
+    const types = [parseIntersection()];
+    while (peek() === '|') {
+      position++;
+      types.push(parseIntersection());
+    }
+    return types.length === 1 ? types[0] : { type: 'union', types };
+  };
+
+  const parseIntersection = (): Type => {
+    const types = [parseArray()];
+    while (peek() === '&') {
+      position++;
+      types.push(parseArray());
+    }
+    return types.length === 1 ? types[0] : { type: 'intersection', types };
+  };
+
+  const parseArray = (): Type => {
+    let type = parsePrimary();
+    while (peek() === '[' && tokens[position + 1] === ']') {
+      position += 2;
+      type = { type: 'array', elementType: type };
+    }
+    return type;
+  };
+
+  const parseList = (close: string): Type[] => {
+    const types: Type[] = [];
+    if (peek() !== close) {
+      types.push(parseUnion());
+      while (peek() === ',') {
+        position++;
+        types.push(parseUnion());
+      }
+    }
+    expect(close);
+    return types;
+  };
+
+  const parsePrimary = (): Type => {
+    const token = tokens[position++];
+    if (token === undefined) return fail('unexpected end');
+
+    if (token === '(') {
+      const type = parseUnion();
+      expect(')');
+      return type;
+    }
+    if (token === '[') {
+      return { type: 'tuple', elements: parseList(']') };
+    }
+    if (/^["']/.test(token)) {
+      const value = parseString(token);
+      return value === undefined ? fail(`invalid string ${token}`) : { type: 'literal', value };
+    }
+    if (/^-?\d/.test(token)) {
+      return { type: 'literal', value: Number(token) };
+    }
+    if (token === 'true' || token === 'false') {
+      return { type: 'literal', value: token === 'true' };
+    }
+    if (/^[A-Za-z_$]/.test(token)) {
+      if (INTRINSICS.has(token)) return { type: 'intrinsic', name: token };
+
+      const type: Type = { type: 'reference', name: token };
+      const target = resolve?.(token);
+      if (target !== undefined) type.target = target;
+      if (peek() === '<') {
+        position++;
+        type.typeArguments = parseList('>');
+      }
+      return type;
+    }
+    return fail(`unexpected "${token}"`);
+  };
+
+  const type = parseUnion();
+  if (position < tokens.length) fail(`unexpected "${tokens[position]}"`);
+  return type;
+}
+
+/**
+ * Splits a type expression into tokens
+ * 
+ * @throws Error at the first character that starts no token
+ * 
+ * @internal
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < text.length) {
+    if (/^\s*$/.test(text.slice(TOKEN_PATTERN.lastIndex))) break;
+
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(text);
+    if (!match) {
+      throw new Error(`Cannot parse type expression "${text}": unsupported syntax at "${text.slice(start).trim()}"`);
+    }
+    tokens.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+
+  return tokens;
+}
+
+/**
+ * Reads the value of a string literal token, in single or double quotes
+ * 
+ * @returns The string, or undefined if it has an escape JSON does not know
+ * 
+ * @internal
+ */
+function parseString(token: string): string | undefined {
+  // Single-quoted strings become JSON strings: `\'` needs no escape, `"` does
+  const json = token[0] === '"'
+    ? token
+    : `"${token.slice(1, -1).replace(/\\(.)|"/gs, (match, escaped) => escaped === "'" ? "'" : escaped !== undefined ? match : '\\"')}"`;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Describes where parsing stopped, for error messages
+ * 
+ * @internal
+ */
+function describe(token: string | undefined): string {
+  return token === undefined ? 'at the end' : `before "${token}"`;
+}
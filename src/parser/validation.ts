@@ -0,0 +1,454 @@
+/**
+ * Validation of documentation files
+ * 
+ * @packageDocumentation
+ * @module parser/validation
+ * 
+ * @remarks
+ * A file passed as documentation is not always TypeDoc's JSON output: the
+ * usual suspect is the project's `typedoc.json` configuration file, which
+ * shares its name with the output most projects write. This module
+ * recognizes what kind of file it was given, checks the structure of
+ * TypeDoc output while it is indexed, and turns every problem into a
+ * {@link DocumentationDiagnostic} that says what was found and what to do.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Reflection, ReflectionKind } from '../types/typedoc.js';
+import { SCHEMA_HEAD_BYTES, readSchemaHead } from './schema.js';
+import { streamReflections } from './json-stream.js';
+
+/**
+ * What a documentation file turned out to be
+ * 
+ * - `typedoc-json` - TypeDoc's JSON output
+ * - `typedoc-config` - A TypeDoc configuration file (`typedoc.json` in a project root)
+ * - `unknown` - Anything else
+ */
+export type DocumentationFileType = 'typedoc-json' | 'typedoc-config' | 'unknown';
+
+/**
+ * Position in a text file
+ */
+export interface TextLocation {
+  /** Line number (1-based) */
+  line: number;
+  /** Column number (1-based, in characters) */
+  column: number;
+}
+
+/**
+ * Outcome of validating a documentation file
+ * 
+ * @example
+ * ```json
+ * {
+ *   "file": "/work/app/typedoc.json",
+ *   "fileType": "typedoc-config",
+ *   "valid": false,
+ *   "message": "/work/app/typedoc.json is a TypeDoc configuration file, not TypeDoc JSON output",
+ *   "suggestion": "Its \"json\" option writes documentation to /work/app/docs/api.json; run `npx typedoc` and use that file.",
+ *   "outputPath": "/work/app/docs/api.json",
+ *   "problems": []
+ * }
+ * ```
+ */
+export interface DocumentationDiagnostic {
+  /** The file that was checked */
+  file: string;
+  /** What the file turned out to be */
+  fileType: DocumentationFileType;
+  /** Whether the file can be loaded as documentation */
+  valid: boolean;
+  /** What was found */
+  message: string;
+  /** What to do about it */
+  suggestion?: string;
+  /** Where a syntax error is */
+  location?: TextLocation;
+  /** Structural problems, the first few of each kind */
+  problems: string[];
+  /** For configuration files, where the configuration writes TypeDoc JSON */
+  outputPath?: string;
+}
+
+/**
+ * Maximum number of problems of one kind listed in a diagnostic
+ * 
+ * @internal
+ */
+const MAX_PROBLEMS = 5;
+
+/**
+ * Options only found in TypeDoc configuration files
+ * 
+ * @internal
+ */
+const CONFIG_OPTION_PATTERN = /"(?:entryPoints|entryPointStrategy|out|json|plugin|tsconfig|exclude|excludePrivate|excludeExternals|readme|theme)"\s*:|"\$schema"\s*:\s*"[^"]*typedoc/;
+
+/**
+ * Properties every TypeDoc project root starts with
+ * 
+ * @internal
+ */
+const PROJECT_PATTERN = /^\{\s*(?:"schemaVersion"\s*:\s*"[^"]*"\s*,\s*)?"id"\s*:\s*-?\d+\s*,/;
+
+/**
+ * Recognizes a documentation file from the start of its contents
+ * 
+ * @param file - Path of the file, for messages
+ * @param head - Start of the file (see {@link readSchemaHead})
+ * @returns The diagnostic; `valid` when the file looks like TypeDoc JSON output
+ * 
+ * @remarks
+ * Only the start of the file is looked at, so this is cheap enough to
+ * probe candidate files with. Structure and syntax are checked when the
+ * file is loaded.
+ * 
+ * @example
+ * ```typescript
+ * const diagnostic = inspectHead('typedoc.json', '{ "entryPoints": ["src"] }');
+ * // diagnostic.fileType === 'typedoc-config'
+ * ```
+ */
+export function inspectHead(file: string, head: string): DocumentationDiagnostic {
+  const text = head.replace(/^\uFEFF/, '').trimStart();
+
+  if (!text) {
+    return invalid(file, 'unknown', `${file} is empty`,
+      'Regenerate the documentation with `npx typedoc --json docs/typedoc.json`.');
+  }
+
+  if (PROJECT_PATTERN.test(text) || /"variant"\s*:\s*"project"/.test(text)) {
+    return { file, fileType: 'typedoc-json', valid: true, message: `${file} is TypeDoc JSON output`, problems: [] };
+  }
+
+  if (text.startsWith('{') && CONFIG_OPTION_PATTERN.test(text) && !/"kind"\s*:\s*\d/.test(text)) {
+    const outputPath = getConfigOutput(file, head);
+    return {
+      ...invalid(file, 'typedoc-config', `${file} is a TypeDoc configuration file, not TypeDoc JSON output`,
+        outputPath
+          ? `Its "json" option writes documentation to ${outputPath}; run \`npx typedoc\` and use that file.`
+          : 'Add "json": "docs/typedoc.json" to it, run `npx typedoc` and use the generated file.'),
+      outputPath,
+    };
+  }
+
+  return invalid(file, 'unknown',
+    text.startsWith('{')
+      ? `${file} does not look like TypeDoc JSON output: its root object is not a TypeDoc project`
+      : `${file} does not contain a JSON object`,
+    'Generate documentation with `npx typedoc --json docs/typedoc.json` and pass the generated file.');
+}
+
+/**
+ * Recognizes a documentation file without loading it
+ * 
+ * @param file - Path to the file
+ * @returns The diagnostic; `valid` when the file looks like TypeDoc JSON output
+ * 
+ * @throws Error if the file cannot be read
+ * 
+ * @example
+ * ```typescript
+ * const diagnostic = await inspectDocumentationFile('./typedoc.json');
+ * if (diagnostic.fileType === 'typedoc-config' && diagnostic.outputPath) {
+ *   console.log(`Documentation is written to ${diagnostic.outputPath}`);
+ * }
+ * ```
+ */
+export async function inspectDocumentationFile(file: string): Promise<DocumentationDiagnostic> {
+  return inspectHead(file, await readSchemaHead(file));
+}
+
+/**
+ * Describes a JSON syntax error with its line and column
+ * 
+ * @param file - Path of the file
+ * @param error - Error thrown by `JSON.parse` or the streaming reader
+ * @param content - File contents, when they were read as a whole
+ * @returns The diagnostic, or null if the error is not a syntax error
+ * 
+ * @remarks
+ * `JSON.parse` reports a character position and the streaming reader a
+ * byte offset; both are converted to a line and column. For the few
+ * `JSON.parse` errors without a position (such as a misspelled `true`),
+ * the file is scanned again with the streaming reader, and its message and
+ * offset are reported instead.
+ */
+export async function describeSyntaxError(
+  file: string,
+  error: unknown,
+  content?: string
+): Promise<DocumentationDiagnostic | null> {
+  let reason = error instanceof Error ? error.message : String(error);
+  let location: TextLocation | undefined;
+
+  if (error instanceof SyntaxError && content !== undefined) {
+    const position = /at position (\d+)/.exec(reason);
+    if (position || /Unexpected end of JSON input/.test(reason)) {
+      location = locateIndex(content, position ? Number(position[1]) : content.length);
+    } else {
+      reason = (await scanForError(file)) ?? reason;
+    }
+  }
+
+  const byteOffset = /at byte (\d+)$/.exec(reason);
+  if (byteOffset) {
+    location = await locateByte(file, Number(byteOffset[1]));
+  } else if (!(error instanceof SyntaxError)) {
+    return null;
+  }
+
+  const where = location ? ` at line ${location.line}, column ${location.column}` : '';
+  return {
+    ...invalid(file, 'typedoc-json', `${file} is not valid JSON${where}: ${stripPosition(reason)}`,
+      'The file may be truncated or still being written. Regenerate the documentation with TypeDoc.'),
+    location,
+  };
+}
+
+/**
+ * Checks the structural invariants of a TypeDoc project while it is indexed
+ * 
+ * @remarks
+ * The root must be a project, and every reflection and signature must have
+ * a numeric ID that no other one has. Violations mean lookups by ID would
+ * return the wrong symbol, so the file is refused.
+ * 
+ * @example
+ * ```typescript
+ * const check = new StructureCheck(docPath);
+ * await streamReflections(docPath, node => check.visit(node));
+ * const diagnostic = check.finish(root);
+ * ```
+ */
+export class StructureCheck {
+  /** Name of the reflection each ID was first seen on */
+  private names = new Map<number, string>();
+  /** Problems found so far, by kind */
+  private problems = new Map<string, { count: number; examples: string[] }>();
+
+  /**
+   * Creates a check for one file
+   * 
+   * @param file - Path of the file, for messages
+   */
+  constructor(private file: string) {}
+
+  /**
+   * Checks a reflection and its signatures, children excluded
+   * 
+   * @param node - The reflection
+   */
+  visit(node: Reflection): void {
+    this.checkId(node);
+    for (const signature of node.signatures || []) {
+      this.checkId(signature as Reflection);
+    }
+  }
+
+  /**
+   * Checks a loaded reflection tree
+   * 
+   * @param node - Root of the tree
+   */
+  visitTree(node: Reflection): void {
+    this.visit(node);
+    for (const child of node.children || []) {
+      this.visitTree(child);
+    }
+  }
+
+  /**
+   * Checks the root and summarizes the problems found
+   * 
+   * @param root - The project root
+   * @returns The diagnostic; `valid` if no problems were found
+   */
+  finish(root: Reflection | null): DocumentationDiagnostic {
+    if (!root || root.kind !== ReflectionKind.Project) {
+      this.add('root', `the root is ${root ? `a reflection of kind ${root.kind}` : 'missing'}, not a project (kind ${ReflectionKind.Project})`);
+    }
+
+    const problems = [...this.problems.values()].flatMap(({ count, examples }) =>
+      count > examples.length ? [...examples, `... and ${count - examples.length} more`] : examples
+    );
+    if (problems.length === 0) {
+      return { file: this.file, fileType: 'typedoc-json', valid: true, message: `${this.file} is TypeDoc JSON output`, problems };
+    }
+
+    return {
+      ...invalid(this.file, 'typedoc-json', `${this.file} is not a valid TypeDoc project`,
+        'Regenerate the documentation with TypeDoc; files that were edited or merged by hand often break these rules.'),
+      problems,
+    };
+  }
+
+  /**
+   * Checks one reflection's ID
+   * 
+   * @internal
+   */
+  private checkId(node: Reflection): void {
+    const { id, name } = node;
+
+    if (typeof id !== 'number' || !Number.isInteger(id)) {
+      this.add('id', `"${name}" has ${id === undefined ? 'no ID' : `a non-numeric ID ${JSON.stringify(id)}`}`);
+      return;
+    }
+
+    const first = this.names.get(id);
+    if (first !== undefined) {
+      this.add('duplicate', `ID ${id} is used by both "${first}" and "${name}"`);
+    } else {
+      this.names.set(id, name);
+    }
+  }
+
+  /**
+   * Records a problem, keeping the first few examples of each kind
+   * 
+   * @internal
+   */
+  private add(kind: string, problem: string): void {
+    const entry = this.problems.get(kind) || { count: 0, examples: [] };
+    entry.count++;
+    if (entry.examples.length < MAX_PROBLEMS) {
+      entry.examples.push(problem);
+    }
+    this.problems.set(kind, entry);
+  }
+}
+
+/**
+ * Formats a diagnostic as a single error message
+ * 
+ * @param diagnostic - The diagnostic
+ * @returns What was found, the problems and what to do
+ * 
+ * @example
+ * ```typescript
+ * throw new Error(formatDiagnostic(diagnostic));
+ * // "docs/api.json is not a valid TypeDoc project: ID 12 is used by both "a" and "b". Regenerate ..."
+ * ```
+ */
+export function formatDiagnostic(diagnostic: DocumentationDiagnostic): string {
+  const problems = diagnostic.problems.length ? `: ${diagnostic.problems.join('; ')}` : '';
+  const found = `${diagnostic.message}${problems}`.replace(/\.?$/, '.');
+  return diagnostic.suggestion ? `${found} ${diagnostic.suggestion}` : found;
+}
+
+/**
+ * Creates a diagnostic for a file that cannot be loaded
+ * 
+ * @internal
+ */
+function invalid(
+  file: string,
+  fileType: DocumentationFileType,
+  message: string,
+  suggestion: string
+): DocumentationDiagnostic {
+  return { file, fileType, valid: false, message, suggestion, problems: [] };
+}
+
+/**
+ * Reads the `json` option of a configuration file
+ * 
+ * @returns The option resolved against the file's directory, if set
+ * 
+ * @internal
+ */
+function getConfigOutput(file: string, head: string): string | undefined {
+  if (Buffer.byteLength(head) >= SCHEMA_HEAD_BYTES) return undefined;
+
+  try {
+    const config = JSON.parse(head.replace(/^\uFEFF/, ''));
+    return typeof config.json === 'string' ? path.resolve(path.dirname(file), config.json) : undefined;
+  } catch {
+    // Configuration files may have comments (typedoc.jsonc style)
+    return undefined;
+  }
+}
+
+/**
+ * Removes the position from an error message that is reported as a line and column
+ * 
+ * @internal
+ */
+function stripPosition(reason: string): string {
+  return reason
+    .replace(/ at byte \d+$/, '')
+    .replace(/ in JSON at position \d+(?: \(line \d+ column \d+\))?/, '');
+}
+
+/**
+ * Scans a file with the streaming reader for a syntax error
+ * 
+ * @returns The reader's error message, which ends with the byte offset,
+ * or null if the reader accepts the file
+ * 
+ * @internal
+ */
+async function scanForError(file: string): Promise<string | null> {
+  try {
+    await streamReflections(file, () => undefined);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : null;
+  }
+}
+
+/**
+ * Converts a character index in a string to a line and column
+ * 
+ * @internal
+ */
+function locateIndex(content: string, index: number): TextLocation {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = content.indexOf('\n'); i !== -1 && i < index; i = content.indexOf('\n', i + 1)) {
+    line++;
+    lineStart = i + 1;
+  }
+  return { line, column: index - lineStart + 1 };
+}
+
+/**
+ * Converts a byte offset in a file to a line and column
+ * 
+ * @remarks
+ * The file is read up to the offset only, counting newlines, so this stays
+ * cheap for errors near the start of large files.
+ * 
+ * @internal
+ */
+async function locateByte(file: string, offset: number): Promise<TextLocation | undefined> {
+  try {
+    const { size } = await fs.stat(file);
+    const end = Math.min(offset, size);
+    let line = 1;
+    let lineBytes: Buffer[] = [];
+
+    if (end > 0) {
+      for await (const data of createReadStream(file, { start: 0, end: end - 1 })) {
+        const chunk = data as Buffer;
+        const lastNewline = chunk.lastIndexOf(0x0a);
+        if (lastNewline === -1) {
+          lineBytes.push(chunk);
+          continue;
+        }
+        for (let i = chunk.indexOf(0x0a); i !== -1; i = chunk.indexOf(0x0a, i + 1)) {
+          line++;
+        }
+        lineBytes = [chunk.subarray(lastNewline + 1)];
+      }
+    }
+
+    return { line, column: Buffer.concat(lineBytes).toString('utf8').length + 1 };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Comment renderer
+ * 
+ * @packageDocumentation
+ * @module printer/comment-renderer
+ * 
+ * @remarks
+ * Turns the display parts of TypeDoc comments into Markdown or plain text.
+ * Inline `{@link}` tags become links to the symbols they name, code spans
+ * and blocks keep their formatting, and links that cannot be resolved are
+ * left as written and reported, rather than reduced to bare text.
+ */
+
+import { CommentDisplayPart } from '../types/typedoc.js';
+
+/**
+ * Output format of rendered comments
+ */
+export type CommentFormat = 'markdown' | 'plain';
+
+/**
+ * Documented symbol a link points to
+ */
+export interface LinkTarget {
+  /** TypeDoc ID */
+  id: number;
+  /** Full path */
+  path: string;
+  /** Human-readable kind */
+  kind: string;
+}
+
+/**
+ * Where a link points, as found by a {@link LinkResolver}
+ */
+export interface LinkResolution {
+  /** The documented symbol, for links to symbols */
+  target?: LinkTarget;
+  /** The URL, for external links */
+  url?: string;
+  /** Whether TypeDoc resolved the link (`target`) or it was looked up by name (`name`) */
+  resolvedBy: 'target' | 'name';
+}
+
+/**
+ * Finds where an inline link tag points, or returns undefined if it cannot
+ */
+export type LinkResolver = (part: CommentDisplayPart) => LinkResolution | undefined;
+
+/**
+ * An inline link found while rendering
+ */
+export interface RenderedLink {
+  /** Link tag (`@link`, `@linkcode` or `@linkplain`) */
+  tag: string;
+  /** Text the link is displayed with */
+  text: string;
+  /** Whether the link could be resolved */
+  resolved: boolean;
+  /** The documented symbol it points to */
+  target?: LinkTarget;
+  /** The URL it points to */
+  url?: string;
+  /** How it was resolved */
+  resolvedBy?: LinkResolution['resolvedBy'];
+}
+
+/**
+ * Options for rendering comments
+ */
+export interface CommentRendererOptions {
+  /** Output format (default `markdown`) */
+  format?: CommentFormat;
+  /** Resolves inline links; without one, only URL links resolve */
+  resolveLink?: LinkResolver;
+}
+
+/**
+ * Renders comment display parts, collecting the links they contain
+ */
+export interface CommentRenderer {
+  /** Renders display parts to text, trimmed */
+  render(parts: CommentDisplayPart[] | undefined): string;
+  /** Every distinct link rendered so far, in order */
+  readonly links: RenderedLink[];
+}
+
+/**
+ * Link tags, as opposed to other inline tags such as `{@inheritDoc}`
+ * 
+ * @internal
+ */
+const LINK_TAGS = new Set(['@link', '@linkcode', '@linkplain']);
+
+/**
+ * Renders comment display parts
+ * 
+ * @param parts - The display parts of a summary or block tag
+ * @param options - Output format and link resolution
+ * @returns The text, and the links it contains
+ * 
+ * @example
+ * ```typescript
+ * const { text, links } = renderComment(reflection.comment?.summary, {
+ *   format: 'markdown',
+ *   resolveLink: createLinkResolver(parser),
+ * });
+ * // text: 'A user of the system. See [Repository](models.Repository).'
+ * ```
+ */
+export function renderComment(parts: CommentDisplayPart[] | undefined, options: CommentRendererOptions = {}) {
+  const renderer = createCommentRenderer(options);
+  const text = renderer.render(parts);
+  return { text, links: renderer.links };
+}
+
+/**
+ * Creates a renderer for the comments of one result
+ * 
+ * @param options - Output format and link resolution
+ * @returns A renderer that collects the links of everything it renders,
+ * so a tool can report them once
+ * 
+ * @remarks
+ * In Markdown, links to symbols are written `[text](path)`, with
+ * `@linkcode` text in backticks, and code is kept as written. Plain text
+ * drops link targets and the backticks of code spans, and keeps the
+ * contents of code blocks without their fences. In both formats an
+ * unresolved link, and any other inline tag, is kept as written
+ * (`{@link Missing}`).
+ */
+export function createCommentRenderer(options: CommentRendererOptions = {}): CommentRenderer {
+  const format = options.format ?? 'markdown';
+  const links: RenderedLink[] = [];
+  const seen = new Set<string>();
+
+  const record = (link: RenderedLink) => {
+    const key = `${link.tag} ${link.text} ${link.target?.id ?? link.url ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    links.push(link);
+  };
+
+  const renderPart = (part: CommentDisplayPart): string => {
+    switch (part.kind) {
+      case 'code':
+        return format === 'markdown' ? markdownCode(part.text) : plainCode(part.text);
+
+      case 'inline-tag': {
+        const tag = part.tag ?? '@link';
+        if (!LINK_TAGS.has(tag)) return `{${tag} ${part.text}}`;
+
+        const text = linkText(part);
+        const resolution = typeof part.target === 'string'
+          ? { url: part.target, resolvedBy: 'target' as const }
+          : options.resolveLink?.(part);
+        if (!resolution) {
+          record({ tag, text, resolved: false });
+          return `{${tag} ${part.text}}`;
+        }
+
+        record({ tag, text, resolved: true, ...resolution });
+        return renderLink(tag, text, resolution, format);
+      }
+
+      default:
+        return part.text;
+    }
+  };
+
+  return {
+    render: parts => (parts || []).map(renderPart).join('').trim(),
+    links,
+  };
+}
+
+/**
+ * Gets the text a link is displayed with
+ * 
+ * @remarks
+ * TypeDoc usually gives the display text alone; TypeDoc 0.23 sometimes
+ * keeps `Target | text` as written.
+ * 
+ * @internal
+ */
+function linkText(part: CommentDisplayPart): string {
+  const bar = part.text.indexOf('|');
+  return (bar >= 0 ? part.text.slice(bar + 1) : part.text).trim() || part.text.trim();
+}
+
+/**
+ * Renders a resolved link
+ * 
+ * @internal
+ */
+function renderLink(tag: string, text: string, resolution: LinkResolution, format: CommentFormat): string {
+  const display = tag === '@linkcode' && format === 'markdown' ? `\`${text}\`` : text;
+  const destination = resolution.url ?? resolution.target?.path;
+
+  if (format === 'plain' || !destination) {
+    return resolution.url && resolution.url !== text ? `${display} (${resolution.url})` : display;
+  }
+
+  // Paths of projects with spaces in their names need the angle-bracket form
+  return `[${display}](${/\s/.test(destination) ? `<${destination}>` : destination})`;
+}
+
+/**
+ * Writes code as a Markdown code span or block
+ * 
+ * @remarks
+ * TypeDoc keeps the backticks and fences in the text of code parts; they
+ * are added if a part comes without them.
+ * 
+ * @internal
+ */
+function markdownCode(text: string): string {
+  return text.startsWith('`') ? text : `\`${text}\``;
+}
+
+/**
+ * Writes code as plain text: the contents of a block, or of a span
+ * 
+ * @internal
+ */
+function plainCode(text: string): string {
+  const block = /^(`{3,}|~{3,})[^\n]*\n([\s\S]*?)\n?\1\s*$/.exec(text);
+  if (block) return block[2];
+
+  const span = /^(`+)([\s\S]*)\1$/.exec(text);
+  return span ? span[2].replace(/^ (.*) $/, '$1') : text;
+}
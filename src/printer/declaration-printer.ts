@@ -0,0 +1,536 @@
+/**
+ * Declaration printer
+ * 
+ * @packageDocumentation
+ * @module printer/declaration-printer
+ * 
+ * @remarks
+ * Rebuilds declaration file (`.d.ts`) source from the reflection tree:
+ * classes, interfaces, type aliases, enums, functions, variables,
+ * namespaces and modules, with their generics, modifiers, overloads and
+ * TSDoc comments. Types are printed with the shared type printer, so
+ * {@link TypePrinterOptions} apply to every type in the output.
+ */
+
+import {
+  Comment,
+  CommentDisplayPart,
+  Reflection,
+  ReflectionKind,
+  Signature,
+  Type,
+} from '../types/typedoc.js';
+import {
+  printPropertyName,
+  printSignature,
+  printType,
+  printTypeParameters,
+  TypePrinterOptions,
+} from './type-printer.js';
+
+/**
+ * Options for printing declarations
+ */
+export interface DeclarationPrinterOptions extends TypePrinterOptions {
+  /** Whether to include TSDoc comments (default true) */
+  comments?: boolean;
+  /**
+   * Looks up the declaration a re-export refers to; without it, or when it
+   * returns undefined, re-exports print as exports of a local name
+   */
+  resolveReexport?: (reference: Reflection) => ReexportSource | undefined;
+}
+
+/**
+ * Declaration a re-export refers to
+ */
+export interface ReexportSource {
+  /** Name of the declaration */
+  name: string;
+  /** Name of the module declaring it, if it is declared in a module */
+  module?: string;
+  /** Whether it is a whole module, re-exported as a namespace (`export * as Name`) */
+  namespace?: boolean;
+}
+
+/**
+ * State while printing one declaration
+ * 
+ * @internal
+ */
+interface DeclarationContext {
+  /** Options for the type printer and comments */
+  options: DeclarationPrinterOptions;
+  /** One level of indentation */
+  indent: string;
+  /** Line width */
+  width: number;
+  /** Name of the module being printed, if any */
+  module?: string;
+}
+
+/**
+ * Kinds printed as a single member line or signature list, not a block
+ * 
+ * @internal
+ */
+const MEMBER_KINDS =
+  ReflectionKind.Property | ReflectionKind.Method | ReflectionKind.Accessor | ReflectionKind.Constructor;
+
+/**
+ * Signature kinds, printed on their own when a signature is looked up directly
+ * 
+ * @internal
+ */
+const SIGNATURE_KINDS =
+  ReflectionKind.CallSignature | ReflectionKind.ConstructorSignature |
+  ReflectionKind.GetSignature | ReflectionKind.SetSignature;
+
+/**
+ * Prints a reflection as declaration file source
+ * 
+ * @param reflection - The declaration to print; a project or module
+ * prints every declaration it contains
+ * @param options - Comments, width, depth and indentation
+ * @returns TypeScript declaration source, without a trailing newline
+ * 
+ * @remarks
+ * Top-level declarations are printed as `export declare` (or `export`
+ * for interfaces and type aliases), as TypeScript emits them. Members
+ * inherited from a base class or interface are left out, because the
+ * base declares them. Parameters with default values print as optional.
+ * 
+ * @example
+ * ```typescript
+ * const repository = parser.findByPath('Repository')!.reflection;
+ * console.log(printDeclaration(repository));
+ * // export interface Repository<T extends Entity> {
+ * //   find(id: number): Promise<T | undefined>;
+ * //   ...
+ * // }
+ * ```
+ */
+export function printDeclaration(reflection: Reflection, options: DeclarationPrinterOptions = {}): string {
+  const ctx = createContext(options);
+  return declarationToLines(reflection, ctx, 0, 'export declare ').join('\n');
+}
+
+/**
+ * Prints a module or project as the contents of a declaration file
+ * 
+ * @param reflection - A module, or a project
+ * @param options - Comments, width, depth and indentation
+ * @returns Declaration file source, ending in a newline
+ * 
+ * @remarks
+ * A module's declarations are printed at the top level, after the
+ * module's own comment. A project with several modules prints each of
+ * them as a `declare module "name"` block; a project without modules
+ * prints its declarations at the top level.
+ * 
+ * @example
+ * ```typescript
+ * const module = parser.findByPath('tools')!.reflection;
+ * await fs.writeFile('tools.d.ts', printDeclarationFile(module));
+ * ```
+ */
+export function printDeclarationFile(reflection: Reflection, options: DeclarationPrinterOptions = {}): string {
+  const ctx = createContext(options);
+
+  if (reflection.kind !== ReflectionKind.Module) {
+    return `${declarationToLines(reflection, ctx, 0, 'export declare ').join('\n')}\n`;
+  }
+
+  ctx.module = reflection.name;
+  const header = commentToLines(reflection.comment, ctx, '');
+  const body = childrenToLines(reflection.children, ctx, 0, 'export declare ');
+  return `${blocksToLines([header, body]).join('\n')}\n`;
+}
+
+/**
+ * Creates the printing state from options
+ * 
+ * @internal
+ */
+function createContext(options: DeclarationPrinterOptions): DeclarationContext {
+  return {
+    options,
+    indent: options.indent ?? '  ',
+    width: options.width ?? 80,
+  };
+}
+
+/**
+ * Prints a declaration and its comment
+ * 
+ * @param reflection - The declaration
+ * @param ctx - Printing state
+ * @param level - Indentation level
+ * @param modifier - `export declare ` at the top level, `export ` inside a namespace
+ * @returns Source lines, indented
+ * 
+ * @internal
+ */
+function declarationToLines(reflection: Reflection, ctx: DeclarationContext, level: number, modifier: string): string[] {
+  const pad = ctx.indent.repeat(level);
+  const exported = modifier.replace('declare ', '');
+
+  switch (reflection.kind) {
+    case ReflectionKind.Project:
+      return childrenToLines(reflection.children, ctx, level, modifier);
+
+    case ReflectionKind.Module:
+    case ReflectionKind.Namespace: {
+      const inner = reflection.kind === ReflectionKind.Module ? { ...ctx, module: reflection.name } : ctx;
+      const children = childrenToLines(reflection.children, inner, level + 1, 'export ');
+      const keyword = reflection.kind === ReflectionKind.Module
+        ? `declare module ${JSON.stringify(reflection.name)}`
+        : `${modifier}namespace ${reflection.name}`;
+      return [
+        ...commentToLines(reflection.comment, ctx, pad),
+        ...(children.length ? [`${pad}${keyword} {`, ...children, `${pad}}`] : [`${pad}${keyword} {}`]),
+      ];
+    }
+
+    case ReflectionKind.Class:
+    case ReflectionKind.Interface:
+      return classToLines(reflection, ctx, level, modifier);
+
+    case ReflectionKind.Enum: {
+      const members = membersToLines((reflection.children || []).map(member => [
+        ...commentToLines(member.comment, ctx, pad + ctx.indent),
+        `${pad}${ctx.indent}${printPropertyName(member.name)}${enumValue(member)},`,
+      ]));
+      const keyword = reflection.flags?.isConst ? 'const enum' : 'enum';
+      return [
+        ...commentToLines(reflection.comment, ctx, pad),
+        `${pad}${modifier}${keyword} ${reflection.name} {`,
+        ...members,
+        `${pad}}`,
+      ];
+    }
+
+    case ReflectionKind.TypeAlias: {
+      const head = `${pad}${exported}type ${reflection.name}${printTypeParameters(reflection.typeParameters, ctx.options)} = `;
+      return [
+        ...commentToLines(reflection.comment, ctx, pad),
+        `${head}${typeAt(reflection.type, ctx, level)};`,
+      ];
+    }
+
+    case ReflectionKind.Variable: {
+      const keyword = reflection.flags?.isConst ? 'const' : 'let';
+      return [
+        ...commentToLines(reflection.comment, ctx, pad),
+        `${pad}${modifier}${keyword} ${reflection.name}: ${typeAt(reflection.type, ctx, level)};`,
+      ];
+    }
+
+    case ReflectionKind.Reference: {
+      const { specifier, from, namespace } = reexportOf(reflection, ctx);
+      return [namespace ? `${pad}export * as ${reflection.name}${from};` : `${pad}export { ${specifier} }${from};`];
+    }
+
+    case ReflectionKind.Function:
+      return (reflection.signatures || []).flatMap(signature => [
+        ...commentToLines(signature.comment ?? reflection.comment, ctx, pad, signature),
+        `${pad}${modifier}function ${signatureAt(signature, reflection.name, ctx, level)};`,
+      ]);
+
+    default:
+      if (reflection.kind & SIGNATURE_KINDS) {
+        const signature = reflection as Signature;
+        return [
+          ...commentToLines(signature.comment, ctx, pad, signature),
+          `${pad}${signatureAt(signature, reflection.name, ctx, level)};`,
+        ];
+      }
+      if (reflection.kind & MEMBER_KINDS) {
+        return memberToLines(reflection, ctx, level, true);
+      }
+      return [
+        ...commentToLines(reflection.comment, ctx, pad),
+        `${pad}${printPropertyName(reflection.name)}: ${typeAt(reflection.type, ctx, level)};`,
+      ];
+  }
+}
+
+/**
+ * Prints a class or interface with its members
+ * 
+ * @internal
+ */
+function classToLines(reflection: Reflection, ctx: DeclarationContext, level: number, modifier: string): string[] {
+  const pad = ctx.indent.repeat(level);
+  const isClass = reflection.kind === ReflectionKind.Class;
+  const heritage = (keyword: string, types: Type[] | undefined) =>
+    types?.length ? ` ${keyword} ${types.map(type => printType(type, ctx.options)).join(', ')}` : '';
+
+  const head = isClass
+    ? `${modifier}${reflection.flags?.isAbstract ? 'abstract ' : ''}class`
+    : `${modifier.replace('declare ', '')}interface`;
+  const header = `${pad}${head} ${reflection.name}${printTypeParameters(reflection.typeParameters, ctx.options)}` +
+    `${heritage('extends', reflection.extendedTypes)}${isClass ? heritage('implements', reflection.implementedTypes) : ''} {`;
+
+  const inner = pad + ctx.indent;
+  const body = membersToLines([
+    ...(reflection.signatures || []).map(signature => [
+      ...commentToLines(signature.comment, ctx, inner, signature),
+      `${inner}${signatureAt(signature, '', ctx, level + 1)};`,
+    ]),
+    ...(reflection.indexSignatures || []).map(signature => [`${inner}${indexSignatureAt(signature, ctx, level + 1)};`]),
+    ...(reflection.children || [])
+      .filter(member => !member.inheritedFrom)
+      .map(member => memberToLines(member, ctx, level + 1, isClass)),
+  ]);
+
+  return [
+    ...commentToLines(reflection.comment, ctx, pad),
+    header,
+    ...body,
+    `${pad}}`,
+  ];
+}
+
+/**
+ * Prints a class or interface member
+ * 
+ * @param member - Property, method, accessor or constructor
+ * @param ctx - Printing state
+ * @param level - Indentation level
+ * @param isClass - Whether access, static and abstract modifiers apply
+ * @returns One line per property, or per signature for the others
+ * 
+ * @internal
+ */
+function memberToLines(member: Reflection, ctx: DeclarationContext, level: number, isClass: boolean): string[] {
+  const pad = ctx.indent.repeat(level);
+  const flags = member.flags || {};
+  const modifiers = isClass
+    ? `${flags.isPrivate ? 'private ' : flags.isProtected ? 'protected ' : ''}${flags.isStatic ? 'static ' : ''}${flags.isAbstract ? 'abstract ' : ''}`
+    : '';
+  const name = printPropertyName(member.name);
+  const optional = flags.isOptional ? '?' : '';
+
+  if (member.kind === ReflectionKind.Constructor) {
+    return (member.signatures || []).flatMap(signature => [
+      ...commentToLines(signature.comment ?? member.comment, ctx, pad, signature),
+      // TypeDoc copies the class's type parameters onto its constructors
+      `${pad}${modifiers}${signatureAt({ ...signature, typeParameters: undefined }, 'constructor', ctx, level)};`,
+    ]);
+  }
+
+  if (member.kind === ReflectionKind.Accessor) {
+    return [member.getSignature, member.setSignature]
+      .filter((signature): signature is Signature => !!signature)
+      .flatMap(signature => {
+        const keyword = signature.kind === ReflectionKind.GetSignature ? 'get' : 'set';
+        return [
+          ...commentToLines(signature.comment ?? member.comment, ctx, pad, signature),
+          `${pad}${modifiers}${keyword} ${signatureAt(signature, name, ctx, level)};`,
+        ];
+      });
+  }
+
+  if (member.signatures?.length && !member.type) {
+    return member.signatures.flatMap(signature => [
+      ...commentToLines(signature.comment ?? member.comment, ctx, pad, signature),
+      `${pad}${modifiers}${signatureAt(signature, `${name}${optional}`, ctx, level)};`,
+    ]);
+  }
+
+  const readonly = flags.isReadonly ? 'readonly ' : '';
+  return [
+    ...commentToLines(member.comment, ctx, pad),
+    `${pad}${modifiers}${readonly}${name}${optional}: ${typeAt(member.type, ctx, level)};`,
+  ];
+}
+
+/**
+ * Gets the initializer of an enum member
+ * 
+ * @internal
+ */
+function enumValue(member: Reflection): string {
+  if (member.type?.type === 'literal') return ` = ${printType(member.type)}`;
+  return member.defaultValue !== undefined ? ` = ${member.defaultValue}` : '';
+}
+
+/**
+ * Prints a type whose first line starts at an indentation level
+ * 
+ * @remarks
+ * The type printer indents multi-line types from column zero, so the
+ * lines after the first are shifted to the declaration's indentation.
+ * 
+ * @internal
+ */
+function typeAt(type: Type | undefined, ctx: DeclarationContext, level: number): string {
+  const pad = ctx.indent.repeat(level);
+  return reindent(printType(type, { ...ctx.options, width: ctx.width - pad.length }), pad);
+}
+
+/**
+ * Prints a signature declaration at an indentation level
+ * 
+ * @internal
+ */
+function signatureAt(signature: Signature, name: string, ctx: DeclarationContext, level: number): string {
+  const pad = ctx.indent.repeat(level);
+  return reindent(printSignature(signature, { ...ctx.options, width: ctx.width - pad.length, name }), pad);
+}
+
+/**
+ * Prints an index signature at an indentation level
+ * 
+ * @internal
+ */
+function indexSignatureAt(signature: Signature, ctx: DeclarationContext, level: number): string {
+  const parameter = signature.parameters?.[0];
+  const key = parameter ? `${parameter.name}: ${printType(parameter.type)}` : 'key: string';
+  const readonly = signature.flags?.isReadonly ? 'readonly ' : '';
+  return `${readonly}[${key}]: ${typeAt(signature.type, ctx, level)}`;
+}
+
+/**
+ * Indents every line but the first
+ * 
+ * @internal
+ */
+function reindent(text: string, pad: string): string {
+  return pad ? text.replace(/\n/g, `\n${pad}`) : text;
+}
+
+/**
+ * Prints the declarations of a project, module or namespace
+ * 
+ * @remarks
+ * Re-exports are gathered into one `export { ... } from` statement per
+ * module they come from, placed where the first of them appears. Modules
+ * re-exported as namespaces keep a statement of their own.
+ * 
+ * @internal
+ */
+function childrenToLines(children: Reflection[] | undefined, ctx: DeclarationContext, level: number, modifier: string): string[] {
+  const statements = new Map<string, { first: Reflection; specifiers: string[] }>();
+  for (const child of children || []) {
+    if (child.kind !== ReflectionKind.Reference) continue;
+    const { specifier, from, namespace } = reexportOf(child, ctx);
+    if (namespace) continue;
+    const statement = statements.get(from);
+    if (statement) statement.specifiers.push(specifier);
+    else statements.set(from, { first: child, specifiers: [specifier] });
+  }
+
+  const pad = ctx.indent.repeat(level);
+  const blocks = (children || []).map(child => {
+    if (child.kind !== ReflectionKind.Reference || reexportOf(child, ctx).namespace) {
+      return declarationToLines(child, ctx, level, modifier);
+    }
+
+    const [from, { specifiers }] = [...statements].find(([, statement]) => statement.first === child) ?? ['', { specifiers: [] }];
+    if (!specifiers.length) return [];
+    const line = `${pad}export { ${specifiers.join(', ')} }${from};`;
+    return line.length <= ctx.width
+      ? [line]
+      : [`${pad}export {`, ...specifiers.map(specifier => `${pad}${ctx.indent}${specifier},`), `${pad}}${from};`];
+  });
+  return blocksToLines(blocks);
+}
+
+/**
+ * Prints what a re-export exports and where from
+ * 
+ * @returns The export specifier (`Target as Name`, or `Name`), the `from`
+ * clause, empty when the target is declared in the module printed, and
+ * whether the target is a module re-exported as a namespace
+ * 
+ * @internal
+ */
+function reexportOf(reference: Reflection, ctx: DeclarationContext): { specifier: string; from: string; namespace: boolean } {
+  const source = ctx.options.resolveReexport?.(reference);
+  const specifier = source && source.name !== reference.name ? `${source.name} as ${reference.name}` : reference.name;
+  const from = source?.module !== undefined && source.module !== ctx.module ? ` from ${JSON.stringify(source.module)}` : '';
+  return { specifier, from, namespace: !!source?.namespace && !!from };
+}
+
+/**
+ * Joins declarations with a blank line between them
+ * 
+ * @internal
+ */
+function blocksToLines(blocks: string[][]): string[] {
+  return blocks.filter(block => block.length).flatMap((block, i) => (i > 0 ? ['', ...block] : block));
+}
+
+/**
+ * Joins members, with a blank line before each multi-line comment
+ * 
+ * @internal
+ */
+function membersToLines(members: string[][]): string[] {
+  return members.flatMap((member, i) => (i > 0 && member[0]?.trimStart() === '/**' ? ['', ...member] : member));
+}
+
+/**
+ * Prints a TSDoc comment
+ * 
+ * @param comment - The comment, if any
+ * @param ctx - Printing state
+ * @param pad - Indentation of the comment
+ * @param signature - Signature whose parameter and type parameter
+ * comments become `@param` and `@typeParam` tags
+ * @returns Comment lines, or none without a comment or with comments disabled
+ * 
+ * @internal
+ */
+function commentToLines(comment: Comment | undefined, ctx: DeclarationContext, pad: string, signature?: Signature): string[] {
+  if (ctx.options.comments === false) return [];
+
+  const sections: string[] = [];
+  const summary = partsToText(comment?.summary);
+  if (summary) sections.push(summary);
+
+  const tags = [
+    ...(signature?.typeParameters || [])
+      .filter(param => param.comment?.summary?.length)
+      .map(param => `@typeParam ${param.name} - ${partsToText(param.comment!.summary)}`),
+    ...(signature?.parameters || [])
+      .filter(param => param.comment?.summary?.length)
+      .map(param => `@param ${param.name} - ${partsToText(param.comment!.summary)}`),
+    ...(comment?.blockTags || []).map(tag => {
+      const content = partsToText(tag.content);
+      const name = tag.name ? ` ${tag.name} -` : '';
+      return content.includes('\n') && !name ? `${tag.tag}\n${content}` : `${tag.tag}${name}${content ? ` ${content}` : ''}`;
+    }),
+    ...(comment?.modifierTags || []),
+  ];
+  if (tags.length) {
+    // Multi-line tags such as @remarks and @example are set apart by blank lines
+    sections.push(tags.reduce((text, tag, i) =>
+      i === 0 ? tag : `${text}${tag.includes('\n') || tags[i - 1].includes('\n') ? '\n\n' : '\n'}${tag}`, ''));
+  }
+
+  if (!sections.length) return [];
+
+  const lines = sections.join('\n\n').split('\n');
+  if (lines.length === 1) return [`${pad}/** ${lines[0]} */`];
+
+  const body = lines.map(line => `${pad} *${line ? ` ${line}` : ''}`);
+  return [`${pad}/**`, ...body, `${pad} */`];
+}
+
+/**
+ * Turns comment parts back into TSDoc text
+ * 
+ * @internal
+ */
+function partsToText(parts: CommentDisplayPart[] | undefined): string {
+  if (!parts) return '';
+
+  return parts
+    .map(part => (part.kind === 'inline-tag' ? `{${part.tag ?? '@link'} ${part.text}}` : part.text))
+    .join('')
+    .replace(/\*\//g, '*\\/')
+    .trim();
+}
@@ -0,0 +1,509 @@
+/**
+ * TypeScript type printer
+ * 
+ * @packageDocumentation
+ * @module printer/type-printer
+ * 
+ * @remarks
+ * Turns TypeDoc's type trees back into TypeScript syntax. Every variant of
+ * {@link Type} is covered, inline object types are expanded into object
+ * literals, and parentheses are added where TypeScript needs them. Long
+ * object types are broken over several lines, and deeply nested ones are
+ * cut off, according to {@link TypePrinterOptions}.
+ */
+
+import { Parameter, Reflection, ReflectionKind, Signature, Type, TypeParameter } from '../types/typedoc.js';
+
+/**
+ * Options for printing types
+ */
+export interface TypePrinterOptions {
+  /**
+   * Line width from which object types are broken over several lines
+   * (default 80; `Infinity` keeps every type on one line)
+   */
+  width?: number;
+  /** Nesting depth of inline object types that is expanded (default 4); deeper ones print as `{ ... }` */
+  maxDepth?: number;
+  /** Indentation of one level in multi-line output (default two spaces) */
+  indent?: string;
+  /**
+   * Returns the type a reference should be replaced with, or undefined to
+   * print the reference by name (used to inline type aliases)
+   */
+  expandReference?: (type: Type) => Type | undefined;
+  /** Called for every reference printed by name */
+  onReference?: (type: Type) => void;
+}
+
+/**
+ * Options for printing signatures
+ */
+export interface SignaturePrinterOptions extends TypePrinterOptions {
+  /** Name printed before the parameters (e.g., a method name) */
+  name?: string;
+  /**
+   * Prints a function type (`(x: T) => R`) instead of a declaration
+   * (`name(x: T): R`)
+   */
+  arrow?: boolean;
+}
+
+/**
+ * Default line width
+ * 
+ * @internal
+ */
+const DEFAULT_WIDTH = 80;
+
+/**
+ * Default nesting depth of expanded object types
+ * 
+ * @internal
+ */
+const DEFAULT_MAX_DEPTH = 4;
+
+/**
+ * Binding strength of printed types, loosest first
+ * 
+ * @remarks
+ * A type printed where a stronger binding is required gets parentheses,
+ * such as a union inside an array type (`(A | B)[]`).
+ * 
+ * @internal
+ */
+enum Precedence {
+  /** Conditional and function types */
+  Conditional,
+  /** Union types */
+  Union,
+  /** Intersection types */
+  Intersection,
+  /** Type operators, `infer` and type predicates */
+  Operator,
+  /** Array, indexed access and everything that cannot be split */
+  Primary,
+}
+
+/**
+ * State while printing one type
+ * 
+ * @internal
+ */
+interface PrintContext {
+  /** Line width */
+  width: number;
+  /** Maximum object type depth */
+  maxDepth: number;
+  /** One level of indentation */
+  indent: string;
+  /** Indentation level of the line being printed */
+  level: number;
+  /** Object types being expanded, outermost first */
+  depth: number;
+  /** Declarations and expanded references being printed, against cycles */
+  seen: Set<unknown>;
+  /** Reference expansion hook */
+  expandReference?: (type: Type) => Type | undefined;
+  /** Reference callback */
+  onReference?: (type: Type) => void;
+}
+
+/**
+ * Prints a type as TypeScript
+ * 
+ * @param type - The type, or undefined for an untyped value
+ * @param options - Width, depth and indentation
+ * @returns TypeScript type syntax; `any` for a missing type
+ * 
+ * @example
+ * ```typescript
+ * printType(reflection.type);
+ * // "Promise<Map<string, { id: number; tags?: string[] }>>"
+ * 
+ * printType(reflection.type, { width: 40 });
+ * // "{\n  id: number;\n  tags?: string[];\n}" once it no longer fits on a line
+ * ```
+ */
+export function printType(type: Type | undefined, options: TypePrinterOptions = {}): string {
+  return print(type, createContext(options), Precedence.Conditional);
+}
+
+/**
+ * Prints a call, construct or accessor signature
+ * 
+ * @param signature - The signature
+ * @param options - Name, style, width, depth and indentation
+ * @returns The signature, e.g. `<T>(value: T) => T[]` or `wrap<T>(value: T): T[]`
+ * 
+ * @example
+ * ```typescript
+ * printSignature(method.signatures[0], { name: method.name });
+ * // "find(id: number, options?: FindOptions): Promise<User | undefined>"
+ * ```
+ */
+export function printSignature(signature: Signature, options: SignaturePrinterOptions = {}): string {
+  return signatureToString(signature, createContext(options), options.name ?? '', !!options.arrow);
+}
+
+/**
+ * Prints a parameter list without its parentheses
+ * 
+ * @param parameters - The parameters
+ * @param options - Width, depth and indentation
+ * @returns The parameters, e.g. `id: number, ...rest: string[]`
+ * 
+ * @remarks
+ * Parameters with a default value are printed as optional, as in a
+ * declaration file.
+ */
+export function printParameters(parameters: Parameter[] | undefined, options: TypePrinterOptions = {}): string {
+  return parametersToString(parameters, createContext(options));
+}
+
+/**
+ * Prints a type parameter list with its angle brackets
+ * 
+ * @param typeParameters - The type parameters
+ * @param options - Width, depth and indentation
+ * @returns The list, e.g. `<const T extends string, in out U = T>`, or
+ * an empty string without type parameters
+ */
+export function printTypeParameters(typeParameters: TypeParameter[] | undefined, options: TypePrinterOptions = {}): string {
+  return typeParametersToString(typeParameters, createContext(options));
+}
+
+/**
+ * Checks whether a name can be written as an identifier
+ * 
+ * @param name - Property or parameter name
+ * @returns The name, quoted if needed
+ * 
+ * @example
+ * ```typescript
+ * printPropertyName('content-type'); // "\"content-type\""
+ * printPropertyName('[iterator]');   // "[iterator]" (computed names stay as they are)
+ * ```
+ */
+export function printPropertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) || /^\[.*\]$/.test(name) || /^\d+$/.test(name)
+    ? name
+    : JSON.stringify(name);
+}
+
+/**
+ * Creates the printing state from options
+ * 
+ * @internal
+ */
+function createContext(options: TypePrinterOptions): PrintContext {
+  return {
+    width: options.width ?? DEFAULT_WIDTH,
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    indent: options.indent ?? '  ',
+    level: 0,
+    depth: 0,
+    seen: new Set(),
+    expandReference: options.expandReference,
+    onReference: options.onReference,
+  };
+}
+
+/**
+ * Prints a type, parenthesized if it binds looser than required
+ * 
+ * @internal
+ */
+function print(type: Type | undefined, ctx: PrintContext, required: Precedence): string {
+  if (!type) return 'any';
+
+  const [text, precedence] = printWithPrecedence(type, ctx);
+  return precedence < required ? `(${text})` : text;
+}
+
+/**
+ * Prints a type and tells how tightly the result binds
+ * 
+ * @internal
+ */
+function printWithPrecedence(type: Type, ctx: PrintContext): [string, Precedence] {
+  const t = type as Type & Record<string, any>;
+
+  switch (type.type) {
+    case 'intrinsic':
+    case 'unknown':
+      return [type.name || 'unknown', Precedence.Primary];
+
+    case 'literal':
+      return [printLiteral(type.value), Precedence.Primary];
+
+    case 'reference':
+      return printReference(type, ctx);
+
+    case 'array':
+      return [`${print(type.elementType, ctx, Precedence.Primary)}[]`, Precedence.Primary];
+
+    case 'union':
+      return [(type.types || []).map(member => print(member, ctx, Precedence.Union)).join(' | ') || 'never', Precedence.Union];
+
+    case 'intersection':
+      return [(type.types || []).map(member => print(member, ctx, Precedence.Intersection)).join(' & ') || 'unknown', Precedence.Intersection];
+
+    case 'tuple':
+      return [`[${(type.elements || []).map(element => print(element, ctx, Precedence.Conditional)).join(', ')}]`, Precedence.Primary];
+
+    case 'namedTupleMember':
+      return [`${type.name}${type.isOptional ? '?' : ''}: ${print(type.element, ctx, Precedence.Conditional)}`, Precedence.Primary];
+
+    case 'optional':
+      return [`${print(type.elementType, ctx, Precedence.Primary)}?`, Precedence.Primary];
+
+    case 'rest':
+      return [`...${print(type.elementType, ctx, Precedence.Primary)}`, Precedence.Primary];
+
+    case 'conditional':
+      return [
+        `${print(type.checkType, ctx, Precedence.Union)} extends ${print(type.extendsType, ctx, Precedence.Union)} ` +
+        `? ${print(type.trueType, ctx, Precedence.Conditional)} : ${print(type.falseType, ctx, Precedence.Conditional)}`,
+        Precedence.Conditional,
+      ];
+
+    case 'indexedAccess':
+      return [`${print(type.objectType, ctx, Precedence.Primary)}[${print(type.indexType, ctx, Precedence.Conditional)}]`, Precedence.Primary];
+
+    case 'typeOperator':
+      return [`${type.operator} ${print(t.target as Type, ctx, Precedence.Operator)}`, Precedence.Operator];
+
+    case 'query':
+      return [`typeof ${type.queryType?.name || 'unknown'}`, Precedence.Operator];
+
+    case 'inferred':
+      return [`infer ${type.name}${type.constraint ? ` extends ${print(type.constraint, ctx, Precedence.Union)}` : ''}`, Precedence.Operator];
+
+    case 'predicate': {
+      const target = type.targetType ? ` is ${print(type.targetType, ctx, Precedence.Conditional)}` : '';
+      return [`${type.asserts ? 'asserts ' : ''}${type.name}${target}`, Precedence.Operator];
+    }
+
+    case 'templateLiteral': {
+      const escape = (text: string) => text.replace(/[`\\]|\$\{/g, match => `\\${match}`);
+      const tail = (type.tail || []).map(([part, text]) => `\${${print(part, ctx, Precedence.Conditional)}}${escape(text)}`).join('');
+      return [`\`${escape(type.head || '')}${tail}\``, Precedence.Primary];
+    }
+
+    case 'mapped':
+      return [printMapped(type, ctx), Precedence.Primary];
+
+    case 'reflection':
+      return printDeclaration(type.declaration, ctx);
+
+    default:
+      return [type.name || 'unknown', Precedence.Primary];
+  }
+}
+
+/**
+ * Prints a reference by name, or the type it expands to
+ *
+ * @remarks
+ * An expansion that is already being printed (a recursive alias) is
+ * printed by name instead.
+ *
+ * @internal
+ */
+function printReference(type: Type, ctx: PrintContext): [string, Precedence] {
+  const expanded = type.refersToTypeParameter ? undefined : ctx.expandReference?.(type);
+
+  if (expanded && !ctx.seen.has(expanded)) {
+    ctx.seen.add(expanded);
+    try {
+      return printWithPrecedence(expanded, ctx);
+    } finally {
+      ctx.seen.delete(expanded);
+    }
+  }
+
+  if (!type.refersToTypeParameter) ctx.onReference?.(type);
+  return [`${type.name || 'unknown'}${printTypeArguments(type.typeArguments, ctx)}`, Precedence.Primary];
+}
+
+/**
+ * Prints a literal type's value
+ * 
+ * @internal
+ */
+function printLiteral(value: Type['value']): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'object') return `${value.negative ? '-' : ''}${value.value}n`;
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Prints type arguments with their angle brackets
+ * 
+ * @internal
+ */
+function printTypeArguments(typeArguments: Type[] | undefined, ctx: PrintContext): string {
+  if (!typeArguments?.length) return '';
+  return `<${typeArguments.map(arg => print(arg, ctx, Precedence.Conditional)).join(', ')}>`;
+}
+
+/**
+ * Prints a mapped type
+ * 
+ * @internal
+ */
+function printMapped(type: Type, ctx: PrintContext): string {
+  const readonly = type.readonlyModifier === '+' ? 'readonly ' : type.readonlyModifier === '-' ? '-readonly ' : '';
+  const optional = type.optionalModifier === '+' ? '?' : type.optionalModifier === '-' ? '-?' : '';
+  const as = type.nameType ? ` as ${print(type.nameType, ctx, Precedence.Conditional)}` : '';
+  const key = `[${type.parameter} in ${print(type.parameterType, ctx, Precedence.Conditional)}${as}]`;
+  return `{ ${readonly}${key}${optional}: ${print(type.templateType, ctx, Precedence.Conditional)} }`;
+}
+
+/**
+ * Prints an inline declaration as a function type or object literal
+ * 
+ * @remarks
+ * A declaration with one call signature and nothing else is a function
+ * type. Everything else becomes an object literal, which is broken over
+ * several lines once it does not fit in the configured width.
+ * 
+ * @internal
+ */
+function printDeclaration(declaration: Reflection | undefined, ctx: PrintContext): [string, Precedence] {
+  if (!declaration) return ['object', Precedence.Primary];
+
+  const signatures = declaration.signatures || [];
+  const members = declaration.children || [];
+  const indexSignatures = declaration.indexSignatures || [];
+
+  if (ctx.seen.has(declaration)) {
+    return [signatures.length && !members.length ? 'Function' : '{ ... }', Precedence.Primary];
+  }
+  if (ctx.depth >= ctx.maxDepth) {
+    return ['{ ... }', Precedence.Primary];
+  }
+
+  ctx.seen.add(declaration);
+  ctx.depth++;
+  try {
+    if (signatures.length === 1 && !members.length && !indexSignatures.length) {
+      return [signatureToString(signatures[0], ctx, '', true), Precedence.Conditional];
+    }
+
+    ctx.level++;
+    const lines = [
+      ...signatures.map(signature => `${signatureToString(signature, ctx, '', false)};`),
+      ...indexSignatures.map(signature => `${indexSignatureToString(signature, ctx)};`),
+      ...members.flatMap(member => memberToLines(member, ctx)),
+    ];
+    ctx.level--;
+
+    return [layoutBlock(lines, ctx), Precedence.Primary];
+  } finally {
+    ctx.depth--;
+    ctx.seen.delete(declaration);
+  }
+}
+
+/**
+ * Prints the members of an object literal
+ * 
+ * @returns One line per member, or one per signature for methods and accessors
+ * 
+ * @internal
+ */
+function memberToLines(member: Reflection, ctx: PrintContext): string[] {
+  const name = printPropertyName(member.name);
+  const optional = member.flags?.isOptional ? '?' : '';
+
+  if (member.kind === ReflectionKind.Accessor) {
+    const lines: string[] = [];
+    if (member.getSignature) lines.push(`${signatureToString(member.getSignature, ctx, `get ${name}`, false)};`);
+    if (member.setSignature) lines.push(`${signatureToString(member.setSignature, ctx, `set ${name}`, false)};`);
+    return lines;
+  }
+
+  if (member.signatures?.length && !member.type) {
+    return member.signatures.map(signature => `${signatureToString(signature, ctx, `${name}${optional}`, false)};`);
+  }
+
+  const readonly = member.flags?.isReadonly ? 'readonly ' : '';
+  return [`${readonly}${name}${optional}: ${print(member.type, ctx, Precedence.Conditional)};`];
+}
+
+/**
+ * Lays out object literal members on one line, or one per line when too wide
+ * 
+ * @internal
+ */
+function layoutBlock(lines: string[], ctx: PrintContext): string {
+  if (!lines.length) return '{}';
+
+  const oneLine = `{ ${lines.join(' ').replace(/;$/, '')} }`;
+  const column = ctx.level * ctx.indent.length;
+  if (!oneLine.includes('\n') && column + oneLine.length <= ctx.width) {
+    return oneLine;
+  }
+
+  const inner = ctx.indent.repeat(ctx.level + 1);
+  return `{\n${lines.map(line => `${inner}${line}`).join('\n')}\n${ctx.indent.repeat(ctx.level)}}`;
+}
+
+/**
+ * Prints a signature as a declaration or function type
+ * 
+ * @internal
+ */
+function signatureToString(signature: Signature, ctx: PrintContext, name: string, arrow: boolean): string {
+  const isConstructor = signature.kind === ReflectionKind.ConstructorSignature;
+  const prefix = isConstructor && !name ? 'new ' : '';
+  const head = `${prefix}${name}${typeParametersToString(signature.typeParameters, ctx)}(${parametersToString(signature.parameters, ctx)})`;
+
+  if (signature.kind === ReflectionKind.SetSignature || (isConstructor && name)) {
+    return head;
+  }
+
+  const returns = print(signature.type, ctx, Precedence.Conditional);
+  return arrow ? `${head} => ${returns}` : `${head}: ${returns}`;
+}
+
+/**
+ * Prints an index signature
+ * 
+ * @internal
+ */
+function indexSignatureToString(signature: Signature, ctx: PrintContext): string {
+  const readonly = signature.flags?.isReadonly ? 'readonly ' : '';
+  return `${readonly}[${parametersToString(signature.parameters, ctx)}]: ${print(signature.type, ctx, Precedence.Conditional)}`;
+}
+
+/**
+ * Prints a parameter list without its parentheses
+ * 
+ * @internal
+ */
+function parametersToString(parameters: Parameter[] | undefined, ctx: PrintContext): string {
+  return (parameters || []).map(parameter => {
+    const rest = parameter.flags?.isRest ? '...' : '';
+    const optional = parameter.flags?.isOptional || parameter.defaultValue !== undefined ? '?' : '';
+    return `${rest}${parameter.name}${optional}: ${print(parameter.type, ctx, Precedence.Conditional)}`;
+  }).join(', ');
+}
+
+/**
+ * Prints a type parameter list with its angle brackets
+ * 
+ * @internal
+ */
+function typeParametersToString(typeParameters: TypeParameter[] | undefined, ctx: PrintContext): string {
+  if (!typeParameters?.length) return '';
+
+  return `<${typeParameters.map(param => {
+    const modifiers = `${param.flags?.isConst ? 'const ' : ''}${param.varianceModifier ? `${param.varianceModifier} ` : ''}`;
+    const constraint = param.constraint ? ` extends ${print(param.constraint, ctx, Precedence.Conditional)}` : '';
+    const fallback = param.default ? ` = ${print(param.default, ctx, Precedence.Conditional)}` : '';
+    return `${modifiers}${param.name}${constraint}${fallback}`;
+  }).join(', ')}>`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Multi-project configuration
+ * 
+ * @packageDocumentation
+ * @module projects/config
+ * 
+ * @remarks
+ * Projects come from repeatable `--doc-path`/`--project-path` arguments,
+ * optionally prefixed with `name=`, and from a JSON configuration file.
+ * This module turns both into one list of uniquely named projects.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ProjectConfig } from './doc-project.js';
+
+/**
+ * Name given to a project whose argument has no `name=` prefix
+ */
+export const DEFAULT_PROJECT_NAME = 'default';
+
+/**
+ * Contents of a multi-project configuration file
+ * 
+ * @example
+ * ```json
+ * {
+ *   "projects": [
+ *     { "name": "core", "docPath": "packages/core/docs/typedoc.json" },
+ *     { "name": "ui", "projectPath": "packages/ui", "watch": true }
+ *   ]
+ * }
+ * ```
+ */
+export interface MultiProjectConfig {
+  /** Projects to serve; relative paths are resolved against the file's directory */
+  projects: ProjectConfig[];
+}
+
+/**
+ * Project sources gathered from the command line
+ */
+export interface ProjectArgs {
+  /** `--doc-path` values, each `path` or `name=path` */
+  docPaths: string[];
+  /** `--project-path` values, each `path` or `name=path` */
+  projectPaths: string[];
+  /** Path to a {@link MultiProjectConfig} file */
+  configFile?: string;
+  /** Whether `--watch` was given, enabling watch mode for every project with a project path */
+  watch?: boolean;
+}
+
+/**
+ * Splits a `name=path` argument
+ * 
+ * @param value - Argument value
+ * @returns The project name, or {@link DEFAULT_PROJECT_NAME}, and the path
+ * 
+ * @remarks
+ * Only a prefix that looks like a package name counts as a project name,
+ * so paths such as `./docs/a=b.json` are taken as they are.
+ * 
+ * @example
+ * ```typescript
+ * parseProjectArg('core=./packages/core/docs/typedoc.json');
+ * // { name: 'core', path: './packages/core/docs/typedoc.json' }
+ * ```
+ */
+export function parseProjectArg(value: string): { name: string; path: string } {
+  const match = /^(@?[A-Za-z0-9][\w.-]*(?:\/[\w.-]+)?)=(.+)$/.exec(value);
+  return match ? { name: match[1], path: match[2] } : { name: DEFAULT_PROJECT_NAME, path: value };
+}
+
+/**
+ * Reads a multi-project configuration file
+ * 
+ * @param configFile - Path to the configuration file
+ * @returns The configured projects, with paths resolved
+ * 
+ * @throws Error if the file cannot be read or is not a valid configuration
+ */
+export async function loadProjectsFile(configFile: string): Promise<ProjectConfig[]> {
+  let config: MultiProjectConfig;
+  try {
+    config = JSON.parse(await fs.readFile(configFile, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read project configuration ${configFile}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!config || !Array.isArray(config.projects)) {
+    throw new Error(`Project configuration ${configFile} must have a "projects" array`);
+  }
+
+  const baseDir = path.dirname(path.resolve(configFile));
+  return config.projects.map((project, i) => {
+    if (!project || typeof project.name !== 'string' || !project.name) {
+      throw new Error(`Project ${i + 1} in ${configFile} has no name`);
+    }
+    if (!project.docPath && !project.projectPath) {
+      throw new Error(`Project "${project.name}" in ${configFile} needs a docPath or projectPath`);
+    }
+    return {
+      name: project.name,
+      docPath: project.docPath ? path.resolve(baseDir, project.docPath) : undefined,
+      projectPath: project.projectPath ? path.resolve(baseDir, project.projectPath) : undefined,
+      watch: project.watch,
+    };
+  });
+}
+
+/**
+ * Works out the projects to serve
+ * 
+ * @param args - Project arguments from the command line
+ * @returns Projects in the order first named
+ * 
+ * @throws Error if a project is given two documentation or project paths
+ * 
+ * @remarks
+ * A `--doc-path` and a `--project-path` with the same name describe one
+ * project. Projects from the configuration file come first; command-line
+ * arguments with the same name fill in paths the file left out.
+ * 
+ * @example
+ * ```typescript
+ * const projects = await resolveProjects({
+ *   docPaths: ['core=packages/core/docs/typedoc.json', 'ui=packages/ui/docs/typedoc.json'],
+ *   projectPaths: [],
+ * });
+ * ```
+ */
+export async function resolveProjects(args: ProjectArgs): Promise<ProjectConfig[]> {
+  const projects = new Map<string, ProjectConfig>();
+
+  const fromFile = args.configFile ? await loadProjectsFile(args.configFile) : [];
+  for (const project of fromFile) {
+    if (projects.has(project.name)) {
+      throw new Error(`Project "${project.name}" is configured more than once`);
+    }
+    projects.set(project.name, project);
+  }
+
+  const add = (value: string, field: 'docPath' | 'projectPath', flag: string) => {
+    const { name, path: projectPath } = parseProjectArg(value);
+    const project = projects.get(name) || { name };
+    if (project[field]) {
+      throw new Error(`Project "${name}" has more than one ${flag}`);
+    }
+    project[field] = projectPath;
+    projects.set(name, project);
+  };
+
+  args.docPaths.forEach(value => add(value, 'docPath', '--doc-path'));
+  args.projectPaths.forEach(value => add(value, 'projectPath', '--project-path'));
+
+  return [...projects.values()].map(project => ({
+    ...project,
+    watch: project.watch ?? (args.watch && !!project.projectPath),
+  }));
+}
@@ -0,0 +1,459 @@
+/**
+ * A documentation project served by the MCP server
+ * 
+ * @packageDocumentation
+ * @module projects/doc-project
+ * 
+ * @remarks
+ * This module holds everything the server keeps per documentation project:
+ * the parser, lazy loading, hot-reloading of the documentation file and,
+ * in watch mode, regeneration from the project's sources.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TypeDocParser } from '../parser/index.js';
+import { DocumentationDiagnostic, inspectDocumentationFile } from '../parser/validation.js';
+import { ReloadStatus } from '../resources/overview.js';
+import { GenerationStatus } from '../resources/generation.js';
+import { FileWatcher } from '../watcher/file-watcher.js';
+import { SourceWatcher } from '../watcher/source-watcher.js';
+import { runTypeDocGeneration } from '../tools/run-generation.js';
+
+/**
+ * Configuration of a single documentation project
+ */
+export interface ProjectConfig {
+  /** Unique project name, used by the `project` tool argument */
+  name: string;
+  /** Path to the TypeDoc JSON output file */
+  docPath?: string;
+  /** Path to the TypeScript project (alternative to docPath) */
+  projectPath?: string;
+  /** Regenerates documentation when the project's sources change (requires projectPath) */
+  watch?: boolean;
+}
+
+/**
+ * Documentation for one project, loaded on first use
+ * 
+ * @remarks
+ * Documentation is parsed the first time it is needed. Once loaded, the
+ * documentation file is watched and reloaded when it changes; the previous
+ * version keeps answering requests until the new one has parsed. With
+ * `watch` set, changes to the project's sources regenerate the
+ * documentation, which is then loaded the same way.
+ * 
+ * @example
+ * ```typescript
+ * const project = new DocProject({ name: 'core', docPath: './docs/typedoc.json' }, cacheDir);
+ * await project.start();
+ * if (await project.ensureLoaded()) {
+ *   console.error(project.parser?.getStats());
+ * }
+ * ```
+ */
+export class DocProject {
+  /** Parser for the project's documentation, once a documentation file is known */
+  parser: TypeDocParser | null = null;
+  /** Watches the active documentation file for changes */
+  private docWatcher: FileWatcher | null = null;
+  /** Outcome of the most recent documentation reload */
+  private reloadStatus: ReloadStatus = { watching: false };
+  /** Why documentation could not be loaded, if the last attempt failed validation */
+  private loadDiagnostic: DocumentationDiagnostic | null = null;
+  /** Modification time of the documentation file the current parser was loaded from */
+  private loadedMtimeMs: number | null = null;
+  /** Reload in progress, which every reload request joins */
+  private reloading: Promise<void> | null = null;
+  /** Whether the file changed again while a reload was in progress */
+  private reloadQueued = false;
+  /** Watches project sources in watch mode */
+  private sourceWatcher: SourceWatcher | null = null;
+  /** State of watch-mode documentation generation */
+  private generationStatus: GenerationStatus = { watching: [], state: 'idle', warnings: [] };
+
+  /**
+   * Creates a new documentation project
+   * 
+   * @param config - Project configuration
+   * @param cacheDir - Directory for the on-disk index cache, if enabled
+   */
+  constructor(private config: ProjectConfig, private cacheDir?: string) {}
+
+  /**
+   * Unique project name
+   */
+  get name(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Path to the TypeDoc JSON file, once known
+   */
+  get docPath(): string | undefined {
+    return this.config.docPath;
+  }
+
+  /**
+   * Path to the TypeScript project, if configured
+   */
+  get projectPath(): string | undefined {
+    return this.config.projectPath;
+  }
+
+  /**
+   * Whether sources are watched and documentation regenerated
+   */
+  get watching(): boolean {
+    return !!this.config.watch && !!this.config.projectPath;
+  }
+
+  /**
+   * Outcome of the most recent documentation reload
+   */
+  getReloadStatus(): ReloadStatus {
+    return this.reloadStatus;
+  }
+
+  /**
+   * Explains why documentation could not be loaded
+   * 
+   * @returns The diagnostic of the last failed load, or null if the last
+   * load succeeded or failed for another reason (such as a missing file)
+   */
+  getLoadDiagnostic(): DocumentationDiagnostic | null {
+    return this.loadDiagnostic;
+  }
+
+  /**
+   * Gets the state of watch-mode documentation generation
+   * 
+   * @returns The generation state, and whether the loaded documentation is current
+   * 
+   * @remarks
+   * Documentation is not up to date while source changes are waiting to be
+   * regenerated, while generation runs, after a failed run, or when the
+   * regenerated output could not be loaded.
+   */
+  getGenerationStatus(): { status: GenerationStatus; upToDate: boolean } {
+    const upToDate = !this.sourceWatcher?.pending &&
+      (this.generationStatus.state === 'idle' || this.generationStatus.state === 'succeeded') &&
+      !this.reloadStatus.lastError;
+    return { status: this.generationStatus, upToDate };
+  }
+
+  /**
+   * Prepares the project without loading documentation
+   * 
+   * @remarks
+   * Creates the parser if the documentation path is known and starts
+   * watching sources in watch mode. Documentation itself is parsed on
+   * first use by {@link DocProject.ensureLoaded}.
+   */
+  async start(): Promise<void> {
+    if (this.config.docPath) {
+      this.parser = this.createParser(this.config.docPath);
+    }
+
+    if (this.watching) {
+      await this.watchSources();
+    }
+  }
+
+  /**
+   * Ensures the parser is initialized and documentation is loaded
+   * 
+   * @returns Whether documentation is available
+   * 
+   * @remarks
+   * Without a documentation path, the usual output locations inside the
+   * project path are tried. Candidates that are not TypeDoc JSON output are
+   * skipped, except that a TypeDoc configuration file leads to the file its
+   * `json` option writes.
+   */
+  async ensureLoaded(): Promise<boolean> {
+    // If parser not initialized, try to find docs
+    if (!this.parser) {
+      const docPath = this.config.projectPath ? await this.findDocumentation(this.config.projectPath) : null;
+      if (!docPath) {
+        return false;
+      }
+
+      console.error(`[${this.name}] Found documentation at ${docPath}`);
+      this.parser = this.createParser(docPath);
+      this.config.docPath = docPath; // Update config
+    }
+
+    // Check if already parsed by looking at the stats
+    const stats = this.parser.getStats();
+    if (stats.total > 0) {
+      // Already parsed
+      return true;
+    }
+
+    // Not parsed yet, parse now
+    try {
+      console.error(`[${this.name}] Loading TypeDoc documentation from ${this.config.docPath}...`);
+      const { mtimeMs } = await fs.stat(this.config.docPath!);
+      await this.parser.parse();
+      this.loadedMtimeMs = mtimeMs;
+      this.loadDiagnostic = null;
+      const load = this.parser.getStats().load;
+      if (load?.cache === 'corrupt') {
+        console.error(`[${this.name}] Index cache was corrupt and has been rebuilt`);
+      }
+      console.error(`[${this.name}] Documentation loaded successfully! (index cache: ${load?.cache})`);
+      this.watchDocs();
+      return true;
+    } catch (error) {
+      const diagnostic = this.parser.getDiagnostic();
+      this.loadDiagnostic = diagnostic && !diagnostic.valid ? diagnostic : null;
+      console.error(`[${this.name}] Failed to load documentation: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Looks for TypeDoc JSON output in the usual locations of a project
+   * 
+   * @param projectPath - Path to the TypeScript project
+   * @returns Path to the documentation, or null if there is none
+   * 
+   * @remarks
+   * When no candidate is TypeDoc JSON output, the reason the last existing
+   * candidate was rejected is kept as the load diagnostic.
+   * 
+   * @internal
+   */
+  private async findDocumentation(projectPath: string): Promise<string | null> {
+    const possiblePaths = [
+      path.join(projectPath, 'docs', 'typedoc.json'),
+      path.join(projectPath, 'documentation', 'typedoc.json'),
+      path.join(projectPath, 'typedoc.json'),
+    ];
+
+    for (let i = 0; i < possiblePaths.length; i++) {
+      let diagnostic: DocumentationDiagnostic;
+      try {
+        diagnostic = await inspectDocumentationFile(possiblePaths[i]);
+      } catch {
+        continue; // Does not exist
+      }
+
+      if (diagnostic.valid) {
+        return possiblePaths[i];
+      }
+
+      // A configuration file tells where its output goes
+      if (diagnostic.outputPath && !possiblePaths.includes(diagnostic.outputPath)) {
+        possiblePaths.push(diagnostic.outputPath);
+      }
+      console.error(`[${this.name}] Skipping ${possiblePaths[i]}: ${diagnostic.message}`);
+      this.loadDiagnostic = diagnostic;
+    }
+
+    return null;
+  }
+
+  /**
+   * Stops all watching and releases the loaded documentation
+   */
+  close(): void {
+    this.parser?.close();
+    this.docWatcher?.close();
+    this.docWatcher = null;
+    this.sourceWatcher?.close();
+    this.sourceWatcher = null;
+  }
+
+  /**
+   * Creates a parser for a documentation file using the configured cache
+   * 
+   * @param docPath - Path to the TypeDoc JSON file
+   * @returns Parser that still has to be parsed
+   * 
+   * @internal
+   */
+  private createParser(docPath: string): TypeDocParser {
+    return new TypeDocParser(docPath, { cacheDir: this.cacheDir });
+  }
+
+  /**
+   * Starts watching the active documentation file for changes
+   * 
+   * @remarks
+   * The file's directory is watched rather than the file itself, so that
+   * documentation regenerated by replacing the file is still picked up.
+   * 
+   * @internal
+   */
+  private watchDocs(): void {
+    const docPath = this.config.docPath;
+    if (this.docWatcher || !docPath) return;
+
+    const target = path.resolve(docPath);
+    this.docWatcher = new FileWatcher(() => this.reloadDocs(), {
+      filter: file => file === target,
+    });
+
+    try {
+      this.docWatcher.watch(path.dirname(target));
+      this.reloadStatus = { ...this.reloadStatus, watching: true };
+    } catch (error) {
+      console.error(`[${this.name}] Cannot watch ${docPath} for changes: ${error}`);
+      this.docWatcher.close();
+    }
+  }
+
+  /**
+   * Reloads documentation after the active file changed
+   * 
+   * @remarks
+   * The new file is parsed into a separate parser while the current one
+   * keeps answering requests, and only replaces it once parsing succeeded.
+   * If the new file is broken, the previous documentation stays in use and
+   * the error is reported in the overview resource. Streamed documentation
+   * keeps the file it was parsed from open, so replacing the file by a
+   * rename does not change what the current parser serves; a file rewritten
+   * in place can only serve bodies again once it was reloaded. A replaced
+   * parser closes the file once requests stopped using it.
+   * 
+   * The file watcher and watch-mode regeneration both ask for reloads of
+   * the same rewrite. Reloads run one at a time: a request during a reload
+   * joins it, and makes it check the file once more when it is done.
+   * 
+   * @internal
+   */
+  private reloadDocs(): Promise<void> {
+    if (this.reloading) {
+      this.reloadQueued = true;
+      return this.reloading;
+    }
+
+    this.reloading = (async () => {
+      do {
+        this.reloadQueued = false;
+        await this.reloadOnce();
+      } while (this.reloadQueued);
+    })().finally(() => {
+      this.reloading = null;
+    });
+    return this.reloading;
+  }
+
+  /**
+   * Parses the documentation file and swaps it in if it is newer
+   * 
+   * @remarks
+   * A parse of a file older than the loaded one (such as one that was
+   * started before a faster load finished) is discarded.
+   * 
+   * @internal
+   */
+  private async reloadOnce(): Promise<void> {
+    const docPath = this.config.docPath;
+    if (!docPath) return;
+
+    const next = this.createParser(docPath);
+    let mtimeMs: number;
+
+    try {
+      // Skip changes that were already loaded (e.g., after regeneration in watch mode)
+      mtimeMs = (await fs.stat(docPath)).mtimeMs;
+      if (mtimeMs === this.loadedMtimeMs) return;
+
+      console.error(`[${this.name}] Documentation changed, reloading ${docPath}...`);
+      await next.parse();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.reloadStatus = {
+        ...this.reloadStatus,
+        lastError: { message, at: new Date().toISOString() },
+      };
+      console.error(`[${this.name}] Failed to reload documentation, still serving the previous version: ${message}`);
+      return;
+    }
+
+    if (this.loadedMtimeMs !== null && mtimeMs <= this.loadedMtimeMs) {
+      next.close();
+      return;
+    }
+
+    // A single assignment, so no request ever sees a partly loaded parser
+    this.parser = next;
+    this.loadedMtimeMs = mtimeMs;
+    this.reloadStatus = { watching: true, lastReloadAt: new Date().toISOString() };
+    console.error(`[${this.name}] Documentation reloaded successfully!`);
+  }
+
+  /**
+   * Starts watching project sources and regenerating documentation on change
+   * 
+   * @internal
+   */
+  private async watchSources(): Promise<void> {
+    const projectPath = this.config.projectPath;
+    if (!projectPath || this.sourceWatcher) return;
+
+    this.sourceWatcher = new SourceWatcher(projectPath, files => this.regenerateDocs(files));
+    const targets = await this.sourceWatcher.start();
+    this.generationStatus = { ...this.generationStatus, watching: targets.roots };
+    console.error(`[${this.name}] Watching for source changes in: ${targets.roots.join(', ')}`);
+  }
+
+  /**
+   * Regenerates documentation after sources changed and loads the result
+   * 
+   * @param files - Changed files reported by the source watcher
+   * 
+   * @remarks
+   * A successful run is loaded into the live server through the same path
+   * as a hot reload, so a broken result never replaces working documentation.
+   * 
+   * @internal
+   */
+  private async regenerateDocs(files: string[]): Promise<void> {
+    const projectPath = this.config.projectPath;
+    if (!projectPath) return;
+
+    console.error(`[${this.name}] Sources changed, regenerating documentation...`);
+    this.generationStatus = {
+      ...this.generationStatus,
+      state: 'running',
+      changedFiles: files.map(file => path.relative(projectPath, file)),
+    };
+
+    const result = await runTypeDocGeneration(projectPath);
+    this.generationStatus = {
+      ...this.generationStatus,
+      state: result.success ? 'succeeded' : 'failed',
+      lastRunAt: new Date().toISOString(),
+      durationMs: result.duration,
+      warnings: result.warnings || [],
+      error: result.success ? undefined : [result.message, ...(result.errors || [])].join('\n'),
+      jsonPath: result.success ? result.jsonPath : this.generationStatus.jsonPath,
+    };
+
+    if (!result.success || !result.jsonPath) {
+      console.error(`[${this.name}] Documentation generation failed: ${result.message}`);
+      return;
+    }
+
+    // Follow the output if it moved, watching the new file instead
+    if (!this.config.docPath || path.resolve(this.config.docPath) !== path.resolve(result.jsonPath)) {
+      this.config.docPath = result.jsonPath;
+      this.docWatcher?.close();
+      this.docWatcher = null;
+      this.reloadStatus = { watching: false };
+    }
+
+    if (this.parser && this.parser.getStats().total > 0) {
+      await this.reloadDocs();
+      this.watchDocs();
+    } else {
+      // Loaded on the next request, like any other documentation
+      this.parser = this.createParser(result.jsonPath);
+    }
+  }
+}
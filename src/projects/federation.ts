@@ -0,0 +1,122 @@
+/**
+ * Federated queries across documentation projects
+ * 
+ * @packageDocumentation
+ * @module projects/federation
+ * 
+ * @remarks
+ * When a query tool is called without a `project` argument on a server with
+ * several projects, it runs against every project and the results are
+ * merged here, each tagged with the project it came from.
+ */
+
+import { TypeDocParser } from '../parser/index.js';
+import { DocProject } from './doc-project.js';
+
+/**
+ * Result of a query against one project
+ */
+export interface FederatedMatch<T> {
+  /** Name of the project the result came from */
+  project: string;
+  /** The query result */
+  result: T;
+}
+
+/**
+ * Runs a query against every project with available documentation
+ * 
+ * @param projects - Projects to query
+ * @param run - Query to run against each project's parser
+ * @returns Results of the projects the query succeeded for, in project order
+ * 
+ * @throws Error if the query failed for every project, with the first failure's message
+ * 
+ * @remarks
+ * A project whose query throws (for instance because the symbol is not
+ * found there) is left out, so a lookup succeeds as long as one project
+ * can answer it. Projects without documentation are skipped.
+ * 
+ * @example
+ * ```typescript
+ * const matches = await federate(projects, parser => findSymbol(parser, { name: 'Config' }));
+ * ```
+ */
+export async function federate<T>(
+  projects: DocProject[],
+  run: (parser: TypeDocParser) => Promise<T>
+): Promise<FederatedMatch<T>[]> {
+  const matches: FederatedMatch<T>[] = [];
+  let firstError: unknown = null;
+  let loaded = 0;
+
+  for (const project of projects) {
+    if (!(await project.ensureLoaded()) || !project.parser) continue;
+    loaded++;
+
+    try {
+      matches.push({ project: project.name, result: await run(project.parser) });
+    } catch (error) {
+      firstError ??= error;
+    }
+  }
+
+  if (loaded === 0) {
+    throw new Error('Documentation not available for any project');
+  }
+  if (matches.length === 0 && firstError) {
+    throw firstError;
+  }
+
+  return matches;
+}
+
+/**
+ * Merges results whose main content is a list into one tagged list
+ * 
+ * @param matches - Per-project results
+ * @param field - Name of the list field in each result (e.g., `symbols`)
+ * @param options - Optional ordering and truncation of the merged list
+ * @returns An object with the merged list under `field`, each item carrying a `project` field
+ * 
+ * @example
+ * ```typescript
+ * // { results: [{ project: 'core', name: 'parse', score: 3.2, ... }, ...] }
+ * mergeLists(matches, 'results', { compare: (a, b) => b.score - a.score, limit: 20 });
+ * ```
+ */
+export function mergeLists<T extends Record<string, any>>(
+  matches: FederatedMatch<T>[],
+  field: string,
+  options: { compare?: (a: any, b: any) => number; limit?: number } = {}
+): Record<string, any[]> {
+  let items = matches.flatMap(({ project, result }) =>
+    (result[field] as any[] || []).map(item => ({ project, ...item }))
+  );
+
+  if (options.compare) {
+    // Array.prototype.sort is stable, so equal items keep project order
+    items.sort(options.compare);
+  }
+  if (options.limit !== undefined) {
+    items = items.slice(0, options.limit);
+  }
+
+  return { [field]: items };
+}
+
+/**
+ * Merges results of a lookup of one symbol
+ * 
+ * @param matches - Per-project results
+ * @returns Every project's result, tagged with the project, under `matches`
+ * 
+ * @remarks
+ * Paths and keys usually identify a symbol in one project only, but IDs are
+ * assigned per project, so an ID lookup can match in several.
+ */
+export function mergeLookups<T extends object>(matches: FederatedMatch<T>[]): { matches: Array<{ project: string } & T> } {
+  return {
+    matches: matches.map(({ project, result }) => ({ project, ...result })),
+  };
+}
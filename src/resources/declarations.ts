@@ -0,0 +1,143 @@
+/**
+ * Module declarations resource for MCP
+ * 
+ * @packageDocumentation
+ * @module resources/declarations
+ * 
+ * @remarks
+ * This module provides a resource with the declaration file (`.d.ts`) of a
+ * module or of the whole project, rebuilt from the documentation with its
+ * TSDoc comments. It is a compact, declaration-only view of an API, much
+ * smaller than the TypeDoc JSON it comes from.
+ */
+
+import { TypeDocParser } from '../parser/index.js';
+import { ReexportSource, printDeclarationFile } from '../printer/declaration-printer.js';
+import { Reflection, ReflectionKind } from '../types/typedoc.js';
+
+/**
+ * Options for rebuilding module declarations
+ */
+export interface ModuleDeclarationsOptions {
+  /** Whether to include TSDoc comments (default true) */
+  includeComments?: boolean;
+}
+
+/**
+ * Gets the declaration file of a module or of the whole project
+ * 
+ * @param parser - The TypeDoc parser instance with loaded documentation
+ * @param moduleName - Module name as TypeDoc reports it (e.g., "tools/find-symbol");
+ * the project name, or no name, gives the whole project
+ * @param options - Output options
+ * @returns MCP resource object containing the declaration source
+ * 
+ * @throws Error if the documentation has no module with that name
+ * 
+ * @remarks
+ * The declarations are rebuilt from the reflection tree, so they contain
+ * what the documentation contains: symbols TypeDoc excluded (such as
+ * private or internal ones, depending on its configuration) are missing.
+ * For a project with several modules, each module becomes a
+ * `declare module "name"` block.
+ * 
+ * @example
+ * ```typescript
+ * const resource = await getModuleDeclarations(parser, 'tools/find-symbol');
+ * console.log(resource.content);
+ * ```
+ */
+export async function getModuleDeclarations(parser: TypeDocParser, moduleName?: string, options: ModuleDeclarationsOptions = {}) {
+  const reflection = findModule(parser, moduleName);
+  const name = moduleName ?? reflection.name;
+
+  return {
+    /**
+     * Resource URI following MCP convention
+     * @internal
+     */
+    uri: `typedoc://module/${name}.d.ts`,
+
+    /**
+     * Human-readable resource name
+     * @internal
+     */
+    name: `Declarations: ${name}`,
+
+    /**
+     * MIME type for the resource content
+     * @internal
+     */
+    mimeType: 'text/plain',
+
+    /**
+     * The declaration source
+     */
+    content: printDeclarationFile(reflection, {
+      comments: options.includeComments ?? true,
+      resolveReexport: reference => resolveReexport(parser, reference),
+    }),
+  };
+}
+
+/**
+ * Finds a module, or the project, with its declarations loaded
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param moduleName - Module or project name
+ * @returns The module or project reflection
+ * 
+ * @remarks
+ * When streaming, the project is held with compact records as children,
+ * so each of them is read back in full. Re-exports are read as themselves,
+ * so they print as re-exports rather than as copies of their targets.
+ * 
+ * @internal
+ */
+function findModule(parser: TypeDocParser, moduleName?: string): Reflection {
+  const project = parser.findByKind(ReflectionKind.Project)[0]?.reflection;
+  if (!project) {
+    throw new Error('Documentation has no project');
+  }
+
+  if (moduleName === undefined || moduleName === project.name) {
+    const children = (project.children || []).map(child => parser.getById(child.id, false) || child);
+    return { ...project, children };
+  }
+
+  const modules = parser.findByKind(ReflectionKind.Module);
+  const match = modules.find(module => module.name === moduleName) || modules.find(module => module.path === moduleName);
+  if (!match) {
+    const available = modules.map(module => module.name).join(', ');
+    throw new Error(`Unknown module: ${moduleName}. Available modules: ${available || `none (use "${project.name}" for the whole project)`}`);
+  }
+
+  return match.reflection;
+}
+
+/**
+ * Finds the declaration a re-export refers to and the module declaring it
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param reference - The re-export
+ * @returns The declaration's name and module, or undefined if it is not
+ * in the documentation; a re-exported module is its own module
+ * 
+ * @remarks
+ * The module is the one with the longest path the declaration's path
+ * starts with, so no module bodies are read.
+ * 
+ * @internal
+ */
+function resolveReexport(parser: TypeDocParser, reference: Reflection): ReexportSource | undefined {
+  const target = parser.findById(reference.id);
+  if (!target || target.id === reference.id) return undefined;
+  if (target.reflectionKind === ReflectionKind.Module) {
+    return { name: target.name, module: target.name, namespace: true };
+  }
+
+  const module = parser.findByKind(ReflectionKind.Module)
+    .filter(module => target.path.startsWith(`${module.path}.`))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+  return { name: target.name, module: module?.name };
+}
@@ -0,0 +1,82 @@
+/**
+ * Documentation generation status resource for MCP
+ * 
+ * @packageDocumentation
+ * @module resources/generation
+ * 
+ * @remarks
+ * In watch mode the server regenerates documentation whenever sources
+ * change. This resource tells AI agents whether the documentation they are
+ * reading reflects the current sources.
+ */
+
+/**
+ * State of watch-mode documentation generation
+ */
+export interface GenerationStatus {
+  /** Absolute directories being watched for source changes */
+  watching: string[];
+  /** `idle` before the first run, then the state of the latest run */
+  state: 'idle' | 'running' | 'succeeded' | 'failed';
+  /** When the latest run finished (ISO 8601) */
+  lastRunAt?: string;
+  /** How long the latest run took, in milliseconds */
+  durationMs?: number;
+  /** Project-relative files whose changes triggered the latest run */
+  changedFiles?: string[];
+  /** Warnings reported by TypeDoc during the latest run */
+  warnings: string[];
+  /** Why the latest run failed */
+  error?: string;
+  /** JSON output of the latest successful run */
+  jsonPath?: string;
+}
+
+/**
+ * Gets the documentation generation status
+ * 
+ * @param status - Current generation state
+ * @param upToDate - Whether the loaded documentation reflects the current sources
+ * @returns MCP resource object containing the generation status
+ * 
+ * @remarks
+ * Documentation is not up to date while source changes are waiting to be
+ * regenerated, while generation runs, after a failed run, or when the
+ * regenerated output could not be loaded.
+ * 
+ * @example
+ * ```typescript
+ * const resource = await getGenerationStatus(status, !watcher.pending);
+ * console.log(`Last run: ${resource.content.state}`);
+ * ```
+ */
+export async function getGenerationStatus(status: GenerationStatus, upToDate: boolean) {
+  return {
+    /**
+     * Resource URI following MCP convention
+     * @internal
+     */
+    uri: 'typedoc://generation',
+
+    /**
+     * Human-readable resource name
+     * @internal
+     */
+    name: 'Documentation Generation Status',
+
+    /**
+     * MIME type for the resource content
+     * @internal
+     */
+    mimeType: 'application/json',
+
+    /**
+     * The actual status content
+     */
+    content: {
+      /** Whether the loaded documentation reflects the current sources */
+      upToDate,
+      ...status,
+    },
+  };
+}
@@ -12,6 +12,23 @@
 import { TypeDocParser } from '../parser/index.js';
 import { CommentDisplayPart } from '../types/typedoc.js';
 
+/**
+ * State of documentation hot-reloading
+ */
+export interface ReloadStatus {
+  /** Whether the documentation file is being watched for changes */
+  watching: boolean;
+  /** When the documentation was last reloaded successfully (ISO 8601) */
+  lastReloadAt?: string;
+  /** Why the most recent reload failed, if it did */
+  lastError?: {
+    /** Error message */
+    message: string;
+    /** When the reload failed (ISO 8601) */
+    at: string;
+  };
+}
+
 /**
  * Formats readme content from CommentDisplayPart array to plain text
  * 
@@ -37,13 +54,17 @@ function formatReadme(readme: CommentDisplayPart[], maxLength: number): string {
  * Gets a comprehensive overview of the documented project
  * 
  * @param parser - The TypeDoc parser instance with loaded documentation
+ * @param reload - Hot-reload state, if the server watches the documentation
  * @returns MCP resource object containing project overview
  * 
  * @remarks
  * This function creates an MCP resource that provides:
  * - Project name and version
- * - Brief description from README
+ * - Brief description from README, and the titles of project documents
  * - Statistics about documented symbols (classes, interfaces, functions, etc.)
+ * - Load mode, the TypeDoc release the JSON was read as, time to first
+ *   answer and memory use
+ * - Whether the documentation is watched, and the last reload error
  * 
  * This overview helps AI agents understand the scope and structure of the
  * codebase before diving into specific symbols.
@@ -60,7 +81,7 @@ function formatReadme(readme: CommentDisplayPart[], maxLength: number): string {
  * 
  * @see {@link https://modelcontextprotocol.io/docs/concepts/resources | MCP Resources}
  */
-export async function getProjectOverview(parser: TypeDocParser) {
+export async function getProjectOverview(parser: TypeDocParser, reload?: ReloadStatus) {
   const info = parser.getProjectInfo();
   const stats = parser.getStats();
   
@@ -96,6 +117,9 @@ export async function getProjectOverview(parser: TypeDocParser) {
       /** Truncated README content for brief description */
       description: info?.readme ? formatReadme(info.readme, 500) : undefined,
       
+      /** Titles of project-level documents (TypeDoc 0.26+) */
+      documents: info?.documents.length ? info.documents : undefined,
+      
       /** Statistics about documented symbols */
       stats: {
         /** Total number of documented symbols */
@@ -115,6 +139,12 @@ export async function getProjectOverview(parser: TypeDocParser) {
         /** Number of variables */
         variables: stats.variables,
       },
+      
+      /** How the documentation was loaded, with load time and memory use */
+      load: stats.load,
+      
+      /** Hot-reload state; a `lastError` means an older version is being served */
+      reload,
     },
   };
 }
\ No newline at end of file
@@ -11,6 +11,7 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
+import { inspectDocumentationFile } from '../parser/validation.js';
 
 /**
  * Setup status information
@@ -129,10 +130,12 @@ export async function checkTypeDocSetup(projectPath: string): Promise<SetupStatu
       for (const outputPath of commonPaths) {
         const fullPath = path.join(projectPath, outputPath);
         try {
-          await fs.access(fullPath);
-          status.hasOutput = true;
-          status.outputPath = fullPath;
-          break;
+          // The project's typedoc.json is usually the configuration, not output
+          if ((await inspectDocumentationFile(fullPath)).valid) {
+            status.hasOutput = true;
+            status.outputPath = fullPath;
+            break;
+          }
         } catch {
           // Continue checking
         }
@@ -0,0 +1,133 @@
+/**
+ * Emit declarations tool for MCP
+ * 
+ * @packageDocumentation
+ * @module tools/emit-declarations
+ * 
+ * @remarks
+ * This tool writes the declaration file (`.d.ts`) of a module or of the whole
+ * project to disk, so a compact view of an API can be pinned into an agent's
+ * context or checked into a repository.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TypeDocParser } from '../parser/index.js';
+import { getModuleDeclarations } from '../resources/declarations.js';
+
+/**
+ * Parameters for emit declarations function
+ */
+export interface EmitDeclarationsParams {
+  /** Path of the `.d.ts` file to write, relative to the output directory */
+  outputPath: string;
+  /** Module to emit (e.g., "tools/find-symbol"); the whole project if omitted */
+  module?: string;
+  /** Include TSDoc comments (default true) */
+  includeComments?: boolean;
+  /** Replace the file if it already exists (default false) */
+  overwrite?: boolean;
+}
+
+/**
+ * Writes the declaration file of a module or project
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param params - Module, output path and options
+ * @param outputDir - Directory the file must be written into (default: the
+ * working directory)
+ * @returns Where the file was written and how large it is
+ * 
+ * @throws Error if the module does not exist, the output path is not a
+ * `.d.ts` file inside the output directory, the file exists and
+ * `overwrite` is not set, or the file cannot be written
+ * 
+ * @remarks
+ * The file holds the same source as the `typedoc://module/{name}.d.ts`
+ * resource. Since the path comes from the agent, it is confined to the
+ * output directory: paths that lead out of it, directly or through a
+ * symbolic link, are refused, as is anything but a regular file at the
+ * path. Missing parent directories are created. An existing file is only
+ * replaced with `overwrite: true`.
+ * 
+ * @example
+ * ```typescript
+ * const result = await emitDeclarations(parser, {
+ *   module: 'tools/find-symbol',
+ *   outputPath: 'api/find-symbol.d.ts',
+ *   overwrite: true
+ * }, projectPath);
+ * console.log(`Wrote ${result.lines} lines to ${result.outputPath}`);
+ * ```
+ */
+export async function emitDeclarations(parser: TypeDocParser, params: EmitDeclarationsParams, outputDir = process.cwd()) {
+  if (!params.outputPath) {
+    throw new Error('outputPath must be provided');
+  }
+
+  const outputPath = await resolveOutputPath(outputDir, params.outputPath);
+  const resource = await getModuleDeclarations(parser, params.module, { includeComments: params.includeComments });
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  try {
+    await fs.writeFile(outputPath, resource.content, { encoding: 'utf-8', flag: params.overwrite ? 'w' : 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(`${outputPath} already exists; set overwrite to replace it`);
+    }
+    throw error;
+  }
+
+  return {
+    outputPath,
+    uri: resource.uri,
+    bytes: Buffer.byteLength(resource.content),
+    lines: resource.content.split('\n').length - 1,
+  };
+}
+
+/**
+ * Resolves an output path inside the output directory
+ * 
+ * @param outputDir - Directory the file must be written into
+ * @param outputPath - Requested path, relative to the directory
+ * @returns The absolute path to write
+ * 
+ * @throws Error if the path is not a `.d.ts` file, leads out of the
+ * directory, or names something other than a regular file
+ * 
+ * @internal
+ */
+async function resolveOutputPath(outputDir: string, outputPath: string): Promise<string> {
+  if (!outputPath.endsWith('.d.ts')) {
+    throw new Error(`outputPath must name a .d.ts file: ${outputPath}`);
+  }
+
+  const root = await fs.realpath(path.resolve(outputDir));
+  const target = path.resolve(root, outputPath);
+  const outside = new Error(`outputPath must stay inside ${root}: ${outputPath}`);
+  if (!isInside(root, target)) throw outside;
+
+  // Symbolic links inside the directory must not lead out of it either
+  let existing = path.dirname(target);
+  while (!(await fs.stat(existing).then(() => true, () => false))) {
+    existing = path.dirname(existing);
+  }
+  if (existing !== root && !isInside(root, await fs.realpath(existing))) throw outside;
+
+  const stats = await fs.lstat(target).catch(() => null);
+  if (stats && !stats.isFile()) {
+    throw new Error(`${target} exists and is not a regular file`);
+  }
+  return target;
+}
+
+/**
+ * Whether a path lies strictly inside a directory
+ * 
+ * @internal
+ */
+function isInside(dir: string, file: string): boolean {
+  const relative = path.relative(dir, file);
+  return relative !== '' && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative);
+}
@@ -0,0 +1,102 @@
+/**
+ * Find references tool for MCP
+ * 
+ * @packageDocumentation
+ * @module tools/find-references
+ * 
+ * @remarks
+ * This tool answers "where is this type used?" by listing every property,
+ * parameter, return type, type alias, type argument and heritage clause
+ * that mentions a symbol.
+ */
+
+import { TypeDocParser, ReferenceUsage } from '../parser/index.js';
+import { Reflection } from '../types/typedoc.js';
+
+/**
+ * Parameters for find references function
+ */
+export interface FindReferencesParams {
+  /** TypeDoc ID of the referenced symbol */
+  symbolId?: number;
+  /** Full path to the referenced symbol (e.g., "MyNamespace.MyInterface") */
+  symbolPath?: string;
+  /** Only return references with this usage kind */
+  usage?: ReferenceUsage;
+}
+
+/**
+ * Finds every place a symbol is mentioned in other symbols' types
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param params - Parameters specifying the referenced symbol
+ * @returns Object containing references grouped by usage kind
+ * 
+ * @throws Error if the symbol is not found
+ * 
+ * @remarks
+ * References come from the reverse index built by {@link TypeDocParser.parse}.
+ * Parameter and return type usages point at the signature that declares them;
+ * mentions inside inline object types point at the enclosing declaration.
+ * 
+ * @example
+ * ```typescript
+ * // Everything that mentions the User interface
+ * const result = await findReferences(parser, { symbolPath: 'User' });
+ * 
+ * // Only functions that accept a User
+ * const params = await findReferences(parser, {
+ *   symbolId: 123,
+ *   usage: 'parameter'
+ * });
+ * ```
+ */
+export async function findReferences(parser: TypeDocParser, params: FindReferencesParams) {
+  if (params.symbolId === undefined && params.symbolPath === undefined) {
+    throw new Error('Either symbolId or symbolPath must be provided');
+  }
+
+  let reflection: Reflection | null = null;
+
+  if (params.symbolId !== undefined) {
+    reflection = parser.getById(params.symbolId);
+  } else if (params.symbolPath) {
+    const symbol = parser.findByPath(params.symbolPath);
+    reflection = symbol?.reflection || null;
+  }
+
+  if (!reflection) {
+    throw new Error('Symbol not found');
+  }
+
+  const references: Record<string, any[]> = {};
+  let total = 0;
+
+  for (const ref of parser.findReferences(reflection.id)) {
+    if (params.usage && ref.usage !== params.usage) continue;
+
+    const from = parser.findById(ref.fromId);
+    if (!from) continue;
+
+    const group = references[ref.usage] || [];
+    group.push({
+      name: from.name,
+      kind: from.kind,
+      path: from.path,
+      id: from.id,
+      parameter: ref.parameter,
+      source: from.sources?.[0] ? {
+        fileName: from.sources[0].fileName,
+        line: from.sources[0].line,
+      } : undefined,
+    });
+    references[ref.usage] = group;
+    total++;
+  }
+
+  return {
+    symbol: reflection.name,
+    total,
+    references,
+  };
+}
@@ -51,6 +51,8 @@ const kindMap: Record<string, ReflectionKind> = {
  * - Exact or partial matching (case-insensitive for partial)
  * - Optional filtering by symbol kind (class, interface, function, etc.)
  * - Source file location information when available
+ * - Re-exports resolved to the symbol they re-export, with every path the
+ *   symbol is exported under listed in `exportPaths`
  * 
  * @example
  * ```typescript
@@ -72,7 +74,7 @@ export async function findSymbol(parser: TypeDocParser, params: FindSymbolParams
   // Filter by kind if specified
   if (params.kind && symbols.length > 0) {
     const targetKind = kindMap[params.kind];
-    symbols = symbols.filter(s => s.reflection.kind === targetKind);
+    symbols = symbols.filter(s => s.reflectionKind === targetKind);
   }
   
   return {
@@ -81,9 +83,11 @@ export async function findSymbol(parser: TypeDocParser, params: FindSymbolParams
       kind: s.kind,
       path: s.path,
       id: s.id,
-      source: s.reflection.sources?.[0] ? {
-        fileName: s.reflection.sources[0].fileName,
-        line: s.reflection.sources[0].line,
+      key: s.key,
+      exportPaths: s.exportPaths.length > 1 ? s.exportPaths : undefined,
+      source: s.sources?.[0] ? {
+        fileName: s.sources[0].fileName,
+        line: s.sources[0].line,
       } : undefined,
     })),
   };
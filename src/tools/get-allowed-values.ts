@@ -0,0 +1,460 @@
+/**
+ * Get allowed values tool for MCP
+ * 
+ * @packageDocumentation
+ * @module tools/get-allowed-values
+ * 
+ * @remarks
+ * This tool answers "what values can this take?" for enums, literal union
+ * types, `keyof` types and discriminated unions, and for properties and
+ * variables typed with one of them.
+ */
+
+import { TypeDocParser } from '../parser/index.js';
+import { getKindName } from '../parser/schema.js';
+import { printType } from '../printer/type-printer.js';
+import { Reflection, ReflectionKind, Type } from '../types/typedoc.js';
+
+/**
+ * Parameters for get allowed values function
+ */
+export interface GetAllowedValuesParams {
+  /** TypeDoc ID of the symbol */
+  symbolId?: number;
+  /** Full path to the symbol (e.g., "models.Status") */
+  symbolPath?: string;
+  /** Stable symbol key (e.g., "enum:models.Status") */
+  symbolKey?: string;
+}
+
+/**
+ * A value a type allows
+ */
+export interface AllowedValue {
+  /** The value; absent for `undefined` */
+  value?: string | number | boolean | null;
+  /** The value as written in TypeScript (e.g., `"up"`, `Status.Active`) */
+  literal: string;
+  /** Enum member name */
+  name?: string;
+  /** Documentation of the enum member */
+  description?: string;
+  /** Path of the enum, alias or interface the value comes from, if not the symbol itself */
+  from?: string;
+}
+
+/**
+ * A variant of a discriminated union
+ */
+export interface UnionVariant {
+  /** Discriminant values selecting the variant */
+  discriminant: AllowedValue[];
+  /** The variant's type */
+  type: string;
+  /** Path of the variant, if it is a documented interface, class or alias */
+  path?: string;
+  /** Documentation of the variant */
+  description?: string;
+}
+
+/**
+ * Allowed values of a symbol
+ */
+export interface GetAllowedValuesResult {
+  /** Symbol name */
+  name: string;
+  /** Human-readable kind */
+  kind: string;
+  /** Full path */
+  path: string;
+  /** The type the values come from */
+  type: string;
+  /** Every value, in declaration order; for a discriminated union, the discriminant values */
+  values: AllowedValue[];
+  /** Whether other values are allowed too, because the type includes non-literal types */
+  open: boolean;
+  /** The non-literal types that make the type open (e.g., `string & {}`) */
+  otherTypes?: string[];
+  /** Name of the discriminant property, for a discriminated union */
+  discriminant?: string;
+  /** The variants of a discriminated union */
+  variants?: UnionVariant[];
+}
+
+/**
+ * Values and non-literal types collected from a type
+ * 
+ * @internal
+ */
+interface Collected {
+  values: AllowedValue[];
+  other: string[];
+}
+
+/**
+ * Lists the values an enum or type allows
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param params - Parameters specifying the symbol
+ * @returns The allowed values, and the variants of a discriminated union
+ * 
+ * @throws Error if the symbol is not found or has no type
+ * 
+ * @remarks
+ * The symbol can be an enum, a type alias, or anything with a type, such
+ * as a property, variable or parameter. Values are collected from:
+ * - Enum members, with their values and documentation
+ * - Literal types, including those in unions
+ * - References to type aliases without type parameters, to enums and to
+ *   enum members, followed through any number of aliases
+ * - `boolean`, as `true` and `false`
+ * - `keyof` of a documented interface, class or object type, as the names
+ *   of its members
+ * 
+ * Any other type in a union (such as `string & {}` in
+ * `'debug' | 'info' | (string & {})`) makes the values non-exhaustive;
+ * it is listed in `otherTypes` and `open` is true.
+ * 
+ * A union of object types that all have a property with literal types,
+ * such as `{ kind: 'circle'; ... } | { kind: 'square'; ... }`, is a
+ * discriminated union: `discriminant` names the property, `variants`
+ * lists each object type with the values that select it, and `values`
+ * holds the discriminant values.
+ * 
+ * @example
+ * ```typescript
+ * const { values } = await getAllowedValues(parser, { symbolPath: 'Status' });
+ * // [{ value: 'active', literal: 'Status.Active', name: 'Active', ... }, ...]
+ * 
+ * const shapes = await getAllowedValues(parser, { symbolPath: 'Shape' });
+ * // shapes.discriminant === 'kind'
+ * ```
+ */
+export async function getAllowedValues(parser: TypeDocParser, params: GetAllowedValuesParams): Promise<GetAllowedValuesResult> {
+  if (params.symbolId === undefined && params.symbolPath === undefined && params.symbolKey === undefined) {
+    throw new Error('One of symbolId, symbolPath or symbolKey must be provided');
+  }
+
+  let reflection: Reflection | null = null;
+
+  if (params.symbolId !== undefined) {
+    reflection = parser.getById(params.symbolId);
+  } else if (params.symbolPath) {
+    reflection = parser.findByPath(params.symbolPath)?.reflection || null;
+  } else if (params.symbolKey) {
+    reflection = parser.findByKey(params.symbolKey)?.reflection || null;
+  }
+
+  if (!reflection) {
+    throw new Error('Symbol not found');
+  }
+
+  const symbol = parser.findById(reflection.id);
+  const result = {
+    name: reflection.name,
+    kind: symbol?.kind || getKindName(reflection.kind),
+    path: symbol?.path || reflection.name,
+  };
+
+  if (reflection.kind === ReflectionKind.Enum) {
+    return { ...result, type: reflection.name, values: enumValues(reflection), open: false };
+  }
+
+  const type = reflection.type ?? reflection.getSignature?.type;
+  if (!type) {
+    throw new Error(`${reflection.name} has no type; allowed values are listed for enums, type aliases, properties and variables`);
+  }
+
+  const variants = discriminate(parser, type, new Set([reflection.id]));
+  if (variants) {
+    return {
+      ...result,
+      type: printType(type),
+      values: dedupe(variants.variants.flatMap(variant => variant.discriminant)),
+      open: false,
+      discriminant: variants.discriminant,
+      variants: variants.variants,
+    };
+  }
+
+  const collected: Collected = { values: [], other: [] };
+  collect(parser, type, collected, new Set([reflection.id]));
+
+  return {
+    ...result,
+    type: printType(type),
+    values: dedupe(collected.values),
+    open: collected.other.length > 0,
+    otherTypes: collected.other.length ? [...new Set(collected.other)] : undefined,
+  };
+}
+
+/**
+ * Lists the members of an enum as values
+ * 
+ * @internal
+ */
+function enumValues(reflection: Reflection, from?: string): AllowedValue[] {
+  return (reflection.children || [])
+    .filter(member => member.kind === ReflectionKind.EnumMember)
+    .map(member => enumMemberValue(reflection.name, member, from));
+}
+
+/**
+ * Describes an enum member as a value
+ * 
+ * @param enumName - Name of the enum, to write the literal with
+ * @param member - The enum member
+ * @param from - Path of the enum, when it is not the symbol asked about
+ * 
+ * @remarks
+ * TypeDoc 0.23 and later give the value as a literal type; older versions
+ * only as `defaultValue` source text.
+ * 
+ * @internal
+ */
+function enumMemberValue(enumName: string, member: Reflection, from?: string): AllowedValue {
+  let value: AllowedValue['value'];
+  if (member.type?.type === 'literal') {
+    value = literalValue(member.type);
+  } else if (member.defaultValue !== undefined) {
+    const text = member.defaultValue.trim();
+    value = /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : text.replace(/^(["'`])(.*)\1$/, '$2');
+  }
+
+  return {
+    value,
+    literal: `${enumName}.${member.name}`,
+    name: member.name,
+    description: member.comment?.summary?.map(p => p.text).join('').trim() || undefined,
+    from,
+  };
+}
+
+/**
+ * Collects the values of a type
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param type - The type
+ * @param collected - Values and other types found so far
+ * @param seen - Aliases being followed, to stop at recursive ones
+ * @param from - Path of the alias the type comes from
+ * 
+ * @internal
+ */
+function collect(parser: TypeDocParser, type: Type, collected: Collected, seen: Set<number>, from?: string): void {
+  switch (type.type) {
+    case 'literal':
+      collected.values.push({ value: literalValue(type), literal: printType(type), from });
+      return;
+
+    case 'intrinsic':
+      if (type.name === 'boolean') {
+        collected.values.push({ value: true, literal: 'true', from }, { value: false, literal: 'false', from });
+      } else if (type.name === 'undefined') {
+        collected.values.push({ literal: 'undefined', from });
+      } else if (type.name === 'null') {
+        collected.values.push({ value: null, literal: 'null', from });
+      } else {
+        collected.other.push(printType(type));
+      }
+      return;
+
+    case 'union':
+      for (const member of type.types || []) collect(parser, member, collected, seen, from);
+      return;
+
+    case 'reference': {
+      const target = parser.resolveType(type);
+      if (target?.kind === ReflectionKind.Enum) {
+        collected.values.push(...enumValues(target, pathOf(parser, target)));
+        return;
+      }
+      if (target?.kind === ReflectionKind.EnumMember) {
+        const owner = type.name?.split('.').slice(-2)[0] || target.name;
+        collected.values.push(enumMemberValue(owner, target, from));
+        return;
+      }
+      if (target?.kind === ReflectionKind.TypeAlias && target.type && !target.typeParameters?.length && !seen.has(target.id)) {
+        seen.add(target.id);
+        collect(parser, target.type, collected, seen, pathOf(parser, target));
+        seen.delete(target.id);
+        return;
+      }
+      collected.other.push(printType(type));
+      return;
+    }
+
+    case 'typeOperator':
+      if (type.operator === 'keyof' && type.target && typeof type.target === 'object' && 'type' in type.target) {
+        const shape = resolveShape(parser, type.target as Type);
+        if (shape) {
+          const keyFrom = shape.id > 0 && shape.kind !== ReflectionKind.TypeLiteral ? pathOf(parser, shape) : from;
+          for (const member of shape.children || []) {
+            if (member.flags?.isStatic || member.flags?.isPrivate || member.flags?.isProtected) continue;
+            if (member.kind === ReflectionKind.Constructor) continue;
+            collected.values.push({ value: member.name, literal: JSON.stringify(member.name), from: keyFrom });
+          }
+          // Index signatures allow any key of their key type; string keys include numbers
+          for (const signature of shape.indexSignatures || []) {
+            const keyType = printType(signature.parameters?.[0]?.type);
+            collected.other.push(...(keyType === 'string' ? ['string', 'number'] : [keyType]));
+          }
+          return;
+        }
+      }
+      collected.other.push(printType(type));
+      return;
+
+    default:
+      collected.other.push(printType(type));
+  }
+}
+
+/**
+ * Recognizes a discriminated union
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param type - The type
+ * @param seen - Aliases being followed
+ * @returns The discriminant property and the variants, or null if the type
+ * is not a union of object types sharing a property with literal types
+ * that tell the variants apart
+ * 
+ * @remarks
+ * A property only discriminates if no value belongs to more than one
+ * variant, which rules out shared flags (`enabled: boolean`) and shared
+ * literals. Properties with exactly one value per variant are preferred,
+ * since TypeDoc lists properties alphabetically rather than as written.
+ * 
+ * @internal
+ */
+function discriminate(parser: TypeDocParser, type: Type, seen: Set<number>): { discriminant: string; variants: UnionVariant[] } | null {
+  const members = flattenUnion(parser, type, seen);
+  if (members.length < 2) return null;
+
+  const shapes = members.map(member => resolveShape(parser, member));
+  if (shapes.some(shape => !shape)) return null;
+
+  const literalsOf = (shape: Reflection, name: string): AllowedValue[] | null => {
+    const property = shape.children?.find(child => child.name === name && child.kind === ReflectionKind.Property);
+    if (!property?.type) return null;
+    const collected: Collected = { values: [], other: [] };
+    collect(parser, property.type, collected, new Set(seen));
+    return collected.values.length && !collected.other.length ? collected.values.map(({ from: _, ...value }) => value) : null;
+  };
+
+  // A shared flag or a literal common to several variants tells nothing apart
+  const candidates: { name: string; discriminants: AllowedValue[][] }[] = [];
+  for (const property of shapes[0]!.children || []) {
+    const discriminants = shapes.map(shape => literalsOf(shape!, property.name));
+    if (discriminants.every((values): values is AllowedValue[] => !!values) && isDisjoint(discriminants)) {
+      candidates.push({ name: property.name, discriminants });
+    }
+  }
+  const best = candidates.find(candidate => candidate.discriminants.every(values => values.length === 1)) ?? candidates[0];
+
+  if (!best) return null;
+
+  return {
+    discriminant: best.name,
+    variants: members.map((member, i) => {
+      const target = member.type === 'reference' ? parser.resolveType(member) : null;
+      return {
+        discriminant: best.discriminants[i],
+        type: printType(member),
+        path: target ? pathOf(parser, target) : undefined,
+        description: target?.comment?.summary?.map(p => p.text).join('').trim() || undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * Whether no value appears in more than one variant
+ * 
+ * @internal
+ */
+function isDisjoint(discriminants: AllowedValue[][]): boolean {
+  const seen = new Set<string>();
+  for (const values of discriminants) {
+    const literals = new Set(values.map(value => value.literal));
+    for (const literal of literals) {
+      if (seen.has(literal)) return false;
+    }
+    literals.forEach(literal => seen.add(literal));
+  }
+  return true;
+}
+
+/**
+ * Lists the members of a union, following aliases of unions
+ * 
+ * @internal
+ */
+function flattenUnion(parser: TypeDocParser, type: Type, seen: Set<number>): Type[] {
+  if (type.type === 'union') {
+    return (type.types || []).flatMap(member => flattenUnion(parser, member, seen));
+  }
+
+  const target = type.type === 'reference' ? parser.resolveType(type) : null;
+  if (target?.kind === ReflectionKind.TypeAlias && target.type?.type === 'union' && !target.typeParameters?.length && !seen.has(target.id)) {
+    return flattenUnion(parser, target.type, new Set([...seen, target.id]));
+  }
+
+  return [type];
+}
+
+/**
+ * Finds the object type a type stands for
+ * 
+ * @returns The inline object type, or the interface or class referenced
+ * directly or through a type alias; null for anything else
+ * 
+ * @internal
+ */
+function resolveShape(parser: TypeDocParser, type: Type): Reflection | null {
+  if (type.type === 'reflection') return type.declaration?.children ? type.declaration : null;
+  if (type.type !== 'reference') return null;
+
+  const target = parser.resolveType(type);
+  if (target?.kind === ReflectionKind.Interface || target?.kind === ReflectionKind.Class) return target;
+  if (target?.kind === ReflectionKind.TypeAlias && target.type?.type === 'reflection' && !target.typeParameters?.length) {
+    return target.type.declaration?.children ? target.type.declaration : null;
+  }
+
+  return null;
+}
+
+/**
+ * Converts a literal type's value to JSON
+ * 
+ * @remarks
+ * Bigint literals, which JSON cannot hold, become strings such as `"-1n"`.
+ * 
+ * @internal
+ */
+function literalValue(type: Type): AllowedValue['value'] {
+  const value = type.value;
+  if (value === undefined) return null;
+  return typeof value === 'object' && value !== null ? printType(type) : value;
+}
+
+/**
+ * Removes repeated values, keeping the first
+ * 
+ * @internal
+ */
+function dedupe(values: AllowedValue[]): AllowedValue[] {
+  const seen = new Set<string>();
+  return values.filter(value => !seen.has(value.literal) && seen.add(value.literal));
+}
+
+/**
+ * Gets the path of a reflection
+ * 
+ * @internal
+ */
+function pathOf(parser: TypeDocParser, reflection: Reflection): string {
+  return parser.findById(reflection.id)?.path || reflection.name;
+}
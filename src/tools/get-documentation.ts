@@ -9,8 +9,14 @@
  * including descriptions, parameters, return types, examples, and metadata.
  */
 
+import { instantiate, parseInstantiation, parseTypeArguments } from '../parser/generics.js';
 import { TypeDocParser } from '../parser/index.js';
-import { Reflection, Parameter, Signature } from '../types/typedoc.js';
+import { DocumentationSource, inheritDocumentation } from '../parser/inherit-doc.js';
+import { createLinkResolver } from '../parser/links.js';
+import { getKindName } from '../parser/schema.js';
+import { CommentFormat, CommentRenderer, createCommentRenderer } from '../printer/comment-renderer.js';
+import { printSignature, printType } from '../printer/type-printer.js';
+import { Comment, Reflection, ReflectionKind, Parameter, Signature, Type, TypeParameter } from '../types/typedoc.js';
 
 /**
  * Parameters for get documentation function
@@ -20,6 +26,39 @@ export interface GetDocumentationParams {
   symbolId?: number;
   /** Full path to the symbol (e.g., "MyClass.myMethod") */
   symbolPath?: string;
+  /** Stable symbol key (e.g., "method:MyClass.myMethod") */
+  symbolKey?: string;
+  /** Instantiation to document (e.g., "Repository<User>"), instead of a symbol */
+  type?: string;
+  /** Type arguments to document the symbol with (e.g., ["string", "User"]) */
+  typeArguments?: string[];
+  /** Levels of nested properties to list for object parameters (default 2, 0 to disable) */
+  expandDepth?: number;
+  /** Format of descriptions and other comment text (default "markdown") */
+  format?: CommentFormat;
+}
+
+/**
+ * Default nesting depth of expanded object parameters
+ * 
+ * @internal
+ */
+const DEFAULT_EXPAND_DEPTH = 2;
+
+/**
+ * State shared while documenting a symbol
+ * 
+ * @internal
+ */
+interface DocumentationContext {
+  /** Parser to resolve referenced interfaces and aliases with */
+  parser: TypeDocParser;
+  /** Levels of nested properties of object parameters to list */
+  depth: number;
+  /** Renders comment text and collects its links */
+  comments: CommentRenderer;
+  /** Where inherited comments came from, by reflection or signature ID */
+  inherited: Map<number, DocumentationSource>;
 }
 
 /**
@@ -34,10 +73,44 @@ export interface GetDocumentationParams {
  * @remarks
  * This function extracts all available documentation from a TypeScript symbol including:
  * - Basic information (name, kind, description)
- * - Function signatures with parameters and return types
+ * - Every signature of functions and methods, each with its own summary,
+ *   type parameters, parameters, return type and thrown errors
+ * - Constructor signatures of classes, flagging parameter properties
+ * - The properties of options-object parameters, nested up to `expandDepth` levels
  * - Code examples from @example tags
  * - Metadata (deprecation, version info, access modifiers)
  * - Source file location
+ * - Every path the symbol is exported under, when it is re-exported
+ * 
+ * Re-exports (`export { X } from`) resolve to the symbol they re-export,
+ * so looking one up returns the original symbol's documentation.
+ * 
+ * TypeDoc puts most function documentation on the signatures rather than
+ * the declaration, so each signature is documented from its own comment.
+ * The top-level `description`, `parameters` and `returns` describe the
+ * first signature, as before. The implementation signature of an
+ * overloaded function is not listed: it is not part of the function's
+ * type, and TypeDoc does not emit it.
+ * 
+ * Comment text is rendered as Markdown, or as plain text with `format`.
+ * Inline `{@link}` tags become links to the symbols they name, followed
+ * through TypeDoc's link target or looked up by name, and code spans
+ * keep their backticks. `links` lists every link with where it points;
+ * links that cannot be resolved are kept as written (`{@link Missing}`)
+ * and flagged with `resolved: false`. Examples are returned as written.
+ * 
+ * Generic symbols can be documented as an instantiation, given either as
+ * `type` (`"Repository<User>"`) or as `typeArguments` for the symbol. The
+ * arguments are substituted for the type parameters of a class,
+ * interface or type alias, of each signature of a function, or, for a
+ * member, of the class or interface declaring it. Bound type parameters
+ * are no longer listed, and `instantiation` names the instantiated type.
+ * 
+ * Members without a comment of their own are documented from the member
+ * they implement, override or inherit, and `{@inheritDoc Ref}` is
+ * replaced by the documentation of `Ref`. `documentationFrom` says where
+ * the text of the symbol, and of each signature, came from; an
+ * `{@inheritDoc}` that cannot be resolved is flagged `resolved: false`.
  * 
  * @example
  * ```typescript
@@ -48,68 +121,135 @@ export interface GetDocumentationParams {
  * const methodDoc = await getDocumentation(parser, { 
  *   symbolPath: 'MyClass.myMethod' 
  * });
+ * 
+ * // Get documentation by a key stored from an earlier session
+ * const stored = await getDocumentation(parser, { 
+ *   symbolKey: 'method:MyClass.myMethod' 
+ * });
+ * 
+ * // Get documentation of a generic interface as Repository<User>
+ * const instantiated = await getDocumentation(parser, { type: 'Repository<User>' });
  * ```
  */
 export async function getDocumentation(parser: TypeDocParser, params: GetDocumentationParams) {
-  if (params.symbolId === undefined && params.symbolPath === undefined) {
-    throw new Error('Either symbolId or symbolPath must be provided');
+  if (params.symbolId === undefined && params.symbolPath === undefined && params.symbolKey === undefined && params.type === undefined) {
+    throw new Error('One of symbolId, symbolPath, symbolKey or type must be provided');
   }
 
   let reflection: Reflection | null = null;
+  let typeArguments = params.typeArguments ? parseTypeArguments(parser, params.typeArguments) : undefined;
   
   if (params.symbolId !== undefined) {
     reflection = parser.getById(params.symbolId);
   } else if (params.symbolPath) {
     const symbol = parser.findByPath(params.symbolPath);
     reflection = symbol?.reflection || null;
+  } else if (params.symbolKey) {
+    const symbol = parser.findByKey(params.symbolKey);
+    reflection = symbol?.reflection || null;
+  } else if (params.type) {
+    const instantiation = parseInstantiation(parser, params.type);
+    reflection = instantiation.symbol.reflection;
+    typeArguments ??= instantiation.typeArguments;
   }
   
   if (!reflection) {
     throw new Error('Symbol not found');
   }
   
+  let instantiation: string | undefined;
+  if (typeArguments?.length) {
+    const instantiated = instantiate(parser, reflection, typeArguments);
+    reflection = instantiated.reflection;
+    instantiation = printType({ type: 'reference', name: instantiated.generic.name, typeArguments });
+  }
+  
+  const inherited = inheritDocumentation(parser, reflection);
+  reflection = inherited.reflection;
+  
+  const signatures = getSignatures(reflection);
+  const ctx: DocumentationContext = {
+    parser,
+    depth: params.expandDepth ?? DEFAULT_EXPAND_DEPTH,
+    comments: createCommentRenderer({ format: params.format, resolveLink: createLinkResolver(parser) }),
+    inherited: inherited.sources,
+  };
+  const comment = reflection.comment ?? signatures[0]?.comment;
+  const documentationFrom = ctx.inherited.get(reflection.comment ? reflection.id : signatures[0]?.id);
+  
   const doc: any = {
     name: reflection.name,
-    kind: reflection.kindString || 'Unknown',
-    description: getDescription(reflection),
+    kind: reflection.kindString || getKindName(reflection.kind),
+    description: getDescription({ comment }, ctx.comments),
   };
   
+  if (instantiation) {
+    doc.instantiation = instantiation;
+  }
+  
+  if (documentationFrom) {
+    doc.documentationFrom = documentationFrom;
+  }
+  
   // Add examples if present
-  const examples = getExamples(reflection);
+  const examples = getExamples({ comment });
   if (examples.length > 0) {
     doc.examples = examples;
   }
   
-  // For functions/methods, add parameters and return type
-  if (reflection.signatures && reflection.signatures.length > 0) {
-    const signature = reflection.signatures[0];
+  // Add type parameters of classes, interfaces and type aliases
+  if (reflection.typeParameters?.length) {
+    doc.typeParameters = reflection.typeParameters.map(p => describeTypeParameter(p, ctx.comments));
+  }
+  
+  // For functions/methods, add parameters and return type of the first signature
+  if (signatures.length > 0) {
+    const signature = signatures[0];
     
     if (signature.parameters) {
-      doc.parameters = signature.parameters.map(p => ({
-        name: p.name,
-        type: getTypeString(p.type),
-        description: getDescription(p),
-        optional: p.flags?.isOptional || false,
-        default: p.defaultValue,
-      }));
+      doc.parameters = signature.parameters.map(p => describeParameter(p, ctx));
     }
     
     if (signature.type) {
       doc.returns = {
-        type: getTypeString(signature.type),
-        description: getReturnsDescription(signature),
+        type: printType(signature.type),
+        description: getReturnsDescription(signature, ctx.comments),
       };
     }
+    
+    // Then every signature with its own documentation
+    doc.signatures = signatures.map((s, i) => describeSignature(s, reflection!.name, i, ctx));
+  }
+  
+  // For classes, add constructor signatures
+  const constructor = reflection.kind === ReflectionKind.Class
+    ? reflection.children?.find(child => child.kind === ReflectionKind.Constructor)
+    : undefined;
+  if (constructor?.signatures?.length) {
+    doc.constructors = constructor.signatures.map((signature, i) => {
+      // TypeDoc copies the class's type parameters onto its constructors
+      const described = describeSignature({ ...signature, typeParameters: undefined }, 'constructor', i, ctx);
+      for (const [j, parameter] of (signature.parameters || []).entries()) {
+        const property = findParameterProperty(reflection!, signature, parameter);
+        if (property) {
+          described.parameters[j].parameterProperty = {
+            access: property.flags?.isPrivate ? 'private' : property.flags?.isProtected ? 'protected' : 'public',
+            readonly: property.flags?.isReadonly || false,
+          };
+        }
+      }
+      return described;
+    });
   }
   
   // Add deprecation info
-  const deprecated = getTagContent(reflection, 'deprecated');
+  const deprecated = getTagContent({ comment }, 'deprecated', ctx.comments);
   if (deprecated) {
     doc.deprecated = deprecated;
   }
   
   // Add since info
-  const since = getTagContent(reflection, 'since');
+  const since = getTagContent({ comment }, 'since', ctx.comments);
   if (since) {
     doc.since = since;
   }
@@ -121,6 +261,12 @@ export async function getDocumentation(parser: TypeDocParser, params: GetDocumen
     else doc.access = 'public';
   }
   
+  // Add re-exported paths
+  const exportPaths = parser.findById(reflection.id)?.exportPaths || [];
+  if (exportPaths.length > 1) {
+    doc.exportPaths = exportPaths;
+  }
+  
   // Add source location
   if (reflection.sources && reflection.sources.length > 0) {
     const source = reflection.sources[0];
@@ -131,38 +277,38 @@ export async function getDocumentation(parser: TypeDocParser, params: GetDocumen
     };
   }
   
+  // Add every inline link of the rendered text, unresolved ones flagged
+  if (ctx.comments.links.length > 0) {
+    doc.links = ctx.comments.links;
+  }
+  
   return doc;
 }
 
 /**
  * Extracts description from a reflection's comment
  * 
- * @param reflection - The reflection or parameter to get description from
+ * @param reflection - The reflection, signature or parameter to get description from
+ * @param comments - Renderer for the comment text
  * @returns The description text or empty string
  * 
  * @internal
  */
-function getDescription(reflection: Reflection | Parameter): string {
-  if (!reflection.comment) return '';
+function getDescription(reflection: { comment?: Comment }, comments: CommentRenderer): string {
+  if (!reflection.comment?.summary) return '';
   
-  const parts: string[] = [];
-  
-  if (reflection.comment.summary) {
-    parts.push(reflection.comment.summary.map(p => p.text).join(''));
-  }
-  
-  return parts.join('\n').trim();
+  return comments.render(reflection.comment.summary);
 }
 
 /**
  * Extracts example code blocks from a reflection
  * 
- * @param reflection - The reflection to extract examples from
+ * @param reflection - The reflection or signature to extract examples from
  * @returns Array of example code strings
  * 
  * @internal
  */
-function getExamples(reflection: Reflection): string[] {
+function getExamples(reflection: { comment?: Comment }): string[] {
   if (!reflection.comment?.blockTags) return [];
   
   return reflection.comment.blockTags
@@ -173,74 +319,282 @@ function getExamples(reflection: Reflection): string[] {
 /**
  * Gets content of a specific documentation tag
  * 
- * @param reflection - The reflection to search in
+ * @param reflection - The reflection or signature to search in
  * @param tagName - Tag name without @ prefix
+ * @param comments - Renderer for the tag's text; without one, the text is
+ * returned as written
  * @returns Tag content or undefined if not found
  * 
  * @internal
  */
-function getTagContent(reflection: Reflection, tagName: string): string | undefined {
+function getTagContent(reflection: { comment?: Comment }, tagName: string, comments?: CommentRenderer): string | undefined {
   if (!reflection.comment?.blockTags) return undefined;
   
   const tag = reflection.comment.blockTags.find(t => t.tag === `@${tagName}`);
   if (!tag) return undefined;
   
-  return tag.content.map(p => p.text).join('').trim();
+  return comments ? comments.render(tag.content) : tag.content.map(p => p.text).join('').trim();
 }
 
 /**
  * Extracts return value description from a signature
  * 
  * @param signature - The signature to extract from
+ * @param comments - Renderer for the comment text
  * @returns Return description or empty string
  * 
  * @internal
  */
-function getReturnsDescription(signature: Signature): string {
+function getReturnsDescription(signature: Signature, comments: CommentRenderer): string {
   if (!signature.comment?.blockTags) return '';
   
   const returnsTag = signature.comment.blockTags.find(t => t.tag === '@returns');
   if (!returnsTag) return '';
   
-  return returnsTag.content.map(p => p.text).join('').trim();
+  return comments.render(returnsTag.content);
+}
+
+/**
+ * Gets the signatures a reflection is documented by
+ * 
+ * @param reflection - The reflection
+ * @returns Its call signatures, the reflection itself for a signature
+ * looked up directly (e.g., `MyClass.myMethod#signature-2`), or the
+ * getter and setter of an accessor
+ * 
+ * @internal
+ */
+function getSignatures(reflection: Reflection): Signature[] {
+  if (reflection.signatures?.length) return reflection.signatures;
+  
+  const signatureKinds = ReflectionKind.CallSignature | ReflectionKind.ConstructorSignature |
+    ReflectionKind.GetSignature | ReflectionKind.SetSignature;
+  if (reflection.kind & signatureKinds) return [reflection as unknown as Signature];
+  
+  return [reflection.getSignature, reflection.setSignature].filter((s): s is Signature => !!s);
+}
+
+/**
+ * Documents one signature from its own comment
+ * 
+ * @param signature - The signature
+ * @param name - Name to print the signature with
+ * @param index - Position among the reflection's signatures
+ * @param ctx - Documentation state
+ * @returns The signature's documentation
+ * 
+ * @internal
+ */
+function describeSignature(signature: Signature, name: string, index: number, ctx: DocumentationContext) {
+  const described: any = {
+    overload: index + 1,
+    signature: printSignature(signature, { name, width: Infinity }),
+    description: getDescription(signature, ctx.comments),
+  };
+  
+  const documentationFrom = ctx.inherited.get(signature.id);
+  if (documentationFrom) {
+    described.documentationFrom = documentationFrom;
+  }
+  
+  if (signature.typeParameters?.length) {
+    described.typeParameters = signature.typeParameters.map(p => describeTypeParameter(p, ctx.comments));
+  }
+  
+  described.parameters = (signature.parameters || []).map(p => describeParameter(p, ctx));
+  
+  if (signature.type && signature.kind !== ReflectionKind.ConstructorSignature && signature.kind !== ReflectionKind.SetSignature) {
+    described.returns = {
+      type: printType(signature.type),
+      description: getReturnsDescription(signature, ctx.comments),
+    };
+  }
+  
+  const throws = (signature.comment?.blockTags || [])
+    .filter(tag => tag.tag === '@throws')
+    .map(tag => ctx.comments.render(tag.content));
+  if (throws.length > 0) {
+    described.throws = throws;
+  }
+  
+  const examples = getExamples(signature);
+  if (examples.length > 0) {
+    described.examples = examples;
+  }
+  
+  const deprecated = getTagContent(signature, 'deprecated', ctx.comments);
+  if (deprecated) {
+    described.deprecated = deprecated;
+  }
+  
+  return described;
+}
+
+/**
+ * Documents a parameter, listing the properties of object parameters
+ * 
+ * @internal
+ */
+function describeParameter(parameter: Parameter, ctx: DocumentationContext) {
+  const described: any = {
+    name: parameter.name,
+    type: printType(parameter.type),
+    description: getDescription(parameter, ctx.comments),
+    optional: parameter.flags?.isOptional || parameter.defaultValue !== undefined,
+    default: parameter.defaultValue,
+  };
+  if (parameter.flags?.isRest) {
+    described.rest = true;
+  }
+  const properties = describeProperties(parameter.type, ctx, ctx.depth, new Set());
+  if (properties) {
+    described.properties = properties;
+  }
+  return described;
+}
+
+/**
+ * Documents a type parameter, with its `@typeParam` description
+ * 
+ * @internal
+ */
+function describeTypeParameter(typeParameter: TypeParameter, comments: CommentRenderer) {
+  return {
+    name: typeParameter.name,
+    constraint: typeParameter.constraint ? printType(typeParameter.constraint) : undefined,
+    default: typeParameter.default ? printType(typeParameter.default) : undefined,
+    description: getDescription(typeParameter, comments),
+  };
+}
+
+/**
+ * Finds the class property a constructor parameter declares
+ * 
+ * @param owner - The class
+ * @param signature - The constructor signature
+ * @param parameter - The parameter
+ * @returns The property, if the parameter is a parameter property
+ * 
+ * @remarks
+ * TypeDoc documents `constructor(readonly name: string)` as a parameter
+ * and a separate property. The property is recognized by its name and by
+ * being declared in the constructor's parameter list, at most one line
+ * per parameter below the constructor.
+ * 
+ * @internal
+ */
+function findParameterProperty(owner: Reflection, signature: Signature, parameter: Parameter): Reflection | undefined {
+  const at = signature.sources?.[0];
+  if (!at) return undefined;
+  
+  const lastLine = at.line + (signature.parameters?.length || 0);
+  return owner.children?.find(child =>
+    child.kind === ReflectionKind.Property &&
+    child.name === parameter.name &&
+    !child.inheritedFrom &&
+    child.sources?.some(source => source.fileName === at.fileName && source.line >= at.line && source.line <= lastLine)
+  );
 }
 
 /**
- * Converts TypeDoc type objects to readable strings
+ * Lists the properties of an object type, recursively
  * 
- * @param type - The type object to convert
- * @returns Human-readable type string
+ * @param type - Type of a parameter or property
+ * @param ctx - Documentation state, with the parser to resolve references with
+ * @param depth - Levels of nested properties still to list
+ * @param seen - Declarations being expanded, against cycles
+ * @returns The properties, or undefined if the type is not an object shape
  * 
  * @remarks
- * Handles various TypeScript type constructs including:
- * - Primitive types (string, number, boolean, etc.)
- * - Reference types (classes, interfaces)
- * - Array types
- * - Union and intersection types
- * - Literal types
- * - Object types
+ * Object shapes are inline object types, and references to interfaces or
+ * to aliases of object types. `undefined` and `null` are ignored in
+ * unions, so `options?: Options` is expanded; other unions are not,
+ * because their properties depend on the member. The properties of
+ * intersections are combined.
  * 
  * @internal
  */
-function getTypeString(type: any): string {
-  if (!type) return 'any';
+function describeProperties(
+  type: Type | undefined,
+  ctx: DocumentationContext,
+  depth: number,
+  seen: Set<Reflection>
+): any[] | undefined {
+  if (!type || depth <= 0) return undefined;
   
   switch (type.type) {
-    case 'intrinsic':
-      return type.name || 'any';
-    case 'reference':
-      return type.name || 'unknown';
-    case 'array':
-      return `${getTypeString(type.elementType)}[]`;
-    case 'union':
-      return type.types?.map(getTypeString).join(' | ') || 'unknown';
-    case 'intersection':
-      return type.types?.map(getTypeString).join(' & ') || 'unknown';
-    case 'literal':
-      return JSON.stringify(type.value);
+    case 'union': {
+      const members = (type.types || []).filter(t => !(t.type === 'intrinsic' && (t.name === 'undefined' || t.name === 'null')));
+      return members.length === 1 ? describeProperties(members[0], ctx, depth, seen) : undefined;
+    }
+    case 'intersection': {
+      const parts = (type.types || []).map(t => describeProperties(t, ctx, depth, seen));
+      return parts.every(part => part) ? parts.flat() : undefined;
+    }
     case 'reflection':
-      return 'object';
+      return describeMembers(type.declaration, ctx, depth, seen);
+    case 'reference': {
+      const target = ctx.parser.resolveType(type);
+      if (target?.kind === ReflectionKind.Interface) {
+        return describeMembers(target, ctx, depth, seen);
+      }
+      if (target?.kind === ReflectionKind.TypeAlias && !target.typeParameters?.length) {
+        return describeProperties(target.type, ctx, depth, seen);
+      }
+      return undefined;
+    }
     default:
-      return type.name || 'unknown';
+      return undefined;
+  }
+}
+
+/**
+ * Documents the properties and methods of an object shape
+ * 
+ * @internal
+ */
+function describeMembers(
+  shape: Reflection | undefined,
+  ctx: DocumentationContext,
+  depth: number,
+  seen: Set<Reflection>
+): any[] | undefined {
+  if (!shape?.children || seen.has(shape)) return undefined;
+  
+  seen.add(shape);
+  try {
+    return shape.children
+      .filter(child => child.kind === ReflectionKind.Property || child.kind === ReflectionKind.Method)
+      .map(child => {
+        const property: any = {
+          name: child.name,
+          type: child.type
+            ? printType(child.type)
+            : child.signatures?.length ? printSignature(child.signatures[0], { arrow: true }) : 'any',
+          optional: child.flags?.isOptional || false,
+          default: child.defaultValue ?? getDefaultTag(child),
+          description: getDescription({ comment: child.comment ?? child.signatures?.[0]?.comment }, ctx.comments),
+        };
+        const nested = describeProperties(child.type, ctx, depth - 1, seen);
+        if (nested) {
+          property.properties = nested;
+        }
+        return property;
+      });
+  } finally {
+    seen.delete(shape);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Reads a property's documented default from `@defaultValue` or `@default`
+ * 
+ * @param reflection - The property
+ * @returns The default without code fences or backticks, or undefined
+ * 
+ * @internal
+ */
+function getDefaultTag(reflection: Reflection): string | undefined {
+  const content = getTagContent(reflection, 'defaultValue') ?? getTagContent(reflection, 'default');
+  return content?.replace(/^```\w*\n?|\n?```$/g, '').replace(/^`([^`]*)`$/, '$1').trim() || undefined;
+}
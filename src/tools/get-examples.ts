@@ -0,0 +1,248 @@
+/**
+ * Get examples tool for MCP
+ * 
+ * @packageDocumentation
+ * @module tools/get-examples
+ * 
+ * @remarks
+ * This tool extracts the `@example` blocks of a symbol as code, with their
+ * language and caption, from the symbol, its signatures and the members
+ * it overrides or implements. It can also find every example in the
+ * project that uses a symbol.
+ */
+
+import { TypeDocParser } from '../parser/index.js';
+import { Comment, Reflection, Signature, Type } from '../types/typedoc.js';
+
+/**
+ * Parameters for get examples function
+ */
+export interface GetExamplesParams {
+  /** TypeDoc ID of the symbol */
+  symbolId?: number;
+  /** Full path to the symbol (e.g., "MyClass.myMethod") */
+  symbolPath?: string;
+  /** Stable symbol key (e.g., "method:MyClass.myMethod") */
+  symbolKey?: string;
+  /** Include examples of overridden base members and implemented interface members (default true) */
+  includeInherited?: boolean;
+  /** The symbol's own examples, or every example in the project that uses it (default "symbol") */
+  scope?: 'symbol' | 'project';
+}
+
+/**
+ * A code example
+ */
+export interface Example {
+  /** The code, without fences */
+  code: string;
+  /** Language of the code block (e.g., "typescript") */
+  language: string;
+  /** Title written after `@example`, or text before the code */
+  caption?: string;
+  /** Text after the code */
+  description?: string;
+  /** Path of the symbol or signature the example is documented on */
+  source: string;
+  /** How the example relates to the symbol asked about */
+  origin: 'symbol' | 'signature' | 'base' | 'interface' | 'usage';
+}
+
+/**
+ * Common language aliases of code fences
+ * 
+ * @internal
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  sh: 'shell',
+  bash: 'shell',
+};
+
+/**
+ * Gets the code examples of a symbol
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param params - Parameters specifying the symbol and where to look
+ * @returns The symbol's name and path, and its examples
+ * 
+ * @throws Error if the symbol is not found
+ * 
+ * @remarks
+ * Each `@example` block is split into its code, the language of its code
+ * fence (`typescript` when it has none, as TypeDoc treats an example
+ * without fences as TypeScript), the caption written after the tag and
+ * any text after the code. A block with several fences gives one example
+ * per fence.
+ * 
+ * Examples are gathered from the symbol's comment, then from each of its
+ * signatures, since TypeDoc puts function comments on signatures. With
+ * `includeInherited`, the examples of the members it overrides and
+ * implements follow, found through `overwrites`, `inheritedFrom` and
+ * `implementationOf`, and for classes and interfaces those of their base
+ * types. Examples with the same code are listed once.
+ * 
+ * With `scope: "project"`, every example in the documentation whose code
+ * mentions the symbol's name is returned instead, with `origin: "usage"`.
+ * 
+ * @example
+ * ```typescript
+ * const { examples } = await getExamples(parser, { symbolPath: 'Repository.find' });
+ * for (const example of examples) {
+ *   console.log(`// ${example.caption ?? example.source}\n${example.code}`);
+ * }
+ * 
+ * // Everything that shows how to use Repository
+ * const usages = await getExamples(parser, { symbolPath: 'Repository', scope: 'project' });
+ * ```
+ */
+export async function getExamples(parser: TypeDocParser, params: GetExamplesParams) {
+  if (params.symbolId === undefined && params.symbolPath === undefined && params.symbolKey === undefined) {
+    throw new Error('One of symbolId, symbolPath or symbolKey must be provided');
+  }
+
+  let reflection: Reflection | null = null;
+
+  if (params.symbolId !== undefined) {
+    reflection = parser.getById(params.symbolId);
+  } else if (params.symbolPath) {
+    reflection = parser.findByPath(params.symbolPath)?.reflection || null;
+  } else if (params.symbolKey) {
+    reflection = parser.findByKey(params.symbolKey)?.reflection || null;
+  }
+
+  if (!reflection) {
+    throw new Error('Symbol not found');
+  }
+
+  const path = parser.findById(reflection.id)?.path || reflection.name;
+  const examples = params.scope === 'project'
+    ? findUsages(parser, reflection.name)
+    : collectExamples(parser, reflection, params.includeInherited ?? true);
+
+  return { name: reflection.name, path, examples: dedupe(examples) };
+}
+
+/**
+ * Gathers the examples of a symbol, its signatures and what it inherits
+ * 
+ * @internal
+ */
+function collectExamples(parser: TypeDocParser, reflection: Reflection, includeInherited: boolean): Example[] {
+  const examples: Example[] = [];
+  const visited = new Set<number>();
+
+  const visit = (target: Reflection | Signature, origin: Example['origin']) => {
+    if (visited.has(target.id)) return;
+    visited.add(target.id);
+
+    const source = parser.findById(target.id)?.path || target.name;
+    examples.push(...parseExamples(target.comment, source, origin));
+
+    const member = target as Reflection;
+    const signatures = [...(member.signatures || []), member.getSignature, member.setSignature];
+    for (const signature of signatures) {
+      if (signature) visit(signature, origin === 'symbol' ? 'signature' : origin);
+    }
+
+    if (!includeInherited) return;
+
+    const related: [Type | undefined, Example['origin']][] = [
+      [member.overwrites, 'base'],
+      [member.inheritedFrom, 'base'],
+      [member.implementationOf, 'interface'],
+      ...(member.extendedTypes || []).map((type): [Type, Example['origin']] => [type, 'base']),
+      ...(member.implementedTypes || []).map((type): [Type, Example['origin']] => [type, 'interface']),
+    ];
+    for (const [type, relation] of related) {
+      const ancestor = parser.resolveType(type);
+      if (ancestor) visit(ancestor, relation);
+    }
+  };
+
+  visit(reflection, 'symbol');
+  return examples;
+}
+
+/**
+ * Finds the examples in the project whose code mentions a name
+ * 
+ * @remarks
+ * Only symbols with an `@example` tag are read, so this stays cheap on
+ * large projects.
+ * 
+ * @internal
+ */
+function findUsages(parser: TypeDocParser, name: string): Example[] {
+  const pattern = new RegExp(`(^|[^\\w$])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w$])`);
+  const examples: Example[] = [];
+
+  for (const symbol of parser.findByTag('example')) {
+    const reflection = parser.getById(symbol.id);
+    if (!reflection) continue;
+
+    const found = parseExamples(reflection.comment, symbol.path, 'usage');
+    examples.push(...found.filter(example => pattern.test(example.code)));
+  }
+
+  return examples;
+}
+
+/**
+ * Splits the `@example` blocks of a comment into examples
+ * 
+ * @param comment - The comment
+ * @param source - Path of the documented symbol
+ * @param origin - How the symbol relates to the one asked about
+ * @returns One example per code fence, or per block without fences
+ * 
+ * @internal
+ */
+function parseExamples(comment: Comment | undefined, source: string, origin: Example['origin']): Example[] {
+  const examples: Example[] = [];
+
+  for (const tag of comment?.blockTags || []) {
+    if (tag.tag !== '@example') continue;
+
+    const text = tag.content.map(part => part.text).join('');
+    const fences = [...text.matchAll(/^[ \t]*(`{3,}|~{3,})[ \t]*([\w+#-]*)[^\n]*\n([\s\S]*?)^[ \t]*\1[ \t]*$/gm)];
+
+    if (!fences.length) {
+      const code = text.trim();
+      if (code) examples.push({ code, language: 'typescript', caption: tag.name?.trim() || undefined, source, origin });
+      continue;
+    }
+
+    // TypeDoc 0.25 and later keep the caption as the tag's name, older
+    // versions as text before the first fence; text after a fence describes it
+    const caption = tag.name?.trim() || text.slice(0, fences[0].index).trim();
+    for (const [i, fence] of fences.entries()) {
+      const after = text.slice(fence.index! + fence[0].length, fences[i + 1]?.index ?? text.length).trim();
+      const language = fence[2].toLowerCase() || 'typescript';
+
+      examples.push({
+        code: fence[3].replace(/\n$/, ''),
+        language: LANGUAGE_ALIASES[language] ?? language,
+        caption: caption || undefined,
+        description: after || undefined,
+        source,
+        origin,
+      });
+    }
+  }
+
+  return examples;
+}
+
+/**
+ * Removes examples with the same code as an earlier one
+ * 
+ * @internal
+ */
+function dedupe(examples: Example[]): Example[] {
+  const seen = new Set<string>();
+  return examples.filter(example => !seen.has(example.code) && seen.add(example.code));
+}
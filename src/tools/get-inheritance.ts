@@ -0,0 +1,262 @@
+/**
+ * Get inheritance tool for MCP
+ * 
+ * @packageDocumentation
+ * @module tools/get-inheritance
+ * 
+ * @remarks
+ * This tool exposes class and interface hierarchies, answering questions like
+ * "what implements `Repository`?" or "what is the base-class chain of `FooService`?".
+ */
+
+import { TypeDocParser } from '../parser/index.js';
+import { printType } from '../printer/type-printer.js';
+import { Reflection, ReflectionKind, Type } from '../types/typedoc.js';
+
+/**
+ * Parameters for get inheritance function
+ */
+export interface GetInheritanceParams {
+  /** TypeDoc ID of the class or interface */
+  symbolId?: number;
+  /** Full path to the class or interface (e.g., "MyNamespace.MyClass") */
+  symbolPath?: string;
+  /** Walk parents, children, or both */
+  direction?: 'up' | 'down' | 'both';
+  /** Include the full transitive hierarchy */
+  includeHierarchy?: boolean;
+  /** Maximum number of levels to walk for the full hierarchy */
+  maxDepth?: number;
+}
+
+/**
+ * A symbol referenced from an inheritance clause
+ */
+export interface InheritanceEntry {
+  /** Symbol name */
+  name: string;
+  /** TypeDoc ID, absent for external symbols */
+  id?: number;
+  /** Full path, absent for external symbols */
+  path?: string;
+  /** Human-readable kind, absent for external symbols */
+  kind?: string;
+  /** Whether the symbol lives outside the documented project */
+  external?: boolean;
+  /** Package name for external symbols, when TypeDoc recorded it */
+  package?: string;
+  /** Heritage clause as written, when it passes type arguments (e.g., "Repository<User>") */
+  type?: string;
+}
+
+/**
+ * A node of the full inheritance tree
+ */
+export interface HierarchyNode {
+  /** Symbol name */
+  name: string;
+  /** Human-readable kind */
+  kind: string;
+  /** Paths of direct parents (extended classes and implemented interfaces) */
+  parents: string[];
+  /** Paths of direct children (extending and implementing symbols) */
+  children: string[];
+}
+
+/**
+ * Default depth limit for the full hierarchy walk
+ * 
+ * @internal
+ */
+const DEFAULT_MAX_DEPTH = 10;
+
+/**
+ * Gets the inheritance relationships of a class or interface
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param params - Parameters specifying the symbol and walk options
+ * @returns Object containing direct relationships and an optional full hierarchy
+ * 
+ * @throws Error if the symbol is not found or is not a class/interface
+ * 
+ * @remarks
+ * Direct relationships come from the `extendedTypes`, `extendedBy`,
+ * `implementedTypes` and `implementedBy` references that TypeDoc records
+ * on each reflection. References are resolved through
+ * {@link TypeDocParser.resolveType}; symbols outside the documented project
+ * are reported by name and flagged as external.
+ * 
+ * With `includeHierarchy`, the same relationships are followed transitively
+ * in the requested direction up to `maxDepth` levels, and every visited
+ * symbol is returned keyed by its path.
+ * 
+ * @example
+ * ```typescript
+ * // What implements Repository?
+ * const result = await getInheritance(parser, {
+ *   symbolPath: 'Repository',
+ *   direction: 'down'
+ * });
+ * 
+ * // Full base-class chain of FooService
+ * const chain = await getInheritance(parser, {
+ *   symbolId: 42,
+ *   direction: 'up',
+ *   includeHierarchy: true
+ * });
+ * ```
+ */
+export async function getInheritance(parser: TypeDocParser, params: GetInheritanceParams) {
+  if (params.symbolId === undefined && params.symbolPath === undefined) {
+    throw new Error('Either symbolId or symbolPath must be provided');
+  }
+
+  let reflection: Reflection | null = null;
+
+  if (params.symbolId !== undefined) {
+    reflection = parser.getById(params.symbolId);
+  } else if (params.symbolPath) {
+    const symbol = parser.findByPath(params.symbolPath);
+    reflection = symbol?.reflection || null;
+  }
+
+  if (!reflection) {
+    throw new Error('Symbol not found');
+  }
+
+  if (reflection.kind !== ReflectionKind.Class && reflection.kind !== ReflectionKind.Interface) {
+    throw new Error('Symbol must be a class or interface');
+  }
+
+  const direction = params.direction ?? 'both';
+  const walkUp = direction !== 'down';
+  const walkDown = direction !== 'up';
+  const symbol = parser.findById(reflection.id);
+
+  const result: any = {
+    name: reflection.name,
+    kind: symbol?.kind,
+    path: symbol?.path,
+  };
+
+  if (walkUp) {
+    result.parents = toEntries(parser, reflection.extendedTypes);
+    result.implements = toEntries(parser, reflection.implementedTypes);
+  }
+
+  if (walkDown) {
+    result.children = toEntries(parser, reflection.extendedBy);
+    result.implementedBy = toEntries(parser, reflection.implementedBy);
+  }
+
+  if (params.includeHierarchy) {
+    result.fullHierarchy = buildHierarchy(
+      parser,
+      reflection,
+      walkUp,
+      walkDown,
+      params.maxDepth ?? DEFAULT_MAX_DEPTH
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Converts heritage clause types into inheritance entries
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param types - Heritage clause types
+ * @returns Array of resolved or external entries
+ * 
+ * @internal
+ */
+function toEntries(parser: TypeDocParser, types: Type[] | undefined): InheritanceEntry[] {
+  if (!types) return [];
+
+  return types.map(type => {
+    const target = parser.resolveType(type);
+    const symbol = target ? parser.findById(target.id) : null;
+    const written = type.typeArguments?.length ? printType(type) : undefined;
+
+    if (!symbol) {
+      return {
+        name: type.name || 'unknown',
+        external: true,
+        package: type.package,
+        type: written,
+      };
+    }
+
+    return {
+      name: symbol.name,
+      id: symbol.id,
+      path: symbol.path,
+      kind: symbol.kind,
+      type: written,
+    };
+  });
+}
+
+/**
+ * Walks the inheritance graph breadth-first from a root symbol
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param root - The symbol to start from
+ * @param walkUp - Whether to follow parents and implemented interfaces
+ * @param walkDown - Whether to follow children and implementors
+ * @param maxDepth - Maximum number of levels to walk
+ * @returns Hierarchy nodes keyed by symbol path
+ * 
+ * @internal
+ */
+function buildHierarchy(
+  parser: TypeDocParser,
+  root: Reflection,
+  walkUp: boolean,
+  walkDown: boolean,
+  maxDepth: number
+): Record<string, HierarchyNode> {
+  const hierarchy: Record<string, HierarchyNode> = {};
+  const visited = new Set<number>([root.id]);
+  let frontier: Reflection[] = [root];
+
+  for (let depth = 0; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: Reflection[] = [];
+
+    for (const node of frontier) {
+      const symbol = parser.findById(node.id);
+      if (!symbol) continue;
+
+      const parentTypes = [...(node.extendedTypes || []), ...(node.implementedTypes || [])];
+      const childTypes = [...(node.extendedBy || []), ...(node.implementedBy || [])];
+
+      hierarchy[symbol.path] = {
+        name: symbol.name,
+        kind: symbol.kind,
+        parents: toEntries(parser, parentTypes).map(e => e.path || e.name),
+        children: toEntries(parser, childTypes).map(e => e.path || e.name),
+      };
+
+      // Nodes at the depth limit are recorded but not expanded further
+      if (depth === maxDepth) continue;
+
+      const neighbours = [
+        ...(walkUp ? parentTypes : []),
+        ...(walkDown ? childTypes : []),
+      ];
+
+      for (const type of neighbours) {
+        const target = parser.resolveType(type);
+        if (target && !visited.has(target.id)) {
+          visited.add(target.id);
+          next.push(target);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return hierarchy;
+}
@@ -5,25 +5,61 @@
  * @module tools/get-members
  * 
  * @remarks
- * This tool provides functionality to list all members (properties and methods)
- * of classes and interfaces, with filtering and inheritance options.
+ * This tool provides functionality to list all members (properties, methods,
+ * accessors and constructors) and index signatures of classes and interfaces,
+ * with filtering, sorting and inheritance options.
  */
 
+import {
+  TypeBindings,
+  bindTypeParameters,
+  instantiate,
+  parseInstantiation,
+  parseTypeArguments,
+  substituteReflection,
+  substituteType,
+} from '../parser/generics.js';
 import { TypeDocParser } from '../parser/index.js';
-import { Reflection, ReflectionKind } from '../types/typedoc.js';
+import { createLinkResolver } from '../parser/links.js';
+import { getKindName } from '../parser/schema.js';
+import { CommentRenderer, createCommentRenderer } from '../printer/comment-renderer.js';
+import { printSignature, printType } from '../printer/type-printer.js';
+import { Reflection, ReflectionKind, Signature, Type } from '../types/typedoc.js';
 
 /**
  * Parameters for get members function
  */
 export interface GetMembersParams {
   /** TypeDoc ID of the class or interface */
-  symbolId: number;
+  symbolId?: number;
+  /** Instantiation to view the class or interface as (e.g., "Repository<User>"), instead of symbolId */
+  type?: string;
+  /** Type arguments to view the class or interface with (e.g., ["string", "User"]) */
+  typeArguments?: string[];
   /** Filter by member type */
-  memberType?: 'property' | 'method' | 'all';
+  memberType?: 'property' | 'method' | 'accessor' | 'constructor' | 'all';
+  /** Filter by access modifier */
+  access?: 'public' | 'protected' | 'private';
+  /** Only static members (true) or only instance members (false) */
+  static?: boolean;
   /** Include inherited members */
   includeInherited?: boolean;
+  /** Order by declaration in the source, or by name (default: TypeDoc's order) */
+  sort?: 'source' | 'name';
 }
 
+/**
+ * Reflection kind of each member type
+ * 
+ * @internal
+ */
+const MEMBER_KINDS: Record<Exclude<NonNullable<GetMembersParams['memberType']>, 'all'>, ReflectionKind> = {
+  property: ReflectionKind.Property,
+  method: ReflectionKind.Method,
+  accessor: ReflectionKind.Accessor,
+  constructor: ReflectionKind.Constructor,
+};
+
 /**
  * Gets all members of a class or interface
  * 
@@ -35,10 +71,38 @@ export interface GetMembersParams {
  * 
  * @remarks
  * This function retrieves all members of a class or interface with:
- * - Filtering by member type (properties, methods, or all)
+ * - Filtering by member type, access modifier and static-ness
  * - Optional inclusion of inherited members
+ * - Sorting by source position or by name
  * - Complete member metadata including types, modifiers, and descriptions
  * 
+ * Accessors report the type they get and the type they set, and whether
+ * they can be read and written; an accessor without a setter is readonly.
+ * Constructors are typed as construct signatures (`new (...) => T`).
+ * Index signatures have no name and are listed separately under
+ * `indexSignatures`, unless a filter excludes public instance members.
+ * 
+ * Inherited members are found by walking the `extendedTypes` of the class
+ * or interface and of each ancestor, nearest first, so they are listed
+ * even when TypeDoc did not copy them into the class. A member declared
+ * closer to the class overrides the ones of the same name further up;
+ * each member says where it is declared (`declaredIn`) and which
+ * ancestor members it overrides (`shadows`). Type aliases are followed
+ * to the object types, intersections, classes and interfaces they stand
+ * for. Ancestors outside the documentation, and aliases of types without
+ * members to walk (such as `Partial<T>`), are listed in
+ * `unresolvedAncestors`; members TypeDoc copied from them are still
+ * reported. Constructors never shadow each other; a class without its
+ * own lists the nearest base constructor, returning the class.
+ * 
+ * Generic classes and interfaces can be viewed as an instantiation, given
+ * either as `type` (`"Repository<User>"`) or as `typeArguments` for the
+ * symbol. The type arguments are substituted through every member type
+ * and method signature. Inherited members are always substituted with
+ * the type arguments the heritage clause passes to their ancestor, so
+ * the members `UserRepository` inherits from `BaseRepository<User>` are
+ * typed with `User`, even without TypeDoc's copies.
+ * 
  * @example
  * ```typescript
  * // Get all members of a class
@@ -50,10 +114,33 @@ export interface GetMembersParams {
  *   memberType: 'method',
  *   includeInherited: true
  * });
+ * 
+ * // Get protected members in source order
+ * const internals = await getMembers(parser, {
+ *   symbolId: 123,
+ *   access: 'protected',
+ *   sort: 'source'
+ * });
+ * 
+ * // View a generic interface as Repository<User>
+ * const instantiated = await getMembers(parser, { type: 'Repository<User>' });
  * ```
  */
 export async function getMembers(parser: TypeDocParser, params: GetMembersParams) {
-  const reflection = parser.getById(params.symbolId);
+  if (params.symbolId === undefined && params.type === undefined) {
+    throw new Error('One of symbolId or type must be provided');
+  }
+  
+  let reflection: Reflection | null = null;
+  let typeArguments = params.typeArguments ? parseTypeArguments(parser, params.typeArguments) : undefined;
+  
+  if (params.symbolId !== undefined) {
+    reflection = parser.getById(params.symbolId);
+  } else if (params.type) {
+    const instantiation = parseInstantiation(parser, params.type);
+    reflection = instantiation.symbol.reflection;
+    typeArguments ??= instantiation.typeArguments;
+  }
   
   if (!reflection) {
     throw new Error('Symbol not found');
@@ -63,57 +150,117 @@ export async function getMembers(parser: TypeDocParser, params: GetMembersParams
     throw new Error('Symbol must be a class or interface');
   }
   
+  if (typeArguments?.length) {
+    reflection = instantiate(parser, reflection, typeArguments).reflection;
+  }
+  
   const memberType = params.memberType ?? 'all';
   const includeInherited = params.includeInherited ?? false;
   const members: any[] = [];
+  const comments = createCommentRenderer({ resolveLink: createLinkResolver(parser) });
   
-  if (reflection.children) {
-    for (const child of reflection.children) {
-      // Filter by member type
-      if (memberType !== 'all') {
-        if (memberType === 'property' && child.kind !== ReflectionKind.Property) continue;
-        if (memberType === 'method' && child.kind !== ReflectionKind.Method) continue;
-      }
-      
-      // Skip inherited members if not requested
-      if (!includeInherited && child.inheritedFrom) continue;
-      
-      const member = {
-        name: child.name,
-        kind: child.kindString || getKindString(child.kind),
-        type: getTypeString(child),
-        access: getAccessLevel(child),
-        static: child.flags?.isStatic || false,
-        abstract: child.flags?.isAbstract || false,
-        optional: child.flags?.isOptional || false,
-        readonly: child.flags?.isReadonly || false,
-        inherited: !!child.inheritedFrom,
-        inheritedFrom: child.inheritedFrom ? getInheritedFromString(child.inheritedFrom) : undefined,
-        description: getDescription(child),
+  const hierarchy = collectMembers(parser, reflection);
+  const effective = new Map(hierarchy.members.map(entry => [entry.member, entry]));
+  const children = sortMembers(hierarchy.members.map(entry => entry.member), params.sort);
+  for (const child of children) {
+    const { declaredIn, inherited, shadows } = effective.get(child)!;
+    
+    // Filter by member type, access and static-ness
+    if (memberType !== 'all' && child.kind !== MEMBER_KINDS[memberType]) continue;
+    if (params.access && getAccessLevel(child) !== params.access) continue;
+    if (params.static !== undefined && (child.flags?.isStatic || false) !== params.static) continue;
+    
+    // Skip inherited members if not requested
+    if (!includeInherited && inherited) continue;
+    
+    const member: any = {
+      name: child.name,
+      kind: child.kindString || getKindName(child.kind),
+      type: getTypeString(child),
+      access: getAccessLevel(child),
+      static: child.flags?.isStatic || false,
+      abstract: child.flags?.isAbstract || false,
+      optional: child.flags?.isOptional || false,
+      readonly: child.flags?.isReadonly || (child.kind === ReflectionKind.Accessor && !child.setSignature),
+      inherited,
+      inheritedFrom: inherited ? `${declaredIn.name}.${child.name}` : undefined,
+      declaredIn: declaredIn.path,
+      shadows: shadows.length ? shadows : undefined,
+      description: getDescription(child, comments),
+    };
+    
+    if (child.kind === ReflectionKind.Accessor) {
+      member.accessor = {
+        readable: !!child.getSignature,
+        writable: !!child.setSignature,
+        getType: child.getSignature ? printType(child.getSignature.type) : undefined,
+        setType: child.setSignature ? printType(child.setSignature.parameters?.[0]?.type) : undefined,
       };
-      
-      members.push(member);
     }
+    
+    members.push(member);
   }
   
-  return { members };
+  // Index signatures are public instance members without a name
+  const includeIndexSignatures = memberType === 'all' &&
+    (params.access ?? 'public') === 'public' && params.static !== true;
+  const unresolved = includeInherited && hierarchy.unresolved.length ? hierarchy.unresolved : undefined;
+  const instantiation = typeArguments?.length ? printType({ type: 'reference', name: reflection.name, typeArguments }) : undefined;
+  if (includeIndexSignatures && reflection.indexSignatures?.length) {
+    return {
+      instantiation,
+      members,
+      unresolvedAncestors: unresolved,
+      indexSignatures: reflection.indexSignatures.map(signature => ({
+        signature: printIndexSignature(signature),
+        keyType: printType(signature.parameters?.[0]?.type),
+        type: printType(signature.type),
+        readonly: signature.flags?.isReadonly || false,
+        description: comments.render(signature.comment?.summary),
+      })),
+    };
+  }
+  
+  return { instantiation, members, unresolvedAncestors: unresolved };
 }
 
 /**
- * Converts reflection kind to human-readable string
+ * Orders members for output
  * 
- * @param kind - Numeric reflection kind
- * @returns Human-readable kind string
+ * @param children - Members in TypeDoc's order
+ * @param sort - Requested order
+ * @returns The members, sorted by source position (members without one
+ * last) or by name, or unchanged
  * 
  * @internal
  */
-function getKindString(kind: number): string {
-  switch (kind) {
-    case ReflectionKind.Property: return 'property';
-    case ReflectionKind.Method: return 'method';
-    case ReflectionKind.Accessor: return 'accessor';
-    default: return 'unknown';
+function sortMembers(children: Reflection[], sort: GetMembersParams['sort']): Reflection[] {
+  if (sort === 'name') {
+    return [...children].sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  if (sort === 'source') {
+    const position = (r: Reflection) => r.sources?.[0] || r.signatures?.[0]?.sources?.[0] || r.getSignature?.sources?.[0];
+    return [...children].sort((a, b) => {
+      const pa = position(a);
+      const pb = position(b);
+      if (!pa || !pb) return pa ? -1 : pb ? 1 : 0;
+      return pa.fileName.localeCompare(pb.fileName) || pa.line - pb.line || (pa.character ?? 0) - (pb.character ?? 0);
+    });
   }
+  
+  return children;
+}
+
+/**
+ * Prints an index signature
+ * 
+ * @internal
+ */
+function printIndexSignature(signature: Signature): string {
+  const key = signature.parameters?.[0];
+  const readonly = signature.flags?.isReadonly ? 'readonly ' : '';
+  return `${readonly}[${key?.name ?? 'key'}: ${printType(key?.type)}]: ${printType(signature.type)}`;
 }
 
 /**
@@ -139,77 +286,204 @@ function getAccessLevel(reflection: Reflection): string {
  * @remarks
  * For properties, returns the type directly.
  * For methods, returns the full signature including parameters and return type.
+ * Accessors print as the type they get, or the type they set.
  * 
  * @internal
  */
 function getTypeString(reflection: Reflection): string {
   if (reflection.type) {
-    return formatType(reflection.type);
+    return printType(reflection.type);
   }
   
   if (reflection.signatures && reflection.signatures.length > 0) {
-    const sig = reflection.signatures[0];
-    const params = sig.parameters?.map(p => `${p.name}: ${formatType(p.type)}`).join(', ') || '';
-    const returnType = formatType(sig.type);
-    return `(${params}) => ${returnType}`;
+    return printSignature(reflection.signatures[0], { arrow: true });
+  }
+  
+  if (reflection.getSignature) {
+    return printType(reflection.getSignature.type);
+  }
+  
+  if (reflection.setSignature?.parameters?.[0]) {
+    return printType(reflection.setSignature.parameters[0].type);
   }
   
   return 'unknown';
 }
 
 /**
- * Formats a type object into a readable string
+ * A member of the effective member list
  * 
- * @param type - The type object to format
- * @returns Formatted type string
+ * @internal
+ */
+interface EffectiveMember {
+  /** The member; for inherited members TypeDoc copied, the copy */
+  member: Reflection;
+  /** Class or interface declaring it */
+  declaredIn: { name: string; path: string };
+  /** Whether it is declared by an ancestor */
+  inherited: boolean;
+  /** Ancestor members it overrides (e.g., "BaseRepository.save"), nearest first */
+  shadows: string[];
+}
+
+/**
+ * An ancestor type still to be walked
  * 
  * @internal
  */
-function formatType(type: any): string {
-  if (!type) return 'any';
-  
-  switch (type.type) {
-    case 'intrinsic':
-      return type.name || 'any';
-    case 'reference':
-      return type.name || 'unknown';
-    case 'array':
-      return `${formatType(type.elementType)}[]`;
-    case 'union':
-      return type.types?.map(formatType).join(' | ') || 'unknown';
-    case 'intersection':
-      return type.types?.map(formatType).join(' & ') || 'unknown';
-    case 'literal':
-      return JSON.stringify(type.value);
-    default:
-      return type.name || 'unknown';
-  }
+interface PendingAncestor {
+  /** The type, as written in a heritage clause or a type alias */
+  type: Type;
+  /** Type alias it was reached through, which declares its inline members */
+  alias?: EffectiveMember['declaredIn'];
 }
 
 /**
- * Extracts the inherited from information as a string
+ * Builds the effective member list of a class or interface
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param reflection - The class or interface
+ * @returns Its own members, then those of each ancestor that are not
+ * overridden, and the names of ancestors that could not be resolved
+ * 
+ * @remarks
+ * Ancestors are visited breadth-first along `extendedTypes`. Members are
+ * matched by name and static-ness; `overwrites` links an override to
+ * the member it replaces when the walk cannot (e.g., an external base).
+ * Where TypeDoc copied an inherited member into the class, the copy is
+ * used, since its types already have the class's type arguments. Members
+ * of ancestors are otherwise substituted with the type arguments passed
+ * along the heritage clauses.
+ * 
+ * Type aliases among the ancestors are followed to what they stand for:
+ * the members of an object type, the parts of an intersection, or the
+ * class or interface they name. Anything else, such as a mapped type or
+ * `Partial<T>`, has no members to walk and is reported as unresolved.
  * 
- * @param inheritedFrom - The inherited from object
- * @returns Name of the parent class/interface
+ * Constructors are not overridden: a class's own constructor replaces the
+ * base's without shadowing it. A class without one takes the nearest
+ * base constructor, constructing the class itself.
  * 
  * @internal
  */
-function getInheritedFromString(inheritedFrom: any): string {
-  if (typeof inheritedFrom === 'object' && inheritedFrom.name) {
-    return inheritedFrom.name;
+function collectMembers(parser: TypeDocParser, reflection: Reflection) {
+  const keyOf = (member: Reflection) => `${member.flags?.isStatic ? 'static ' : ''}${member.name}`;
+  const own = { name: reflection.name, path: parser.findById(reflection.id)?.path || reflection.name };
+  const copies = new Map<string, Reflection>();
+  const effective = new Map<string, EffectiveMember>();
+
+  const inherit = (members: Reflection[], declaredIn: EffectiveMember['declaredIn'], bindings: TypeBindings) => {
+    for (const member of members) {
+      if (member.inheritedFrom) continue;
+
+      const key = keyOf(member);
+      const existing = effective.get(key);
+      if (member.kind === ReflectionKind.Constructor) {
+        if (!existing && !copies.has(key)) {
+          effective.set(key, { member: constructing(substituteReflection(member, bindings), reflection), declaredIn, inherited: true, shadows: [] });
+        }
+      } else if (existing) {
+        existing.shadows.push(`${declaredIn.name}.${member.name}`);
+      } else {
+        effective.set(key, { member: copies.get(key) || substituteReflection(member, bindings), declaredIn, inherited: true, shadows: [] });
+      }
+    }
+  };
+
+  for (const child of reflection.children || []) {
+    if (child.inheritedFrom) {
+      copies.set(keyOf(child), child);
+    } else {
+      effective.set(keyOf(child), { member: child, declaredIn: own, inherited: false, shadows: [] });
+    }
   }
-  return 'unknown';
+
+  const unresolved: string[] = [];
+  const visited = new Set<number>([reflection.id]);
+  let queue: PendingAncestor[] = (reflection.extendedTypes || []).map(type => ({ type }));
+  while (queue.length) {
+    const next: PendingAncestor[] = [];
+    // Parts of aliases are appended to the level being walked
+    for (const { type, alias } of queue) {
+      if (type.type === 'intersection') {
+        queue.push(...(type.types || []).map(part => ({ type: part, alias })));
+        continue;
+      }
+      if (type.type === 'reflection' && type.declaration?.children) {
+        inherit(type.declaration.children, alias ?? { name: printType(type), path: printType(type) }, new Map());
+        continue;
+      }
+
+      const ancestor = type.type === 'reference' ? parser.resolveType(type) : null;
+      const isType = ancestor?.kind === ReflectionKind.Class || ancestor?.kind === ReflectionKind.Interface;
+      if (!ancestor || (!isType && !(ancestor.kind === ReflectionKind.TypeAlias && ancestor.type))) {
+        unresolved.push(printType(type));
+        continue;
+      }
+      if (visited.has(ancestor.id)) continue;
+      visited.add(ancestor.id);
+
+      const declaredIn = { name: ancestor.name, path: parser.findById(ancestor.id)?.path || ancestor.name };
+      const bindings = bindTypeParameters(ancestor.typeParameters, type.typeArguments);
+      if (!isType) {
+        queue.push({ type: substituteType(ancestor.type!, bindings), alias: declaredIn });
+        continue;
+      }
+
+      inherit(ancestor.children || [], declaredIn, bindings);
+      next.push(...(ancestor.extendedTypes || []).map(parent => ({ type: substituteType(parent, bindings) })));
+    }
+    queue = next;
+  }
+
+  // Copies from ancestors outside the documentation
+  for (const [key, copy] of copies) {
+    if (effective.has(key)) continue;
+    const from = copy.inheritedFrom?.name?.split('.')[0] || 'unknown';
+    effective.set(key, { member: copy, declaredIn: { name: from, path: from }, inherited: true, shadows: [] });
+  }
+
+  for (const entry of effective.values()) {
+    if (!entry.shadows.length && entry.member.overwrites?.name && entry.member.kind !== ReflectionKind.Constructor) {
+      entry.shadows.push(entry.member.overwrites.name);
+    }
+  }
+
+  return { members: [...effective.values()], unresolved };
+}
+
+/**
+ * Makes an inherited constructor construct the class inheriting it
+ * 
+ * @param constructor - Constructor of a base class
+ * @param reflection - The derived class
+ * @returns A copy whose signatures return the derived class
+ * 
+ * @internal
+ */
+function constructing(constructor: Reflection, reflection: Reflection): Reflection {
+  const type: Type = {
+    type: 'reference',
+    name: reflection.name,
+    target: reflection.id,
+    typeArguments: reflection.typeParameters?.map(parameter => ({ type: 'reference', name: parameter.name, refersToTypeParameter: true })),
+  };
+  return { ...constructor, signatures: constructor.signatures?.map(signature => ({ ...signature, type })) };
 }
 
 /**
  * Extracts description from a member's comment
  * 
- * @param reflection - The member reflection
- * @returns Description text or empty string
+ * @param reflection - The member reflection; methods and accessors fall
+ * back to the comment of their first signature
+ * @param comments - Renderer for the comment text
+ * @returns Description as Markdown, or empty string
  * 
  * @internal
  */
-function getDescription(reflection: Reflection): string {
-  if (!reflection.comment?.summary) return '';
-  return reflection.comment.summary.map(p => p.text).join('').trim();
+function getDescription(reflection: Reflection, comments: CommentRenderer): string {
+  const comment = reflection.comment ?? reflection.signatures?.[0]?.comment ??
+    reflection.getSignature?.comment ?? reflection.setSignature?.comment;
+  if (!comment?.summary) return '';
+  return comments.render(comment.summary);
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+/**
+ * Get symbol at location tool for MCP
+ * 
+ * @packageDocumentation
+ * @module tools/get-symbol-at-location
+ * 
+ * @remarks
+ * This tool maps a file and line, such as an editor cursor position, to the
+ * documented symbol declared there.
+ */
+
+import { TypeDocParser } from '../parser/index.js';
+
+/**
+ * Parameters for get symbol at location function
+ */
+export interface GetSymbolAtLocationParams {
+  /** File path (absolute or relative to the project root) */
+  file: string;
+  /** Line number (1-based) */
+  line: number;
+}
+
+/**
+ * Finds the innermost symbol whose source span covers a line
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param params - Parameters specifying the file and line
+ * @returns The covering symbol, or null when the line is outside every symbol
+ * 
+ * @throws Error if no documented file matches, or if the path is ambiguous
+ * 
+ * @remarks
+ * TypeDoc records only where each declaration starts, so spans are inferred
+ * from the start of the next sibling declaration. Lines between members of
+ * a class therefore resolve to the preceding member.
+ * 
+ * @example
+ * ```typescript
+ * const result = await getSymbolAtLocation(parser, {
+ *   file: '/repo/src/parser/index.ts',
+ *   line: 120
+ * });
+ * ```
+ */
+export async function getSymbolAtLocation(parser: TypeDocParser, params: GetSymbolAtLocationParams) {
+  const files = parser.getFiles(params.file);
+  
+  if (files.length === 0) {
+    throw new Error(`No documented symbols found in file: ${params.file}`);
+  }
+  
+  if (files.length > 1) {
+    throw new Error(`File path is ambiguous, matches: ${files.join(', ')}`);
+  }
+  
+  const symbol = parser.findAtLocation(files[0], params.line);
+  if (!symbol) {
+    return { fileName: files[0], line: params.line, symbol: null };
+  }
+  
+  const source = symbol.sources?.find(s => s.fileName === files[0]);
+  
+  return {
+    fileName: files[0],
+    line: params.line,
+    symbol: {
+      name: symbol.name,
+      kind: symbol.kind,
+      path: symbol.path,
+      id: symbol.id,
+      declaredAt: source?.line,
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Get symbols in file tool for MCP
+ * 
+ * @packageDocumentation
+ * @module tools/get-symbols-in-file
+ * 
+ * @remarks
+ * This tool lists the symbols declared in a source file, letting AI agents
+ * start from a file open in the editor rather than from a symbol name.
+ */
+
+import { TypeDocParser } from '../parser/index.js';
+
+/**
+ * Parameters for get symbols in file function
+ */
+export interface GetSymbolsInFileParams {
+  /** File path or glob (e.g., "src/tools/*.ts") */
+  file: string;
+}
+
+/**
+ * Lists the symbols declared in one or more source files
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param params - Parameters specifying the file path or glob
+ * @returns Object containing one entry per matching file, with symbols in line order
+ * 
+ * @throws Error if no documented file matches
+ * 
+ * @remarks
+ * Paths are matched against the file names TypeDoc recorded, by suffix, so
+ * both absolute paths and paths relative to the project root work. Globs
+ * support `*`, `**` and `?`.
+ * 
+ * Inherited members and re-exports are listed under the file that declares
+ * the original symbol, not under every file that inherits or re-exports it.
+ * 
+ * @example
+ * ```typescript
+ * // Symbols in one file
+ * const result = await getSymbolsInFile(parser, { file: 'src/parser/index.ts' });
+ * 
+ * // Symbols in every tool module
+ * const tools = await getSymbolsInFile(parser, { file: 'src/tools/*.ts' });
+ * ```
+ */
+export async function getSymbolsInFile(parser: TypeDocParser, params: GetSymbolsInFileParams) {
+  const files = parser.getFiles(params.file);
+  
+  if (files.length === 0) {
+    throw new Error(`No documented symbols found in files matching: ${params.file}`);
+  }
+  
+  return {
+    files: files.map(fileName => ({
+      fileName,
+      symbols: parser.findByFile(fileName).map(s => {
+        const source = s.sources?.find(src => src.fileName === fileName) || s.sources?.[0];
+        return {
+          name: s.name,
+          kind: s.kind,
+          path: s.path,
+          id: s.id,
+          line: source?.line,
+          character: source?.character,
+        };
+      }),
+    })),
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Get type definition tool for MCP
+ * 
+ * @packageDocumentation
+ * @module tools/get-type-definition
+ * 
+ * @remarks
+ * This tool returns the declaration source of a symbol as it would appear in
+ * a `.d.ts` file, for agents that want "the actual interface" rather than a
+ * JSON summary of it.
+ */
+
+import { TypeDocParser } from '../parser/index.js';
+import { getKindName } from '../parser/schema.js';
+import { printDeclaration } from '../printer/declaration-printer.js';
+import { Reflection, ReflectionKind, Type } from '../types/typedoc.js';
+
+/**
+ * Parameters for get type definition function
+ */
+export interface GetTypeDefinitionParams {
+  /** TypeDoc ID of the symbol */
+  symbolId?: number;
+  /** Full path to the symbol (e.g., "MyNamespace.MyClass") */
+  symbolPath?: string;
+  /** Stable symbol key (e.g., "class:MyNamespace.MyClass") */
+  symbolKey?: string;
+  /** Inline referenced type aliases instead of naming them */
+  expanded?: boolean;
+  /** Include TSDoc comments (default true) */
+  includeComments?: boolean;
+}
+
+/**
+ * Type definition of a symbol
+ */
+export interface GetTypeDefinitionResult {
+  /** Symbol name */
+  name: string;
+  /** Human-readable kind */
+  kind: string;
+  /** Full path */
+  path: string;
+  /** Declaration source, as in a `.d.ts` file */
+  definition: string;
+  /** Paths of the documented types the definition refers to */
+  dependencies: string[];
+}
+
+/**
+ * Rebuilds the declaration source of a symbol
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param params - Parameters specifying the symbol and output options
+ * @returns The declaration source and the types it depends on
+ * 
+ * @throws Error if the symbol is not found
+ * 
+ * @remarks
+ * Classes, interfaces, type aliases, enums, functions, variables and
+ * namespaces are printed with their type parameters, modifiers, every
+ * overload and their TSDoc comments. Inherited members are left out, as
+ * in a declaration file; use getMembers to list them.
+ * 
+ * With `expanded`, references to type aliases without type parameters are
+ * replaced by the aliased type, recursively. `dependencies` lists the
+ * documented types still referenced by name in the definition, so an
+ * agent can look them up in turn; types from outside the project (such as
+ * `Promise`) are not listed.
+ * 
+ * @example
+ * ```typescript
+ * const { definition, dependencies } = await getTypeDefinition(parser, {
+ *   symbolPath: 'UserService'
+ * });
+ * 
+ * // Inline aliases such as `type UserId = string`
+ * const expanded = await getTypeDefinition(parser, {
+ *   symbolPath: 'UserService',
+ *   expanded: true
+ * });
+ * ```
+ */
+export async function getTypeDefinition(parser: TypeDocParser, params: GetTypeDefinitionParams): Promise<GetTypeDefinitionResult> {
+  if (params.symbolId === undefined && params.symbolPath === undefined && params.symbolKey === undefined) {
+    throw new Error('One of symbolId, symbolPath or symbolKey must be provided');
+  }
+
+  let reflection: Reflection | null = null;
+
+  if (params.symbolId !== undefined) {
+    reflection = parser.getById(params.symbolId);
+  } else if (params.symbolPath) {
+    reflection = parser.findByPath(params.symbolPath)?.reflection || null;
+  } else if (params.symbolKey) {
+    reflection = parser.findByKey(params.symbolKey)?.reflection || null;
+  }
+
+  if (!reflection) {
+    throw new Error('Symbol not found');
+  }
+
+  const root = reflection;
+  const symbol = parser.findById(root.id);
+  const dependencies = new Set<string>();
+
+  const definition = printDeclaration(root, {
+    comments: params.includeComments ?? true,
+    expandReference: params.expanded ? type => expandAlias(parser, type, root.id) : undefined,
+    onReference: type => {
+      if (typeof type.target !== 'number' || type.target === root.id) return;
+      const target = parser.findById(type.target);
+      if (target) dependencies.add(target.path);
+    },
+  });
+
+  return {
+    name: root.name,
+    kind: symbol?.kind || getKindName(root.kind),
+    path: symbol?.path || root.name,
+    definition,
+    dependencies: [...dependencies].sort(),
+  };
+}
+
+/**
+ * Gets the aliased type of a reference to a type alias
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param type - A reference type
+ * @param rootId - ID of the symbol being printed, which is never inlined
+ * @returns The aliased type, or undefined for anything but a non-generic alias
+ * 
+ * @internal
+ */
+function expandAlias(parser: TypeDocParser, type: Type, rootId: number): Type | undefined {
+  const target = parser.resolveType(type);
+  if (!target || target.id === rootId || target.kind !== ReflectionKind.TypeAlias) return undefined;
+  if (target.typeParameters?.length) return undefined;
+
+  return target.type;
+}
@@ -12,14 +12,32 @@
  * - {@link findSymbol} - Search for symbols by name and kind
  * - {@link getDocumentation} - Retrieve complete documentation for a symbol
  * - {@link getMembers} - List members of classes and interfaces
+ * - {@link getTypeDefinition} - Rebuild the declaration source of a symbol
+ * - {@link getAllowedValues} - List the values an enum or literal union allows
+ * - {@link getExamples} - Extract the code examples of a symbol
+ * - {@link emitDeclarations} - Write the declaration file of a module or project
  * - {@link searchByTag} - Find symbols by their documentation tags
+ * - {@link getInheritance} - Walk class and interface hierarchies
+ * - {@link findReferences} - Find where a type is used
+ * - {@link searchDocs} - Ranked full-text search over names and comments
+ * - {@link getSymbolsInFile} - List the symbols declared in a source file
+ * - {@link getSymbolAtLocation} - Find the symbol declared at a file and line
  * - {@link checkTypeDocSetupTool} - Check TypeDoc installation and configuration status
  */
 
 export * from './find-symbol.js';
 export * from './get-documentation.js';
 export * from './get-members.js';
+export * from './get-type-definition.js';
+export * from './get-allowed-values.js';
+export * from './get-examples.js';
+export * from './emit-declarations.js';
 export * from './search-by-tag.js';
+export * from './get-inheritance.js';
+export * from './find-references.js';
+export * from './search-docs.js';
+export * from './get-symbols-in-file.js';
+export * from './get-symbol-at-location.js';
 export * from './check-setup.js';
 export * from './generate-config.js';
 export * from './run-generation.js';
\ No newline at end of file
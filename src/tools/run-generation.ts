@@ -134,7 +134,7 @@ export async function runTypeDocGeneration(
 
     if (!hasTypedoc && options?.install) {
       // Install TypeDoc
-      console.log('Installing TypeDoc...');
+      console.error('Installing TypeDoc...');
       const npmExists = await commandExists('npm');
       if (!npmExists) {
         return {
@@ -180,7 +180,7 @@ export async function runTypeDocGeneration(
     }
 
     // Run TypeDoc
-    console.log('Running TypeDoc...');
+    console.error('Running TypeDoc...');
     const typedocArgs = hasConfig ? ['--options', configPath] : [];
     
     // Add default arguments if no config
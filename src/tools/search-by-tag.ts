@@ -57,13 +57,9 @@ export async function searchByTag(parser: TypeDocParser, params: SearchByTagPara
   const results: any[] = [];
   const tagName = params.tag.startsWith('@') ? params.tag : `@${params.tag}`;
   
-  // Search through all reflections
-  // Note: We access private members here for efficiency
-  // In a production version, we'd add a public iterator method to the parser
-  for (const [, reflection] of parser['index']) {
-    if (!reflection.comment?.blockTags) continue;
-    
-    const matchingTag = reflection.comment.blockTags.find(t => t.tag === tagName);
+  for (const symbol of parser.findByTag(tagName)) {
+    const reflection = symbol.reflection;
+    const matchingTag = reflection.comment?.blockTags?.find(t => t.tag === tagName);
     if (!matchingTag) continue;
     
     const tagContent = matchingTag.content.map(p => p.text).join('').trim();
@@ -71,12 +67,10 @@ export async function searchByTag(parser: TypeDocParser, params: SearchByTagPara
     // If value filter is specified, check if it matches
     if (params.value && !tagContent.includes(params.value)) continue;
     
-    const path = parser['getPath'](reflection);
-    
     results.push({
-      name: reflection.name,
-      kind: reflection.kindString || parser['getKindString'](reflection.kind),
-      path,
+      name: symbol.name,
+      kind: symbol.kind,
+      path: symbol.path,
       tagValue: tagContent,
       source: reflection.sources?.[0] ? {
         fileName: reflection.sources[0].fileName,
@@ -0,0 +1,97 @@
+/**
+ * Full-text documentation search tool for MCP
+ * 
+ * @packageDocumentation
+ * @module tools/search-docs
+ * 
+ * @remarks
+ * This tool finds symbols by what they do rather than by what they are called,
+ * ranking matches across symbol names, summaries and tag content.
+ */
+
+import { TypeDocParser } from '../parser/index.js';
+import { SearchableText, getSearchableText, highlight } from '../parser/search-index.js';
+
+/**
+ * Parameters for search docs function
+ */
+export interface SearchDocsParams {
+  /** Free-text query (e.g., "parse json file") */
+  query: string;
+  /** Maximum number of results (default: 20) */
+  limit?: number;
+}
+
+/**
+ * Searches documentation with ranked full-text matching
+ * 
+ * @param parser - The TypeDoc parser instance
+ * @param params - Search parameters
+ * @returns Object containing ranked results with match highlights
+ * 
+ * @remarks
+ * Queries are matched against:
+ * - Symbol names, split on camelCase and snake_case (`findByName` matches "name")
+ * - Name initials (`tdp` matches `TypeDocParser`)
+ * - Comment summaries, including signature comments
+ * - Block-tag content such as `@param` and `@returns` text
+ * 
+ * Each result carries highlighted snippets of the fields that matched, with
+ * matching words wrapped in `**bold**` markers.
+ * 
+ * @example
+ * ```typescript
+ * const result = await searchDocs(parser, {
+ *   query: 'resolve reference target',
+ *   limit: 5
+ * });
+ * ```
+ */
+export async function searchDocs(parser: TypeDocParser, params: SearchDocsParams) {
+  if (!params.query || !params.query.trim()) {
+    throw new Error('query must not be empty');
+  }
+
+  const hits = parser.search(params.query, params.limit ?? 20);
+  const results: any[] = [];
+
+  for (const hit of hits) {
+    const symbol = parser.findById(hit.id);
+    if (!symbol) continue;
+
+    // Highlight from what is in memory; tags and signature summaries need the full body
+    const record = { name: symbol.name, summary: symbol.summary, tags: '' };
+    let text: SearchableText | null = null;
+    const highlights: Record<string, string> = {};
+
+    for (const field of hit.fields) {
+      let snippet = highlight(record[field], hit.terms);
+      if (!snippet && field !== 'name') {
+        text ??= getSearchableText(symbol.reflection);
+        snippet = highlight(text[field], hit.terms);
+      }
+      if (snippet) highlights[field] = snippet;
+    }
+
+    // Initials matches have no word to highlight, so show the name as is
+    if (hit.fields.includes('name') && !highlights.name) {
+      highlights.name = symbol.name;
+    }
+
+    results.push({
+      name: symbol.name,
+      kind: symbol.kind,
+      path: symbol.path,
+      id: symbol.id,
+      exportPaths: symbol.exportPaths.length > 1 ? symbol.exportPaths : undefined,
+      score: Math.round(hit.score * 1000) / 1000,
+      highlights,
+      source: symbol.sources?.[0] ? {
+        fileName: symbol.sources[0].fileName,
+        line: symbol.sources[0].line,
+      } : undefined,
+    });
+  }
+
+  return { results };
+}
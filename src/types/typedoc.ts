@@ -8,6 +8,10 @@
  * This module contains TypeScript interfaces that map to TypeDoc's JSON output format.
  * These types are essential for parsing and understanding TypeDoc-generated documentation.
  * 
+ * Output of TypeDoc 0.23 through 0.26+ is normalized into this model when
+ * it is loaded (see `parser/schema`), so fields renamed between releases
+ * appear here under their current name only.
+ * 
  * @see {@link https://typedoc.org/api/modules/JSONOutput.html | TypeDoc JSONOutput API}
  */
 
@@ -51,6 +55,71 @@ export interface TypeDocJSON {
   packageVersion?: string;
   /** Name from package.json */
   packageName?: string;
+  /** JSON schema version written by TypeDoc 0.26 and later (e.g., "2.0") */
+  schemaVersion?: string;
+  /** Variant discriminator */
+  variant?: 'project';
+  /** Source symbol of each reflection, by reflection ID */
+  symbolIdMap?: Record<string, SymbolId>;
+  /** Files referenced by relative links in comments and documents */
+  files?: ProjectFiles;
+  /** Project-level documents included with `@document` or `projectDocuments` */
+  documents?: DocumentReflection[];
+}
+
+/**
+ * Declaration a reflection was created from
+ * 
+ * @remarks
+ * TypeDoc 0.24 and 0.25 identify the declaration by its source file,
+ * 0.26 and later by package and path within the package; both are
+ * normalized to carry `sourceFileName`.
+ */
+export interface SymbolId {
+  /** Source file of the declaration, relative to the package on 0.26+ */
+  sourceFileName: string;
+  /** Name of the declaration as TypeScript qualifies it */
+  qualifiedName: string;
+  /** Package the declaration belongs to (0.26+) */
+  packageName?: string;
+}
+
+/**
+ * Files known to the project (TypeDoc 0.26+)
+ */
+export interface ProjectFiles {
+  /** File paths, by file ID */
+  entries: Record<string, string>;
+  /** Reflection IDs of files that became documents, by file ID */
+  reflections: Record<string, number>;
+}
+
+/**
+ * Markdown document included in the documentation (TypeDoc 0.26+)
+ * 
+ * @example
+ * ```typescript
+ * const guide = doc.documents?.find(d => d.name === 'Getting Started');
+ * console.log(guide?.content.map(part => part.text).join(''));
+ * ```
+ */
+export interface DocumentReflection {
+  /** Unique identifier */
+  id: number;
+  /** Document title */
+  name: string;
+  /** Always {@link ReflectionKind.Document} */
+  kind: number;
+  /** Human-readable kind string */
+  kindString?: string;
+  /** Always 'document' for documents */
+  variant: 'document';
+  /** Document text */
+  content: CommentDisplayPart[];
+  /** Front matter of the markdown file */
+  frontmatter?: Record<string, unknown>;
+  /** Nested documents */
+  children?: DocumentReflection[];
 }
 
 /**
@@ -116,10 +185,16 @@ export interface Reflection {
   getSignature?: Signature;
   /** Setter signature for properties */
   setSignature?: Signature;
-  /** Index signature for indexed types */
-  indexSignature?: Signature;
+  /** Index signatures for indexed types */
+  indexSignatures?: Signature[];
+  /** Interface member this reflection implements */
+  implementationOf?: Type;
   /** Variant discriminator */
-  variant?: 'declaration' | 'signature';
+  variant?: 'declaration' | 'signature' | 'reference';
+  /** ID of the reflection a {@link ReflectionKind.Reference} re-exports */
+  target?: number;
+  /** Documents attached to this reflection with `@document` (0.26+) */
+  documents?: DocumentReflection[];
 }
 
 /**
@@ -237,10 +312,20 @@ export interface Comment {
  * and handle different content types (text, code, links).
  */
 export interface CommentDisplayPart {
-  /** Kind of content (e.g., "text", "code") */
+  /** Kind of content ("text", "code", "inline-tag" or "relative-link") */
   kind: string;
   /** The actual text content */
   text: string;
+  /** Tag name of inline tags (e.g., "@link") */
+  tag?: string;
+  /** Link target: a reflection ID, or a URL for external links */
+  target?: number | string;
+  /** Declaration a link points to that is not part of the documentation (0.26+) */
+  targetSymbol?: SymbolId;
+  /** Link text as TypeScript resolves it */
+  tsLinkText?: string;
+  /** Anchor within the target of relative links */
+  targetAnchor?: string;
 }
 
 /**
@@ -258,7 +343,7 @@ export interface CommentTag {
   tag: string;
   /** Tag content parts */
   content: CommentDisplayPart[];
-  /** Parameter name for @param tags */
+  /** Parameter name for @param tags, or title of @example tags (0.25+) */
   name?: string;
 }
 
@@ -286,7 +371,7 @@ export interface Type {
   type: string;
   /** Type name */
   name?: string;
-  /** Reference ID for named types */
+  /** Reference ID written by TypeDoc 0.23, normalized to `target` on load */
   id?: number;
   /** Type arguments for generics */
   typeArguments?: Type[];
@@ -294,10 +379,10 @@ export interface Type {
   types?: Type[];
   /** Element type for arrays */
   elementType?: Type;
-  /** Literal value */
-  value?: string;
-  /** Target type reference */
-  target?: number | Type;
+  /** Literal value; bigint literals are `{ value, negative }` */
+  value?: string | number | boolean | null | { value: string; negative: boolean };
+  /** Referenced reflection ID, or the referenced type of predicates and queries */
+  target?: number | Type | SymbolId;
   /** Package name for external types */
   package?: string;
   /** Type parameter constraint */
@@ -322,6 +407,36 @@ export interface Type {
   trueType?: Type;
   /** False branch of conditional */
   falseType?: Type;
+  /** Element types for tuples */
+  elements?: Type[];
+  /** Wrapped type for named tuple members */
+  element?: Type;
+  /** Whether a named tuple member is optional */
+  isOptional?: boolean;
+  /** Referenced expression for typeof queries */
+  queryType?: Type;
+  /** Key parameter name for mapped types */
+  parameter?: string;
+  /** Key constraint for mapped types */
+  parameterType?: Type;
+  /** Value type for mapped types */
+  templateType?: Type;
+  /** Key remapping (`as` clause) for mapped types */
+  nameType?: Type;
+  /** Readonly modifier for mapped types */
+  readonlyModifier?: '+' | '-';
+  /** Optional modifier for mapped types */
+  optionalModifier?: '+' | '-';
+  /** Leading text of template literal types */
+  head?: string;
+  /** Type and text pairs following the head of template literal types */
+  tail?: [Type, string][];
+  /** Whether a type predicate is an assertion */
+  asserts?: boolean;
+  /** Fully qualified name for references */
+  qualifiedName?: string;
+  /** Whether a reference points at a type parameter */
+  refersToTypeParameter?: boolean;
 }
 
 /**
@@ -368,7 +483,7 @@ export interface Signature {
   /** Source locations */
   sources?: Source[];
   /** Generic type parameters */
-  typeParameter?: TypeParameter[];
+  typeParameters?: TypeParameter[];
   /** Function parameters */
   parameters?: Parameter[];
   /** Return type */
@@ -377,6 +492,8 @@ export interface Signature {
   overwrites?: Type;
   /** Inherited from */
   inheritedFrom?: Type;
+  /** Interface signature this signature implements */
+  implementationOf?: Type;
 }
 
 /**
@@ -432,6 +549,12 @@ export interface TypeParameter {
   kind: number;
   /** Human-readable kind string */
   kindString?: string;
+  /** Type parameter flags (`isConst` for `const T`) */
+  flags?: Flags;
+  /** Variance annotation */
+  varianceModifier?: 'in' | 'out' | 'in out';
+  /** Documentation comment (from `@typeParam` tags) */
+  comment?: Comment;
   /** Type constraint (extends clause) */
   constraint?: Type;
   /** Default type */
@@ -501,6 +624,8 @@ export enum ReflectionKind {
   TypeAlias = 2097152,
   /** Module reference */
   Reference = 4194304,
+  /** Markdown document (0.26+) */
+  Document = 8388608,
   /** All kinds combined */
-  All = 8388607
+  All = 16777215
 }
\ No newline at end of file
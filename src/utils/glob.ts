@@ -0,0 +1,47 @@
+/**
+ * Glob matching helpers
+ * 
+ * @packageDocumentation
+ * @module utils/glob
+ * 
+ * @remarks
+ * A minimal glob dialect shared by file lookups and file watching:
+ * `*` matches within a path segment, `**` matches any number of segments
+ * (so a trailing `**` matches every file below) and `?` matches a single
+ * character.
+ */
+
+/**
+ * Converts a glob to a regular expression source
+ * 
+ * @param glob - Glob supporting `*`, `**` and `?`
+ * @returns Regular expression source without anchors
+ * 
+ * @example
+ * ```typescript
+ * new RegExp(`^${globToRegExpSource('src/*.ts')}$`).test('src/index.ts'); // true
+ * new RegExp(`^${globToRegExpSource('src/**')}$`).test('src/tools/index.ts'); // true
+ * ```
+ */
+export function globToRegExpSource(glob: string): string {
+  const parts = glob.split(/(\*\*\/?|\*|\?)/);
+  return parts
+    .map((part, i) => {
+      if (part === '**' && i === parts.length - 2 && !parts[i + 1]) return '.*';
+      if (part === '**/' || part === '**') return '(?:.*/)?';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+}
+
+/**
+ * Checks whether a path contains glob characters
+ * 
+ * @param pattern - Path or glob
+ * @returns True if the pattern uses `*` or `?`
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
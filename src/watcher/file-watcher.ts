@@ -0,0 +1,182 @@
+/**
+ * Debounced file watching
+ * 
+ * @packageDocumentation
+ * @module watcher/file-watcher
+ * 
+ * @remarks
+ * This module watches directories for changes and reports bursts of changes
+ * as a single callback. Directories are watched rather than files, so that
+ * files replaced by renaming a new file over them are still tracked.
+ */
+
+import { watch, FSWatcher } from 'fs';
+import * as path from 'path';
+
+/**
+ * Options for a file watcher
+ */
+export interface FileWatcherOptions {
+  /** Quiet period after the last change before the callback runs, in ms (default: 500) */
+  debounceMs?: number;
+  /** Only changes to files accepted by this predicate are reported */
+  filter?: (filePath: string) => boolean;
+}
+
+/**
+ * Callback invoked after a burst of changes
+ * 
+ * @param files - Absolute paths of the changed files, in the order first seen
+ */
+export type ChangeCallback = (files: string[]) => Promise<void>;
+
+/**
+ * Watches directories and reports debounced changes
+ * 
+ * @remarks
+ * The callback never runs concurrently with itself. Changes seen while it
+ * runs are collected and reported in one more call once it finishes.
+ * Errors thrown by the callback are the callback's responsibility to report;
+ * they do not stop the watcher.
+ * 
+ * Watchers and timers are unreferenced, so watching never keeps the process
+ * alive on its own.
+ * 
+ * @example
+ * ```typescript
+ * const watcher = new FileWatcher(async files => {
+ *   console.error(`Changed: ${files.join(', ')}`);
+ * }, { filter: file => file.endsWith('.json') });
+ * 
+ * watcher.watch('./docs');
+ * // later
+ * watcher.close();
+ * ```
+ */
+export class FileWatcher {
+  /** Active directory watchers keyed by directory */
+  private watchers = new Map<string, FSWatcher>();
+  /** Changed files not yet reported */
+  private changed = new Set<string>();
+  /** Pending debounce timer */
+  private timer: NodeJS.Timeout | null = null;
+  /** Whether the callback is currently running */
+  private running = false;
+
+  /**
+   * Creates a new file watcher
+   * 
+   * @param onChange - Called after each burst of changes
+   * @param options - Debounce and filter options
+   */
+  constructor(private onChange: ChangeCallback, private options: FileWatcherOptions = {}) {}
+
+  /**
+   * Starts watching a directory (not recursively)
+   * 
+   * @param dir - Directory to watch; watching it again has no effect
+   * 
+   * @throws Error if the directory cannot be watched
+   */
+  watch(dir: string): void {
+    const resolved = path.resolve(dir);
+    if (this.watchers.has(resolved)) return;
+
+    const watcher = watch(resolved, (_event, fileName) => {
+      if (!fileName) return;
+
+      const filePath = path.join(resolved, fileName.toString());
+      if (this.options.filter && !this.options.filter(filePath)) return;
+
+      this.changed.add(filePath);
+      this.schedule();
+    });
+
+    // A watched directory that disappears simply stops reporting
+    watcher.on('error', () => this.unwatch(resolved));
+    watcher.unref();
+    this.watchers.set(resolved, watcher);
+  }
+
+  /**
+   * Stops watching a directory
+   * 
+   * @param dir - Directory passed to {@link FileWatcher.watch}
+   */
+  unwatch(dir: string): void {
+    const resolved = path.resolve(dir);
+    this.watchers.get(resolved)?.close();
+    this.watchers.delete(resolved);
+  }
+
+  /**
+   * Gets the directories being watched
+   * 
+   * @returns Absolute directory paths
+   */
+  getWatched(): string[] {
+    return [...this.watchers.keys()];
+  }
+
+  /**
+   * Whether changes have been seen that the callback has not finished handling
+   */
+  get pending(): boolean {
+    return this.changed.size > 0 || this.timer !== null || this.running;
+  }
+
+  /**
+   * Stops all watching and drops pending changes
+   */
+  close(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.changed.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Restarts the debounce timer
+   * 
+   * @internal
+   */
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.options.debounceMs ?? 500);
+    this.timer.unref();
+  }
+
+  /**
+   * Reports collected changes, unless a report is already running
+   * 
+   * @internal
+   */
+  private async flush(): Promise<void> {
+    if (this.running || this.changed.size === 0) return;
+
+    const files = [...this.changed];
+    this.changed.clear();
+    this.running = true;
+
+    try {
+      await this.onChange(files);
+    } catch {
+      // Reporting failures is up to the callback
+    } finally {
+      this.running = false;
+    }
+
+    // Report anything that changed while the callback ran
+    if (this.changed.size > 0) {
+      this.schedule();
+    }
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * TypeScript source watching for watch mode
+ * 
+ * @packageDocumentation
+ * @module watcher/source-watcher
+ * 
+ * @remarks
+ * This module works out which files a project's documentation is generated
+ * from, using the entry points in `typedoc.json` and the `include`/`files`
+ * settings of `tsconfig.json`, and watches them for changes.
+ */
+
+import { promises as fs, statSync } from 'fs';
+import * as path from 'path';
+import { FileWatcher, ChangeCallback } from './file-watcher.js';
+import { globToRegExpSource, isGlob } from '../utils/glob.js';
+
+/**
+ * Files and directories watched for a project
+ */
+export interface WatchTargets {
+  /** Absolute directories watched recursively */
+  roots: string[];
+  /** Project-relative globs whose files trigger regeneration */
+  include: string[];
+  /** Project-relative globs that never trigger regeneration */
+  exclude: string[];
+}
+
+/**
+ * Options for a source watcher
+ */
+export interface SourceWatcherOptions {
+  /** Quiet period after the last edit before regenerating, in ms (default: 1000) */
+  debounceMs?: number;
+}
+
+/**
+ * Extensions of files that can affect generated documentation
+ * 
+ * @internal
+ */
+const SOURCE_EXTENSIONS = /\.(?:ts|tsx|mts|cts)$/;
+
+/**
+ * Project files whose changes always trigger regeneration
+ * 
+ * @internal
+ */
+const CONFIG_FILES = ['typedoc.json', 'tsconfig.json', 'package.json'];
+
+/**
+ * Works out what to watch for a project
+ * 
+ * @param projectPath - Path to the TypeScript project
+ * @returns Directories to watch and the globs that filter changes
+ * 
+ * @remarks
+ * Entry points and `files` entries that name a file are widened to their
+ * directory, since the modules they import usually live next to them.
+ * A `tsconfig.json` without `include` or `files` includes the whole project,
+ * as it does for the compiler. Without either config, `src` is watched,
+ * matching what `runTypeDocGeneration` documents by default.
+ * 
+ * @example
+ * ```typescript
+ * const targets = await resolveWatchTargets('/path/to/project');
+ * console.error(targets.roots); // ['/path/to/project/src']
+ * ```
+ */
+export async function resolveWatchTargets(projectPath: string): Promise<WatchTargets> {
+  const typedoc = await readJsonc(path.join(projectPath, 'typedoc.json'));
+  const tsconfig = await readJsonc(path.join(projectPath, typedoc?.tsconfig || 'tsconfig.json'));
+
+  const patterns: string[] = [...(typedoc?.entryPoints || [])];
+  if (tsconfig) {
+    const tsPatterns = [...(tsconfig.include || []), ...(tsconfig.files || [])];
+    patterns.push(...(tsPatterns.length > 0 ? tsPatterns : ['**/*']));
+  }
+  if (patterns.length === 0) {
+    patterns.push('src');
+  }
+
+  const include = unique(patterns.map(p => toProjectGlob(projectPath, p, true)));
+  const exclude = unique(
+    [...(typedoc?.exclude || []), ...(tsconfig?.exclude || [])].map(p => toProjectGlob(projectPath, p, false))
+  );
+
+  // Watch each static prefix once, skipping any nested inside another
+  const prefixes = unique(include.map(getStaticPrefix)).sort();
+  const roots = prefixes
+    .filter((prefix, i) => !prefixes.slice(0, i).some(other => isInside(prefix, other)))
+    .map(prefix => path.join(path.resolve(projectPath), prefix));
+
+  return { roots, include, exclude };
+}
+
+/**
+ * Watches a project's TypeScript sources and reports debounced changes
+ * 
+ * @remarks
+ * Directories are watched one by one rather than with recursive watching,
+ * which is not available on every platform. Directories created later are
+ * picked up as they appear. `node_modules` and dot-directories are skipped.
+ * When `typedoc.json` or `tsconfig.json` changes, the watch targets are
+ * worked out again before the change is reported.
+ * 
+ * @example
+ * ```typescript
+ * const watcher = new SourceWatcher('/path/to/project', async files => {
+ *   await runTypeDocGeneration('/path/to/project');
+ * });
+ * const targets = await watcher.start();
+ * console.error(`Watching ${targets.roots.join(', ')}`);
+ * ```
+ */
+export class SourceWatcher {
+  /** Underlying directory watcher */
+  private watcher: FileWatcher;
+  /** Current watch targets, once started */
+  private targets: WatchTargets | null = null;
+  /** Compiled include globs */
+  private includeRegex: RegExp[] = [];
+  /** Compiled exclude globs */
+  private excludeRegex: RegExp[] = [];
+  /** Absolute project path */
+  private root: string;
+
+  /**
+   * Creates a new source watcher
+   * 
+   * @param projectPath - Path to the TypeScript project
+   * @param onChange - Called with the changed files after each burst of edits
+   * @param options - Debounce options
+   */
+  constructor(projectPath: string, onChange: ChangeCallback, options: SourceWatcherOptions = {}) {
+    this.root = path.resolve(projectPath);
+    this.watcher = new FileWatcher(
+      async files => {
+        if (files.some(file => this.isConfigFile(file))) {
+          await this.refresh();
+        }
+        await onChange(files);
+      },
+      { debounceMs: options.debounceMs ?? 1000, filter: file => this.accept(file) }
+    );
+  }
+
+  /**
+   * Works out the watch targets and starts watching
+   * 
+   * @returns The watch targets
+   */
+  async start(): Promise<WatchTargets> {
+    return this.refresh();
+  }
+
+  /**
+   * Whether changes have been seen that were not yet fully reported
+   */
+  get pending(): boolean {
+    return this.watcher.pending;
+  }
+
+  /**
+   * Stops watching
+   */
+  close(): void {
+    this.watcher.close();
+  }
+
+  /**
+   * Re-reads the project configuration and watches any new roots
+   * 
+   * @internal
+   */
+  private async refresh(): Promise<WatchTargets> {
+    const targets = await resolveWatchTargets(this.root);
+    this.targets = targets;
+    this.includeRegex = targets.include.map(toRegExp);
+    this.excludeRegex = targets.exclude.map(toRegExp);
+
+    // Configuration files live in the project root
+    this.watcher.watch(this.root);
+    for (const dir of targets.roots) {
+      await this.watchTree(dir);
+    }
+
+    return targets;
+  }
+
+  /**
+   * Watches a directory and all directories below it
+   * 
+   * @internal
+   */
+  private async watchTree(dir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+      this.watcher.watch(dir);
+    } catch {
+      // Roots that do not exist yet are watched once they appear
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory() && !isIgnoredDir(entry.name)) {
+        await this.watchTree(path.join(dir, entry.name));
+      }
+    }
+  }
+
+  /**
+   * Decides whether a changed path should trigger regeneration
+   * 
+   * @internal
+   */
+  private accept(filePath: string): boolean {
+    if (this.isConfigFile(filePath)) return true;
+    if (!this.targets || !this.isInRoots(filePath)) return false;
+
+    // New directories are watched rather than reported
+    if (isDirectory(filePath)) {
+      if (!isIgnoredDir(path.basename(filePath))) void this.watchTree(filePath);
+      return false;
+    }
+
+    if (!SOURCE_EXTENSIONS.test(filePath)) return false;
+
+    const relative = toPosix(path.relative(this.root, filePath));
+    return this.includeRegex.some(r => r.test(relative)) && !this.excludeRegex.some(r => r.test(relative));
+  }
+
+  /**
+   * Checks whether a path is one of the project's configuration files
+   * 
+   * @internal
+   */
+  private isConfigFile(filePath: string): boolean {
+    return path.dirname(filePath) === this.root && CONFIG_FILES.includes(path.basename(filePath));
+  }
+
+  /**
+   * Checks whether a path is inside one of the watched roots
+   * 
+   * @internal
+   */
+  private isInRoots(filePath: string): boolean {
+    return (this.targets?.roots || []).some(root => filePath === root || filePath.startsWith(root + path.sep));
+  }
+}
+
+/**
+ * Reads a JSON file that may contain comments, as `tsconfig.json` may
+ * 
+ * @returns Parsed contents, or null if missing or unreadable
+ * 
+ * @internal
+ */
+async function readJsonc(filePath: string): Promise<any> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(stripJsonComments(content));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Removes comments and trailing commas from JSON text, leaving strings intact
+ * 
+ * @internal
+ */
+function stripJsonComments(text: string): string {
+  const withoutComments = text.replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_match, str) => str ?? '');
+  return withoutComments.replace(/("(?:[^"\\]|\\.)*")|,(\s*[}\]])/g, (_match, str, end) => str ?? end);
+}
+
+/**
+ * Turns an entry point, include or exclude setting into a project-relative glob
+ * 
+ * @param projectPath - Path to the project
+ * @param pattern - Path or glob from a config file
+ * @param widenFiles - Whether a plain file path should cover its whole directory
+ * 
+ * @internal
+ */
+function toProjectGlob(projectPath: string, pattern: string, widenFiles: boolean): string {
+  let glob = toPosix(path.isAbsolute(pattern) ? path.relative(projectPath, pattern) : pattern)
+    .replace(/^(\.\/)+/, '')
+    .replace(/\/$/, '');
+
+  if (!isGlob(glob)) {
+    const absolute = path.join(projectPath, glob);
+    if (isDirectory(absolute) || !path.extname(glob)) {
+      glob = glob && glob !== '.' ? `${glob}/**/*` : '**/*';
+    } else if (widenFiles) {
+      const dir = path.posix.dirname(glob);
+      glob = dir === '.' ? '**/*' : `${dir}/**/*`;
+    }
+  }
+
+  return glob;
+}
+
+/**
+ * Gets the directory part of a glob that contains no wildcards
+ * 
+ * @internal
+ */
+function getStaticPrefix(glob: string): string {
+  const segments = glob.split('/');
+  const firstGlob = segments.findIndex(isGlob);
+  const staticSegments = firstGlob === -1 ? segments.slice(0, -1) : segments.slice(0, firstGlob);
+  return staticSegments.join('/');
+}
+
+/**
+ * Checks whether one project-relative directory is inside another
+ * 
+ * @internal
+ */
+function isInside(dir: string, parent: string): boolean {
+  return parent === '' || dir === parent || dir.startsWith(`${parent}/`);
+}
+
+/**
+ * Compiles a project-relative glob
+ * 
+ * @internal
+ */
+function toRegExp(glob: string): RegExp {
+  return new RegExp(`^${globToRegExpSource(glob)}$`);
+}
+
+/**
+ * Checks whether a directory is never watched
+ * 
+ * @internal
+ */
+function isIgnoredDir(name: string): boolean {
+  return name === 'node_modules' || name.startsWith('.');
+}
+
+/**
+ * Checks whether a path is an existing directory
+ * 
+ * @internal
+ */
+function isDirectory(filePath: string): boolean {
+  try {
+    return statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts a path to forward slashes
+ * 
+ * @internal
+ */
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Removes duplicates while keeping order
+ * 
+ * @internal
+ */
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { bindTypeParameters, substituteReflection, substituteType } from '../../src/parser/generics.js';
+import { Reflection, ReflectionKind, Type, TypeParameter } from '../../src/types/typedoc.js';
+
+const typeParameter = (name: string, extra: Partial<TypeParameter> = {}): TypeParameter => ({
+  id: 0,
+  name,
+  kind: ReflectionKind.TypeParameter,
+  ...extra,
+});
+const parameter = (name: string): Type => ({ type: 'reference', name, refersToTypeParameter: true });
+const user: Type = { type: 'reference', name: 'User', target: 6 };
+
+describe('substituteType', () => {
+  it('replaces bound type parameters only', () => {
+    const bindings = bindTypeParameters([typeParameter('T')], [user]);
+    expect(substituteType({ type: 'array', elementType: parameter('T') }, bindings)).toEqual({ type: 'array', elementType: user });
+    expect(substituteType(parameter('U'), bindings)).toEqual(parameter('U'));
+  });
+
+  it('leaves references to types named like a parameter alone', () => {
+    const bindings = bindTypeParameters([typeParameter('T')], [user]);
+    const type: Type = { type: 'reference', name: 'T', target: 42 };
+    expect(substituteType(type, bindings)).toEqual(type);
+  });
+
+  it('fills in defaults that refer to earlier parameters', () => {
+    const bindings = bindTypeParameters([typeParameter('T'), typeParameter('U', { default: parameter('T') })], [user]);
+    expect(bindings.get('U')).toEqual(user);
+  });
+
+  it('does not substitute into mapped types that redeclare the name', () => {
+    const bindings = bindTypeParameters([typeParameter('K')], [user]);
+    const mapped: Type = { type: 'mapped', parameter: 'K', parameterType: parameter('K'), templateType: parameter('K') };
+    expect(substituteType(mapped, bindings)).toBe(mapped);
+  });
+});
+
+describe('substituteReflection', () => {
+  it('does not substitute into signatures that shadow the type parameter', () => {
+    const bindings = bindTypeParameters([typeParameter('T')], [user]);
+    const method: Reflection = {
+      id: 3,
+      name: 'map',
+      kind: ReflectionKind.Method,
+      signatures: [
+        {
+          id: 4,
+          name: 'map',
+          variant: 'signature',
+          kind: ReflectionKind.CallSignature,
+          typeParameters: [typeParameter('T')],
+          parameters: [{ id: 5, name: 'value', variant: 'param', kind: ReflectionKind.Parameter, type: parameter('T') }],
+          type: parameter('T'),
+        },
+        {
+          id: 6,
+          name: 'map',
+          variant: 'signature',
+          kind: ReflectionKind.CallSignature,
+          parameters: [{ id: 7, name: 'value', variant: 'param', kind: ReflectionKind.Parameter, type: parameter('T') }],
+          type: parameter('T'),
+        },
+      ],
+    };
+
+    const [shadowing, plain] = substituteReflection(method, bindings).signatures!;
+    expect(shadowing).toEqual(method.signatures![0]);
+    expect(plain.parameters![0].type).toEqual(user);
+    expect(plain.type).toEqual(user);
+  });
+});
@@ -0,0 +1,201 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TypeDocParser } from '../../src/parser/index.js';
+import { ReflectionKind, TypeDocJSON } from '../../src/types/typedoc.js';
+
+const source = (line: number) => [{ fileName: 'src/index.ts', line, character: 0 }];
+const summary = (text: string) => ({ summary: [{ kind: 'text', text }] });
+
+const doc: TypeDocJSON = {
+  id: 0,
+  name: 'fixture',
+  variant: 'project',
+  kind: ReflectionKind.Project,
+  flags: {},
+  children: [
+    {
+      id: 1,
+      name: 'Repository',
+      variant: 'declaration',
+      kind: ReflectionKind.Interface,
+      flags: {},
+      comment: summary('Stores entities'),
+      sources: source(1),
+      typeParameters: [{ id: 2, name: 'T', variant: 'typeParam', kind: ReflectionKind.TypeParameter, flags: {} }],
+      children: [
+        {
+          id: 3,
+          name: 'find',
+          variant: 'declaration',
+          kind: ReflectionKind.Method,
+          flags: {},
+          sources: source(3),
+          signatures: [
+            {
+              id: 4,
+              name: 'find',
+              variant: 'signature',
+              kind: ReflectionKind.CallSignature,
+              flags: {},
+              comment: summary('Finds an entity "by id"\nor \\ nothing'),
+              parameters: [
+                { id: 5, name: 'id', variant: 'param', kind: ReflectionKind.Parameter, flags: {}, type: { type: 'intrinsic', name: 'string' } },
+              ],
+              type: { type: 'union', types: [{ type: 'reference', name: 'T', refersToTypeParameter: true }, { type: 'intrinsic', name: 'undefined' }] },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 6,
+      name: 'User',
+      variant: 'declaration',
+      kind: ReflectionKind.Class,
+      flags: {},
+      sources: source(10),
+      children: [
+        { id: 7, name: 'name', variant: 'declaration', kind: ReflectionKind.Property, flags: {}, type: { type: 'intrinsic', name: 'string' } },
+        { id: 8, name: 'age', variant: 'declaration', kind: ReflectionKind.Property, flags: { isOptional: true }, type: { type: 'literal', value: -1.5e3 } },
+      ],
+    },
+  ],
+};
+
+describe('TypeDocParser', () => {
+  let dir = '';
+  let file = '';
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsdoc-mcp-test-'));
+    file = path.join(dir, 'typedoc.json');
+    await fs.writeFile(file, JSON.stringify(doc, null, 2));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('streaming', () => {
+    it('serves the same reflections as a full parse', async () => {
+      const full = new TypeDocParser(file, { streaming: false });
+      const streamed = new TypeDocParser(file, { streaming: true, cacheDir: dir });
+      await full.parse();
+      await streamed.parse();
+
+      try {
+        expect(streamed.getStats().load?.mode).toBe('streaming');
+        for (let id = 1; id <= 8; id++) {
+          expect(streamed.getById(id)).toEqual(full.getById(id));
+          expect(streamed.findById(id)?.path).toBe(full.findById(id)?.path);
+        }
+        expect(streamed.findByPath('fixture.Repository.find')?.id).toBe(3);
+      } finally {
+        streamed.close();
+      }
+    });
+
+    it('keeps serving bodies after the file is replaced', async () => {
+      const replaced = path.join(dir, 'replaced.json');
+      await fs.copyFile(file, replaced);
+      const parser = new TypeDocParser(replaced, { streaming: true });
+      await parser.parse();
+
+      try {
+        await fs.writeFile(`${replaced}.tmp`, JSON.stringify({ ...doc, children: [] }));
+        await fs.rename(`${replaced}.tmp`, replaced);
+        expect(parser.getById(6)?.name).toBe('User');
+      } finally {
+        parser.close();
+      }
+      expect(() => parser.getById(7)).toThrow(/was closed/);
+    });
+
+    it('refuses bodies of a file rewritten in place', async () => {
+      const rewritten = path.join(dir, 'rewritten.json');
+      await fs.copyFile(file, rewritten);
+      const parser = new TypeDocParser(rewritten, { streaming: true });
+      await parser.parse();
+
+      try {
+        await fs.writeFile(rewritten, JSON.stringify({ ...doc, children: [] }));
+        expect(() => parser.getById(6)).toThrow(/was rewritten since it was loaded/);
+        expect(parser.findById(6)?.name).toBe('User');
+      } finally {
+        parser.close();
+      }
+    });
+  });
+
+  describe('getFiles', () => {
+    it('finds the files matching a glob', async () => {
+      const parser = new TypeDocParser(file);
+      await parser.parse();
+
+      for (const pattern of ['src/index.ts', 'src/**', 'src/**/*.ts', '**/index.ts', '/repo/src/index.ts']) {
+        expect(parser.getFiles(pattern), pattern).toEqual(['src/index.ts']);
+      }
+      expect(parser.getFiles('lib/**')).toEqual([]);
+      expect(parser.findByFile('src/index.ts').map(symbol => symbol.name)).toEqual(['Repository', 'find', 'User']);
+    });
+  });
+
+  describe('search', () => {
+    const ranked: TypeDocJSON = {
+      id: 0,
+      name: 'ranking',
+      variant: 'project',
+      kind: ReflectionKind.Project,
+      flags: {},
+      children: [
+        { id: 1, name: 'parser', variant: 'declaration', kind: ReflectionKind.Variable, flags: {} },
+        {
+          id: 2,
+          name: 'internal',
+          variant: 'declaration',
+          kind: ReflectionKind.Namespace,
+          flags: {},
+          children: [{ id: 3, name: 'Parser', variant: 'declaration', kind: ReflectionKind.Class, flags: {} }],
+        },
+      ],
+    };
+
+    it('boosts kinds only for top-level declarations', async () => {
+      const rankedFile = path.join(dir, 'ranking.json');
+      await fs.writeFile(rankedFile, JSON.stringify(ranked));
+
+      // The second streaming parse restores the search index from the cache
+      for (const streaming of [false, true, true]) {
+        const parser = new TypeDocParser(rankedFile, { streaming, cacheDir: dir });
+        await parser.parse();
+        expect(parser.search('parser').map(hit => hit.id), `streaming: ${streaming}`).toEqual([1, 3]);
+        parser.close();
+      }
+    });
+  });
+
+  describe('malformed input', () => {
+    const malformed = [
+      ['a missing comma', '{"id":0 "name":"fixture"}'],
+      ['a missing colon', '{"id" 0,"name":"fixture"}'],
+      ['a trailing comma', '{"id":0,"name":"fixture",}'],
+      ['a hexadecimal number', '{"id":0x0,"name":"fixture"}'],
+      ['mismatched brackets', '{"id":0,"children":[}'],
+      ['a truncated file', '{"id":0,"name":"fix'],
+      ['trailing content', '{"id":0,"name":"fixture"} {}'],
+    ];
+
+    for (const streaming of [false, true]) {
+      for (const [problem, text] of malformed) {
+        it(`rejects ${problem} when ${streaming ? 'streaming' : 'parsing in full'}`, async () => {
+          const broken = path.join(dir, 'broken.json');
+          await fs.writeFile(broken, text);
+          const parser = new TypeDocParser(broken, { streaming, cacheDir: dir });
+          await expect(parser.parse()).rejects.toThrow();
+        });
+      }
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ByteRange, pinFile, readJsonRange, releasePinnedFile, streamReflections } from '../../src/parser/json-stream.js';
+
+describe('streamReflections', () => {
+  let dir = '';
+  const write = async (text: string) => {
+    const file = path.join(dir, `${Math.random().toString(36).slice(2)}.json`);
+    await fs.writeFile(file, text);
+    return file;
+  };
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsdoc-mcp-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports each reflection with the byte range it was read from', async () => {
+    const text = '{"id":0,"name":"root","children":[{"id":1,"name":"a","children":[{"id":2,"name":"b"}]},{"id":3,"name":"c \\"d\\""}]}';
+    const file = await write(text);
+    const seen: [number, number[], ByteRange][] = [];
+
+    const root = await streamReflections(file, (node, childIds, range) => seen.push([node.id, childIds, range]));
+
+    expect(root).toEqual({ id: 0, name: 'root' });
+    expect(seen.map(([id, childIds]) => [id, childIds])).toEqual([[2, []], [1, [2]], [3, []], [0, [1, 3]]]);
+    for (const [id, , range] of seen) {
+      expect(readJsonRange(file, range).id).toBe(id);
+    }
+    expect(readJsonRange(file, seen[1][2])).toEqual(JSON.parse(text).children[0]);
+  });
+
+  it('reads the same values as JSON.parse', async () => {
+    const value = { id: 0, numbers: [0, -1, 1.5, 2e-3, 1E+2], flags: [true, false, null], text: 'tab\there é ☃', nested: { a: [] as number[], b: {} } };
+    expect(await streamReflections(await write(JSON.stringify(value, null, 2)), () => undefined)).toEqual(value);
+  });
+
+  it.each([
+    ['a missing comma', '{"id":0 "name":"a"}', 8],
+    ['a missing colon', '{"id" 0}', 6],
+    ['a colon in an array', '{"id":0,"x":[1:2]}', 14],
+    ['a trailing comma', '{"id":0,}', 8],
+    ['a leading comma', '{,"id":0}', 1],
+    ['a hexadecimal number', '{"id":0x10}', 6],
+    ['a number with a leading zero', '{"id":01}', 6],
+    ['a bare word', '{"id":NaN}', 6],
+    ['mismatched brackets', '{"id":0]', 7],
+    ['a non-string key', '{1:2}', 2],
+    ['an unknown escape', '{"id":"\\q"}', 9],
+    ['a raw line break in a string', '{"id":"a\nb"}', 8],
+    ['a second value after the root', '{"id":0} {}', 9],
+    ['trailing text after the root', '{"id":0} x', 9],
+  ])('rejects %s', async (_, text, offset) => {
+    await expect(streamReflections(await write(text), () => undefined)).rejects.toThrow(new RegExp(`at byte ${offset}$`));
+  });
+
+  it('rejects a truncated file', async () => {
+    await expect(streamReflections(await write('{"id":0,"children":[{"id":1'), () => undefined)).rejects.toThrow(/Unexpected end of TypeDoc JSON/);
+  });
+
+  it('rejects a root that is not an object', async () => {
+    await expect(streamReflections(await write('[1, 2]'), () => undefined)).rejects.toThrow(/root must be an object/);
+  });
+
+  it('leaves a descriptor it was given open when reading fails', async () => {
+    const pinned = pinFile(await write('{"id":0,"children":[{"id":1}}'));
+    try {
+      await expect(streamReflections(pinned.fd, () => undefined)).rejects.toThrow();
+      // Destroyed streams close their descriptor asynchronously
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(readJsonRange(pinned.fd, { start: 20, end: 28 })).toEqual({ id: 1 });
+    } finally {
+      releasePinnedFile(pinned);
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { TypeDocParser } from '../../src/parser/index.js';
+import { detectSchema } from '../../src/parser/schema.js';
+import { ReflectionKind } from '../../src/types/typedoc.js';
+
+const fixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+describe('TypeDoc releases', () => {
+  for (const version of ['0.23', '0.24', '0.25']) {
+    for (const streaming of [false, true]) {
+      describe(`${version}${streaming ? ', streamed' : ''}`, () => {
+        const load = async () => {
+          const parser = new TypeDocParser(path.join(fixtures, `typedoc-${version}.json`), { streaming });
+          await parser.parse();
+          return parser;
+        };
+
+        it('is detected', async () => {
+          const parser = await load();
+          expect(parser.getStats().load?.schema).toBe(version);
+          parser.close();
+        });
+
+        it('reads type aliases and re-exports with their kinds', async () => {
+          const parser = await load();
+          expect(parser.findByPath('fixture.UserId')?.reflectionKind).toBe(ReflectionKind.TypeAlias);
+          expect(parser.findByKind(ReflectionKind.Reference).map(symbol => symbol.name)).toEqual(['Person']);
+          expect(parser.findByPath('fixture.Person')?.name).toBe('User');
+          expect(parser.findByKind(ReflectionKind.TypeAlias).map(symbol => symbol.name)).toEqual(['UserId']);
+          expect(parser.getById(3)?.kindString).toBe('Type alias');
+          parser.close();
+        });
+
+        it('follows re-exports but not type aliases', async () => {
+          const parser = await load();
+          expect(parser.getById(7)?.name).toBe('User');
+          expect(parser.getById(3)?.name).toBe('UserId');
+          expect(parser.resolveType({ type: 'reference', name: 'UserId', target: 3 })?.kind).toBe(ReflectionKind.TypeAlias);
+          parser.close();
+        });
+      });
+    }
+  }
+});
+
+describe('detectSchema', () => {
+  it('tells 0.24 from 0.25 by the kind of a re-export', () => {
+    const head = (kind: number) => `{"id":0,"name":"x","variant":"project","kind":1,"children":[{"id":1,"name":"A","variant":"reference","kind":${kind}`;
+    expect(detectSchema(head(8388608)).versions).toBe('0.24');
+    expect(detectSchema(head(4194304)).versions).toBe('0.25');
+  });
+
+  it('recognizes 0.24 by a type alias', () => {
+    expect(detectSchema('{"id":0,"name":"x","variant":"project","kind":1,"children":[{"id":1,"name":"A","variant":"declaration","kind":4194304').versions).toBe('0.24');
+  });
+
+  it('tells kinds apart by variant when the head does not show the release', () => {
+    const adapter = detectSchema('{"id":0,"name":"x","variant":"project","kind":1,"children":[');
+    expect(adapter.versions).toBe('0.24-0.25');
+    expect(adapter.normalizeReflection({ id: 1, name: 'A', variant: 'declaration', kind: 4194304 }).kind).toBe(ReflectionKind.TypeAlias);
+    expect(adapter.normalizeReflection({ id: 2, name: 'B', variant: 'reference', kind: 8388608 }).kind).toBe(ReflectionKind.Reference);
+    expect(adapter.normalizeReflection({ id: 3, name: 'C', variant: 'reference', kind: 4194304 }).kind).toBe(ReflectionKind.Reference);
+    expect(adapter.normalizeReflection({ id: 4, name: 'D', variant: 'declaration', kind: 2097152 }).kind).toBe(ReflectionKind.TypeAlias);
+  });
+});
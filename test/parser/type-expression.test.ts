@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseTypeExpression } from '../../src/parser/type-expression.js';
+
+const string = { type: 'intrinsic', name: 'string' };
+const number = { type: 'intrinsic', name: 'number' };
+
+describe('parseTypeExpression', () => {
+  it('parses nested type arguments', () => {
+    expect(parseTypeExpression('Map<string, Array<Set<number>>>')).toEqual({
+      type: 'reference',
+      name: 'Map',
+      typeArguments: [
+        string,
+        { type: 'reference', name: 'Array', typeArguments: [{ type: 'reference', name: 'Set', typeArguments: [number] }] },
+      ],
+    });
+  });
+
+  it('resolves names through the callback', () => {
+    const ids: Record<string, number> = { Repository: 1, User: 6 };
+    expect(parseTypeExpression('Repository<User>', name => ids[name])).toEqual({
+      type: 'reference',
+      name: 'Repository',
+      target: 1,
+      typeArguments: [{ type: 'reference', name: 'User', target: 6 }],
+    });
+  });
+
+  it('binds array suffixes tighter than unions and intersections', () => {
+    expect(parseTypeExpression('string | number[]')).toEqual({
+      type: 'union',
+      types: [string, { type: 'array', elementType: number }],
+    });
+    expect(parseTypeExpression('(string | number)[][]')).toEqual({
+      type: 'array',
+      elementType: { type: 'array', elementType: { type: 'union', types: [string, number] } },
+    });
+    expect(parseTypeExpression('A & B | C')).toEqual({
+      type: 'union',
+      types: [{ type: 'intersection', types: [{ type: 'reference', name: 'A' }, { type: 'reference', name: 'B' }] }, { type: 'reference', name: 'C' }],
+    });
+  });
+
+  it('parses tuples and literals', () => {
+    expect(parseTypeExpression(`[1, -2.5, "a\\"b", 'it\\'s', 'say "hi"', true]`)).toEqual({
+      type: 'tuple',
+      elements: [
+        { type: 'literal', value: 1 },
+        { type: 'literal', value: -2.5 },
+        { type: 'literal', value: 'a"b' },
+        { type: 'literal', value: "it's" },
+        { type: 'literal', value: 'say "hi"' },
+        { type: 'literal', value: true },
+      ],
+    });
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseTypeExpression('Map<string')).toThrow(/Cannot parse type expression "Map<string": expected ">" at the end/);
+    expect(() => parseTypeExpression('string number')).toThrow(/unexpected "number"/);
+    expect(() => parseTypeExpression('{ a: string }')).toThrow(/unsupported syntax/);
+    expect(() => parseTypeExpression(`Foo<'\\x41'>`)).toThrow(/Cannot parse type expression/);
+  });
+});
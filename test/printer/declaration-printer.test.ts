@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ReexportSource, printDeclaration, printDeclarationFile } from '../../src/printer/declaration-printer.js';
+import { Reflection, ReflectionKind } from '../../src/types/typedoc.js';
+
+const user: Reflection = { id: 2, name: 'User', kind: ReflectionKind.Interface, children: [] };
+const userId: Reflection = { id: 3, name: 'UserId', kind: ReflectionKind.TypeAlias, type: { type: 'intrinsic', name: 'string' } };
+const reexport = (id: number, name: string, target: number): Reflection => ({ id, name, kind: ReflectionKind.Reference, target });
+
+const index: Reflection = {
+  id: 10,
+  name: 'index',
+  kind: ReflectionKind.Module,
+  children: [userId, reexport(11, 'User', 2), reexport(12, 'Person', 2), reexport(13, 'Id', 3)],
+};
+const models: Reflection = { id: 1, name: 'models', kind: ReflectionKind.Module, children: [user] };
+
+const sources = new Map<number, ReexportSource>([
+  [11, { name: 'User', module: 'models' }],
+  [12, { name: 'User', module: 'models' }],
+  [13, { name: 'UserId', module: 'index' }],
+]);
+const resolveReexport = (reference: Reflection) => sources.get(reference.id);
+
+describe('printDeclarationFile', () => {
+  it('prints re-exports from the module declaring their target', () => {
+    expect(printDeclarationFile(index, { resolveReexport })).toBe([
+      'export type UserId = string;',
+      '',
+      'export { User, User as Person } from "models";',
+      '',
+      'export { UserId as Id };',
+      '',
+    ].join('\n'));
+  });
+
+  it('prints re-exports inside module blocks', () => {
+    const project: Reflection = { id: 0, name: 'fixture', kind: ReflectionKind.Project, children: [models, index] };
+    const printed = printDeclarationFile(project, { resolveReexport });
+    expect(printed).toContain('declare module "index" {\n  export type UserId = string;\n\n  export { User, User as Person } from "models";\n\n  export { UserId as Id };\n}');
+  });
+
+  it('prints modules re-exported as namespaces', () => {
+    const namespaceSource = () => ({ name: 'models', module: 'models', namespace: true });
+    expect(printDeclaration(reexport(14, 'all', 1), { resolveReexport: namespaceSource })).toBe('export * as all from "models";');
+  });
+
+  it('prints re-exports by name when their target is unknown', () => {
+    expect(printDeclaration(reexport(12, 'Person', 2))).toBe('export { Person };');
+    expect(printDeclaration(reexport(12, 'Person', 2), { resolveReexport })).toBe('export { User as Person } from "models";');
+  });
+});
@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { TypeDocParser } from '../../src/parser/index.js';
+import { DocProject } from '../../src/projects/doc-project.js';
+
+const fixture = path.join(path.dirname(fileURLToPath(import.meta.url)), '../parser/fixtures/typedoc-0.25.json');
+
+describe('DocProject', () => {
+  let dir = '';
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tsdoc-mcp-test-'));
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('runs reloads of the same change one at a time', async () => {
+    const docPath = path.join(dir, 'typedoc.json');
+    await fs.copyFile(fixture, docPath);
+    const project = new DocProject({ name: 'fixture', docPath });
+    await project.ensureLoaded();
+    const loaded = project.parser;
+
+    let running = 0;
+    let overlapped = false;
+    const parse = TypeDocParser.prototype.parse;
+    const spy = vi.spyOn(TypeDocParser.prototype, 'parse').mockImplementation(async function (this: TypeDocParser) {
+      overlapped ||= running > 0;
+      running++;
+      try {
+        await parse.call(this);
+      } finally {
+        running--;
+      }
+    });
+
+    const later = new Date(Date.now() + 60_000);
+    await fs.utimes(docPath, later, later);
+    const reload = (project as any).reloadDocs.bind(project) as () => Promise<void>;
+    await Promise.all([reload(), reload()]);
+
+    expect(overlapped).toBe(false);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(project.parser).not.toBe(loaded);
+    expect(project.getReloadStatus().lastError).toBeUndefined();
+  });
+});
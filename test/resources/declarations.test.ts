@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { TypeDocParser } from '../../src/parser/index.js';
+import { getModuleDeclarations } from '../../src/resources/declarations.js';
+
+const fixture = path.join(path.dirname(fileURLToPath(import.meta.url)), '../parser/fixtures/typedoc-0.25.json');
+
+describe('getModuleDeclarations', () => {
+  for (const streaming of [false, true]) {
+    it(`prints re-exports once, under their own name${streaming ? ' when streaming' : ''}`, async () => {
+      const parser = new TypeDocParser(fixture, { streaming });
+      await parser.parse();
+
+      const { content } = await getModuleDeclarations(parser);
+      parser.close();
+
+      expect(content.match(/interface User\b/g)).toHaveLength(1);
+      expect(content).toContain('export { User as Person };');
+    });
+  }
+});
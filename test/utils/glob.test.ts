@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { globToRegExpSource, isGlob } from '../../src/utils/glob.js';
+
+const matches = (glob: string, file: string) => new RegExp(`^${globToRegExpSource(glob)}$`).test(file);
+
+describe('globToRegExpSource', () => {
+  it('matches every file below a trailing **', () => {
+    expect(matches('src/**', 'src/index.ts')).toBe(true);
+    expect(matches('src/**', 'src/tools/find-symbol.ts')).toBe(true);
+    expect(matches('src/**', 'lib/index.ts')).toBe(false);
+    expect(matches('**', 'src/index.ts')).toBe(true);
+  });
+
+  it('matches any number of directories for **/', () => {
+    expect(matches('src/**/*.ts', 'src/index.ts')).toBe(true);
+    expect(matches('src/**/*.ts', 'src/tools/find-symbol.ts')).toBe(true);
+    expect(matches('src/**/*.ts', 'src/tools/README.md')).toBe(false);
+    expect(matches('**/index.ts', 'index.ts')).toBe(true);
+    expect(matches('**/index.ts', 'src/parser/index.ts')).toBe(true);
+    expect(matches('**/index.ts', 'src/parser/reindex.ts')).toBe(false);
+  });
+
+  it('keeps * and ? within a path segment', () => {
+    expect(matches('src/*.ts', 'src/index.ts')).toBe(true);
+    expect(matches('src/*.ts', 'src/tools/index.ts')).toBe(false);
+    expect(matches('src/?.ts', 'src/a.ts')).toBe(true);
+    expect(matches('src/?.ts', 'src/ab.ts')).toBe(false);
+  });
+
+  it('matches other characters literally', () => {
+    expect(matches('src/index.ts', 'src/index.ts')).toBe(true);
+    expect(matches('src/index.ts', 'src/indexxts')).toBe(false);
+    expect(matches('src/(a)+.ts', 'src/(a)+.ts')).toBe(true);
+  });
+});
+
+describe('isGlob', () => {
+  it('recognizes wildcards', () => {
+    expect(isGlob('src/**')).toBe(true);
+    expect(isGlob('src/index.ts')).toBe(false);
+  });
+});